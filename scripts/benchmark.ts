@@ -0,0 +1,73 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import {
+  BenchmarkError,
+  formatBenchmarkMarkdown,
+  parseBenchmarkConfig,
+  runBenchmark,
+  type BenchmarkConfig,
+} from "../src/benchmark";
+import { isRecord } from "../src/json";
+
+const USAGE = `Usage: npm run benchmark -- [options]
+
+Options:
+  --config <path>   Benchmark config JSON (default benchmarks/example.json)
+  --out <dir>       Where to write report.json and report.md
+                    (default benchmark-results)
+  --count <n>       Games per contender, overrides the config
+  --seed <n>        Seed of the first game, overrides the config
+  --help            Show this message`;
+
+const { values } = parseArgs({
+  options: {
+    config: { type: "string", default: "benchmarks/example.json" },
+    out: { type: "string", default: "benchmark-results" },
+    count: { type: "string" },
+    seed: { type: "string" },
+    help: { type: "boolean", default: false },
+  },
+});
+
+if (values.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+let config: BenchmarkConfig;
+try {
+  const raw: unknown = JSON.parse(readFileSync(values.config, "utf8"));
+  // Checked before the command line overrides are spread in
+  if (!isRecord(raw)) throw new BenchmarkError("The config must be an object");
+  config = parseBenchmarkConfig(
+    {
+      ...raw,
+      ...(values.count !== undefined && { count: Number(values.count) }),
+      ...(values.seed !== undefined && { seed: Number(values.seed) }),
+    },
+    process.env
+  );
+} catch (error) {
+  console.error(`${values.config}: ${(error as Error).message}\n`);
+  console.error(USAGE);
+  process.exit(1);
+}
+
+const total = config.count * config.contenders.length;
+let played = 0;
+const report = await runBenchmark(config, (contender, game) => {
+  played++;
+  console.error(
+    `[${played}/${total}] ${contender}, seed ${game.seed}: ${
+      game.outcome
+    } at ${(game.time / 1000).toFixed(1)}s`
+  );
+});
+
+const markdown = formatBenchmarkMarkdown(report);
+mkdirSync(values.out, { recursive: true });
+writeFileSync(join(values.out, "report.json"), JSON.stringify(report, null, 2));
+writeFileSync(join(values.out, "report.md"), markdown);
+console.log(markdown);
+console.error(`Wrote ${join(values.out, "report.json")} and report.md`);
@@ -0,0 +1,148 @@
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { DIFFICULTY_PRESETS } from "../src/difficulty";
+import { SCENARIOS, parseScenario } from "../src/scenario";
+import type { DifficultyPreset, Scenario } from "../src/schema";
+import {
+  DEFAULT_SIMULATION_OPTIONS,
+  STRATEGIES,
+  simulate,
+  type SimulationReport,
+} from "../src/simulation";
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+Options:
+  --strategy <name>   Strategy to play (${Object.keys(STRATEGIES).join(", ")})
+  --scenario <id>     Built-in scenario (${Object.keys(SCENARIOS).join(
+    ", "
+  )}) or path to a scenario JSON file (default mars)
+  --difficulty <name> Difficulty preset (${DIFFICULTY_PRESETS.filter(
+    (p) => p !== "custom"
+  ).join(", ")}, default normal)
+  --seed <n>          Seed of the first game, game i uses seed + i (default 1)
+  --count <n>         Number of games to play (default 1000)
+  --max-time <s>      Game seconds before a game counts as a timeout (default ${
+    DEFAULT_SIMULATION_OPTIONS.maxTime / 1000
+  })
+  --no-events         Disable random events
+  --json              Print the report as JSON
+  --help              Show this message`;
+
+const { values } = parseArgs({
+  options: {
+    strategy: { type: "string", default: "balanced" },
+    scenario: { type: "string", default: "mars" },
+    difficulty: { type: "string", default: "normal" },
+    seed: { type: "string", default: "1" },
+    count: { type: "string", default: "1000" },
+    "max-time": {
+      type: "string",
+      default: String(DEFAULT_SIMULATION_OPTIONS.maxTime / 1000),
+    },
+    "no-events": { type: "boolean", default: false },
+    json: { type: "boolean", default: false },
+    help: { type: "boolean", default: false },
+  },
+});
+
+if (values.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+const seed = Number(values.seed);
+const count = Number(values.count);
+const maxTime = Number(values["max-time"]) * 1000;
+if (!Number.isInteger(seed) || !Number.isInteger(count) || count < 1) {
+  console.error("--seed and --count must be integers, --count at least 1\n");
+  console.error(USAGE);
+  process.exit(1);
+}
+if (!(maxTime > 0)) {
+  console.error("--max-time must be a positive number of seconds\n");
+  console.error(USAGE);
+  process.exit(1);
+}
+
+const difficulty = values.difficulty as DifficultyPreset;
+if (!DIFFICULTY_PRESETS.includes(difficulty) || difficulty === "custom") {
+  console.error(`Unknown difficulty "${values.difficulty}"\n`);
+  console.error(USAGE);
+  process.exit(1);
+}
+
+function loadScenario(name: string): Scenario {
+  return (
+    SCENARIOS[name] ?? parseScenario(JSON.parse(readFileSync(name, "utf8")))
+  );
+}
+
+let report: SimulationReport;
+try {
+  report = simulate(values.strategy, seed, count, {
+    ...DEFAULT_SIMULATION_OPTIONS,
+    scenario: loadScenario(values.scenario),
+    difficulty,
+    maxTime,
+    eventsEnabled: !values["no-events"],
+  });
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
+
+if (values.json) {
+  console.log(JSON.stringify(report, null, 2));
+} else {
+  console.log(formatReport(report));
+}
+
+function formatReport(report: SimulationReport): string {
+  const pct = (n: number, total: number) =>
+    total > 0 ? `${((n / total) * 100).toFixed(1)}%` : "-";
+  const secs = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+  const lines = [
+    `Strategy: ${report.strategy}`,
+    `Scenario: ${report.scenario} (${report.difficulty})`,
+    `Games: ${report.count} (seeds ${report.seed}..${
+      report.seed + report.count - 1
+    })`,
+    "",
+    `Wins:     ${report.wins} (${pct(report.wins, report.count)})`,
+    `Losses:   ${report.losses} (${pct(report.losses, report.count)})`,
+    `Timeouts: ${report.timeouts} (${pct(report.timeouts, report.count)})`,
+  ];
+
+  if (report.timeToWin) {
+    const t = report.timeToWin;
+    lines.push(
+      "",
+      "Time to win:",
+      `  min ${secs(t.min)}  p25 ${secs(t.p25)}  median ${secs(
+        t.median
+      )}  p75 ${secs(t.p75)}  p90 ${secs(t.p90)}  max ${secs(t.max)}`,
+      `  mean ${secs(t.mean)}`
+    );
+    const maxBucket = Math.max(...Object.values(report.winHistogram));
+    Object.entries(report.winHistogram).forEach(([bucket, n]) => {
+      const bar = "#".repeat(Math.max(1, Math.round((n / maxBucket) * 40)));
+      lines.push(`  ${bucket.padStart(5)}s ${String(n).padStart(6)} ${bar}`);
+    });
+  }
+
+  if (report.losses > 0) {
+    lines.push("", "Loss causes (a loss can have several):");
+    Object.entries(report.lossCauses).forEach(([cause, n]) => {
+      lines.push(
+        `  ${cause.padEnd(7)} ${String(n).padStart(6)} (${pct(
+          n,
+          report.losses
+        )} of losses)`
+      );
+    });
+  }
+
+  return lines.join("\n");
+}
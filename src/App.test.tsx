@@ -0,0 +1,342 @@
+// @vitest-environment jsdom
+import {
+  act,
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+} from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import App from "./App";
+import { DEFAULT_PLANNING, TICK_INTERVAL } from "./session";
+import { MockProvider, ruleBasedResponder } from "./mockProvider";
+import type { CompletionRequest } from "./llm";
+import { downloadFile } from "./download";
+
+// Fake agent: every agent request is answered with `agentActions` after
+// `agentLatency` ms, console requests after `consoleLatency` ms, observer and
+// console requests by the rule-based mock
+let agentActions: string[] = [];
+let agentLatency = 0;
+let consoleLatency = 0;
+let mockProvider: MockProvider;
+
+const isAgentRequest = (request: CompletionRequest) =>
+  request.messages[0].content.includes('"actions"');
+
+vi.mock("./llm", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./llm")>()),
+  createProvider: () => mockProvider,
+}));
+
+vi.mock("./download", () => ({ downloadFile: vi.fn() }));
+
+const isConsoleRequest = (request: CompletionRequest) =>
+  request.messages[0].content.includes('"addGoals"');
+
+const agentRequests = () => mockProvider.requests.filter(isAgentRequest);
+
+const observerRequests = () =>
+  mockProvider.requests.filter(
+    (request) => !isAgentRequest(request) && !isConsoleRequest(request)
+  );
+
+// Runs timers and the promises they resolve
+const wait = (ms: number) =>
+  act(async () => {
+    await vi.advanceTimersByTimeAsync(ms);
+  });
+
+const click = (name: string | RegExp) =>
+  fireEvent.click(screen.getByRole("button", { name }));
+
+const credits = () =>
+  Number(
+    screen.getByText(/^Credits: \d+$/).textContent?.replace("Credits: ", "")
+  );
+
+// Starts a normal game, clicks once to start the clock and connects the fake
+// agent
+function startGame() {
+  render(<App />);
+  click("Start");
+  click("Generate Power");
+  click("Connect");
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  localStorage.clear();
+  agentActions = Array(10).fill("generate:energy");
+  agentLatency = 0;
+  consoleLatency = 0;
+  mockProvider = new MockProvider({
+    responder: (request) =>
+      isAgentRequest(request)
+        ? JSON.stringify({ actions: agentActions })
+        : ruleBasedResponder(request),
+  });
+  const complete = mockProvider.complete.bind(mockProvider);
+  mockProvider.complete = async (request) => {
+    if (isAgentRequest(request) && agentLatency > 0) {
+      await new Promise((r) => setTimeout(r, agentLatency));
+    }
+    if (isConsoleRequest(request) && consoleLatency > 0) {
+      await new Promise((r) => setTimeout(r, consoleLatency));
+    }
+    return complete(request);
+  };
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("App", () => {
+  it("opens on the new-game screen", () => {
+    render(<App />);
+
+    expect(screen.getByText("New Game")).toBeTruthy();
+    click("Start");
+    expect(screen.getByText("Click any button to start the game")).toBeTruthy();
+  });
+
+  it("plays the agent's actions on the clock", async () => {
+    startGame();
+    const before = credits();
+    click("Start Agent");
+
+    await wait(0);
+    expect(agentRequests()).toHaveLength(1);
+
+    // One action every half second
+    await wait(2000);
+    expect(credits()).toBeGreaterThanOrEqual(before + 3 * 2);
+    expect(
+      screen.getByRole("button", { name: "Generate Power" }).className
+    ).toContain("agent-action");
+
+    await wait(DEFAULT_PLANNING.interval);
+    expect(agentRequests()).toHaveLength(2);
+  });
+
+  it("holds the clock while the agent is thinking", async () => {
+    agentLatency = 3000;
+    startGame();
+    click("Start Agent");
+
+    await wait(1000);
+    expect(screen.getByText("Waiting for the agent...")).toBeTruthy();
+    expect(screen.getByText("Time: 0:00")).toBeTruthy();
+
+    await wait(2000);
+    expect(screen.queryByText("Waiting for the agent...")).toBeNull();
+    await wait(1000);
+    expect(screen.getByText("Time: 0:01")).toBeTruthy();
+  });
+
+  it("stops asking once the agent is stopped", async () => {
+    startGame();
+    click("Start Agent");
+    await wait(0);
+    click("Stop Agent");
+
+    await wait(2 * DEFAULT_PLANNING.interval);
+    expect(agentRequests()).toHaveLength(1);
+  });
+
+  it("pauses, steps and speeds up the clock", async () => {
+    startGame();
+
+    click("Pause");
+    await wait(5000);
+    expect(screen.getByText("Time: 0:00")).toBeTruthy();
+
+    for (let i = 0; i < 1000 / TICK_INTERVAL; i++) {
+      click("Step");
+    }
+    expect(screen.getByText("Time: 0:01")).toBeTruthy();
+
+    click("Resume");
+    click("4x");
+    await wait(1000);
+    expect(screen.getByText("Time: 0:05")).toBeTruthy();
+  });
+
+  it("sends the agent's due request when stepping while paused", async () => {
+    startGame();
+    click("Pause");
+    click("Start Agent");
+    await wait(1000);
+    expect(agentRequests()).toHaveLength(0);
+
+    click("Step");
+    await wait(0);
+    expect(agentRequests()).toHaveLength(1);
+
+    for (let i = 0; i < 1000 / TICK_INTERVAL; i++) click("Step");
+    expect(screen.getByText("Time: 0:01")).toBeTruthy();
+  });
+
+  it("doesn't sample or analyze while paused", async () => {
+    startGame();
+    await wait(1000);
+    expect(observerRequests()).toHaveLength(1);
+
+    click("Pause");
+    await wait(60_000);
+    expect(observerRequests()).toHaveLength(1);
+    expect(screen.getByText("Stability: Not enough data")).toBeTruthy();
+
+    click("Resume");
+    await wait(10_000);
+    expect(observerRequests()).toHaveLength(2);
+  });
+
+  it("lists the agent's decisions", async () => {
+    startGame();
+    click("Start Agent");
+    await wait(0);
+
+    click("Show decisions (1)");
+    expect(screen.getByText(/^Plan 1/)).toBeTruthy();
+    expect(screen.getByText("No rationale given")).toBeTruthy();
+  });
+
+  it("waits for the player to approve plans in co-pilot mode", async () => {
+    agentActions = ["generate:oxygen", "generate:energy"];
+    startGame();
+    fireEvent.click(screen.getByLabelText(/Approve plans/));
+    click("Start Agent");
+    await wait(1000);
+
+    expect(screen.getByText("Waiting for your approval...")).toBeTruthy();
+    expect(screen.getByText("Time: 0:00")).toBeTruthy();
+    click("Move step 2 up");
+    fireEvent.click(screen.getAllByRole("button", { name: "Strike" })[1]);
+    click("Approve plan");
+    await wait(DEFAULT_PLANNING.interval);
+
+    const [, second] = agentRequests();
+    expect(second.messages[second.messages.length - 1].content).toContain(
+      "Rejected generate:oxygen: Struck out by the player"
+    );
+  });
+
+  it("stops the agent once the LLM budget is used up", async () => {
+    localStorage.setItem(
+      "curmars:llm-settings",
+      JSON.stringify({ budget: 0.0001 })
+    );
+    startGame();
+    click("Start Agent");
+
+    await wait(DEFAULT_PLANNING.interval + 1000);
+    expect(agentRequests()).toHaveLength(1);
+    expect(screen.getByText(/^Budget reached/)).toBeTruthy();
+    expect(
+      screen.getByRole<HTMLButtonElement>("button", { name: "Start Agent" })
+        .disabled
+    ).toBe(true);
+  });
+
+  it("reports rejected agent actions with the next request", async () => {
+    agentActions = Array(10).fill("purchase:energy2");
+    startGame();
+    const before = credits();
+    click("Start Agent");
+
+    await wait(DEFAULT_PLANNING.interval);
+    expect(credits()).toBe(before);
+
+    const [, second] = agentRequests();
+    const prompt = second.messages[second.messages.length - 1].content;
+    expect(prompt).toContain("10 rejected");
+    expect(prompt).toContain(
+      "Rejected purchase:energy2: Nuclear Generator requires Solar Array first"
+    );
+  });
+
+  it("prompts the agent with the chosen strategy and templates", async () => {
+    render(<App />);
+    click("Start");
+    click("Generate Power");
+    fireEvent.change(screen.getByLabelText(/Strategy/), {
+      target: { value: "economy" },
+    });
+    const state = screen.getByLabelText("state template");
+    fireEvent.change(state, { target: { value: "Credits {{money}}" } });
+    expect(
+      screen.getByText("Unknown variable {{money}} in the state template")
+    ).toBeTruthy();
+    expect(
+      screen.getByRole<HTMLButtonElement>("button", { name: "Connect" })
+        .disabled
+    ).toBe(true);
+
+    fireEvent.change(state, { target: { value: "Credits {{credits}}" } });
+    click("Connect");
+    click("Start Agent");
+    await wait(0);
+
+    const [system, prompt] = agentRequests()[0].messages;
+    expect(system.content).toContain("STRATEGY TIPS (Aggressive economy)");
+    expect(prompt.content).toMatch(/^Credits \d+$/);
+    expect(
+      screen.getByText(/Change LLM \(.*, Aggressive economy\)/)
+    ).toBeTruthy();
+  });
+
+  it("takes standing goals and agent commands from the console", async () => {
+    startGame();
+    const input = screen.getByLabelText("Console message");
+    fireEvent.change(input, { target: { value: "keep energy above 40" } });
+    click("Send");
+    await wait(0);
+
+    expect(screen.getByText("Standing goals")).toBeTruthy();
+    fireEvent.change(input, { target: { value: "start the agent" } });
+    click("Send");
+    await wait(0);
+
+    expect(screen.getByRole("button", { name: "Stop Agent" })).toBeTruthy();
+    const [request] = agentRequests();
+    expect(request.messages[request.messages.length - 1].content).toContain(
+      "- keep energy above 40"
+    );
+  });
+
+  it("drops console commands whose reply comes after a new game", async () => {
+    consoleLatency = 3000;
+    startGame();
+    fireEvent.change(screen.getByLabelText("Console message"), {
+      target: { value: "start the agent" },
+    });
+    click("Send");
+    await wait(1000);
+
+    click("New Game");
+    click("Start");
+    await wait(3000);
+
+    expect(screen.getByRole("button", { name: "Start Agent" })).toBeTruthy();
+    expect(agentRequests()).toHaveLength(0);
+  });
+
+  it("charts the session and exports it with the agent's plans marked", async () => {
+    startGame();
+    click("Start Agent");
+    await wait(2000);
+
+    expect(screen.getByRole("img", { name: "Oxygen chart" })).toBeTruthy();
+    click("Export CSV");
+    const [filename, csv] = vi.mocked(downloadFile).mock.calls[0];
+    expect(filename).toMatch(/\.csv$/);
+    const rows = csv.split("\n");
+    expect(rows.length).toBeGreaterThan(2000 / TICK_INTERVAL);
+    expect(csv).toContain("plan: 10 steps");
+  });
+});
@@ -1,726 +1,331 @@
-import { useState, useEffect, useRef } from "react";
-import styled from "@emotion/styled";
+import { useState, useEffect, useRef, useReducer, useMemo } from "react";
 import { motion } from "framer-motion";
-import { GameAgent } from "./agent";
-
-interface Resource {
-  oxygen: number;
-  water: number;
-  temperature: number;
-  energy: number;
-}
-
-interface Upgrade {
-  id: string;
-  name: string;
-  cost: number;
-  resourceType: keyof Resource;
-  multiplier: number;
-  purchased: boolean;
-}
-
-interface Event {
-  id: string;
-  title: string;
-  description: string;
-  effect: (resources: Resource) => Resource;
-  severity: "positive" | "negative";
-}
-
-const Container = styled.div`
-  max-width: 1200px;
-  margin: 0 auto;
-  padding: 2rem;
-  text-align: center;
-  min-height: 100vh;
-  display: flex;
-  flex-direction: column;
-  align-items: center;
-`;
-
-const GameBoard = styled.div`
-  display: grid;
-  grid-template-columns: repeat(3, 1fr);
-  gap: 2rem;
-  margin: 2rem 0;
-  width: 100%;
-  max-width: 1000px;
-`;
-
-const ResourceCard = styled(motion.div)`
-  background: #2a2a2a;
-  padding: 1.5rem;
-  border-radius: 10px;
-  color: white;
-  width: 100%;
-  height: 200px; // Fixed height to prevent layout shifts
-`;
-
-const Button = styled(motion.button)`
-  background: #e53170;
-  color: white;
-  border: none;
-  padding: 0.8rem 1.5rem;
-  border-radius: 5px;
-  cursor: pointer;
-  font-size: 1rem;
-  margin: 0.5rem;
-  width: 150px; // Fixed width to maintain consistent size
-  height: 50px; // Fixed height to maintain consistent size
-
-  &:hover {
-    background: #ff4081;
-  }
-
-  &:disabled {
-    background: #666;
-    cursor: not-allowed;
-  }
-
-  &.agent-action {
-    background: #00ff00;
-    transform: scale(1.1);
-    box-shadow: 0 0 10px rgba(0, 255, 0, 0.5);
-  }
-`;
-
-const EventArea = styled.div`
-  height: 120px; // Increased fixed height to prevent layout shifts
-  display: flex;
-  align-items: center;
-  justify-content: center;
-  margin: 1rem 0;
-  width: 100%;
-  max-width: 1000px;
-`;
-
-const EventCard = styled(motion.div)<{ $severity: "positive" | "negative" }>`
-  background: ${(props) =>
-    props.$severity === "positive" ? "#2e7d32" : "#c62828"};
-  padding: 1rem;
-  border-radius: 10px;
-  color: white;
-  width: 100%;
-  max-width: 600px;
-  position: relative;
-`;
-
-const UpgradeSection = styled.div`
-  display: grid;
-  grid-template-columns: repeat(auto-fit, minmax(250px, 1fr));
-  gap: 1rem;
-  margin: 2rem 0;
-  width: 100%;
-  max-width: 1000px;
-`;
-
-const UpgradeCard = styled(motion.div)`
-  background: #3a3a3a;
-  padding: 1rem;
-  border-radius: 10px;
-  cursor: pointer;
-  width: 100%;
-  height: 150px; // Fixed height to prevent layout shifts
-
-  &:hover {
-    background: #4a4a4a;
-  }
-
-  &[disabled] {
-    opacity: 0.5;
-    cursor: not-allowed;
-  }
-`;
-
-const Stats = styled.div`
-  display: flex;
-  justify-content: space-around;
-  align-items: center;
-  flex-wrap: wrap;
-  gap: 1rem;
-  margin: 1rem 0;
-  padding: 1rem;
-  background: #2a2a2a;
-  border-radius: 10px;
-  width: 100%;
-  max-width: 1000px;
-  min-height: 80px; // Fixed height to prevent layout shifts
-`;
+import { GameAgent, type Agent } from "./agent";
+import { BOTS } from "./bots";
+import { GameObserver } from "./observer";
+import ObserverPanel from "./ObserverPanel";
+import { createProvider, type LLMSettings } from "./llm";
+import { saveLLMSettings } from "./llmSettings";
+import DecisionPanel from "./DecisionPanel";
+import UsagePanel from "./UsagePanel";
+import { UsageMeter } from "./usage";
+import { STRATEGY_PROFILES } from "./promptTemplates";
+import LLMSettingsPanel from "./LLMSettingsPanel";
+import { CommandConsole } from "./commandConsole";
+import ConsolePanel from "./ConsolePanel";
+import {
+  OFFLINE_PROGRESS_CAP,
+  canChoose,
+  canGenerate,
+  createInitialState,
+  getEvent,
+  isCriticalResource,
+  step,
+  toGameState,
+  type EngineAction,
+  type OfflineProgress,
+} from "./engine";
+import {
+  RESOURCE_TYPES,
+  type Building,
+  type Difficulty,
+  type ResourceType,
+  type Scenario,
+  type Upgrade,
+} from "./schema";
+import { difficultyLabel } from "./difficulty";
+import GameSetup from "./GameSetup";
+import { randomSeed } from "./rng";
+import {
+  AUTOSAVE_INTERVAL,
+  AUTOSAVE_SLOT,
+  deleteSave,
+  getSaveSummary,
+  resumeGame,
+  saveGame,
+  type LoadedGame,
+} from "./save";
+import SavePanel from "./SavePanel";
+import { formatGameTime } from "./format";
+import {
+  CLOCK_SPEEDS,
+  PLANNING_INTERVALS,
+  TICK_INTERVAL,
+  accumulateTicks,
+  agentFeedback,
+  agentRequestDue,
+  createSession,
+  sessionReducer,
+  type CopilotSettings,
+  type PlanningSettings,
+} from "./session";
+import PlanQueue from "./PlanQueue";
+import ReplayPanel from "./ReplayPanel";
+import TimelinePanel from "./TimelinePanel";
+import UpgradeTree from "./UpgradeTree";
+import BuildingPanel from "./BuildingPanel";
+import {
+  Container,
+  GameBoard,
+  ResourceCard,
+  Button,
+  EventArea,
+  EventCard,
+  InfoCard,
+  Stats,
+} from "./styles";
 
 function App() {
-  const [resources, setResources] = useState<Resource>({
-    oxygen: 0,
-    water: 0,
-    temperature: -60,
-    energy: 100,
-  });
-
-  const [credits, setCredits] = useState(30);
-  const [currentEvent, setCurrentEvent] = useState<Event | null>(null);
-  const [gameWon, setGameWon] = useState(false);
-  const [gameLost, setGameLost] = useState(false);
-  const [criticalTimer, setCriticalTimer] = useState(0);
-  const [countdownSeconds, setCountdownSeconds] = useState(30);
-  const [upgrades, setUpgrades] = useState<Upgrade[]>([
-    {
-      id: "oxygen1",
-      name: "Basic Oxygen Generator",
-      cost: 80,
-      resourceType: "oxygen",
-      multiplier: 1.2,
-      purchased: false,
-    },
-    {
-      id: "water1",
-      name: "Water Extractor",
-      cost: 80,
-      resourceType: "water",
-      multiplier: 1.2,
-      purchased: false,
-    },
-    {
-      id: "temp1",
-      name: "Thermal Generator",
-      cost: 80,
-      resourceType: "temperature",
-      multiplier: 1.2,
-      purchased: false,
-    },
-    {
-      id: "oxygen2",
-      name: "Advanced Oxygen System",
-      cost: 200,
-      resourceType: "oxygen",
-      multiplier: 1.5,
-      purchased: false,
-    },
-    {
-      id: "water2",
-      name: "Deep Core Extractor",
-      cost: 200,
-      resourceType: "water",
-      multiplier: 1.5,
-      purchased: false,
-    },
-    {
-      id: "temp2",
-      name: "Fusion Array",
-      cost: 200,
-      resourceType: "temperature",
-      multiplier: 1.5,
-      purchased: false,
-    },
-    {
-      id: "energy1",
-      name: "Solar Array",
-      cost: 150,
-      resourceType: "energy",
-      multiplier: 1.3,
-      purchased: false,
-    },
-    {
-      id: "energy2",
-      name: "Nuclear Generator",
-      cost: 300,
-      resourceType: "energy",
-      multiplier: 1.8,
-      purchased: false,
-    },
-  ]);
-
-  const [agent, setAgent] = useState<GameAgent | null>(null);
-  const [isAgentPlaying, setIsAgentPlaying] = useState(false);
-  const [pendingActions, setPendingActions] = useState<
-    Array<{ type: "generate" | "purchase"; target: string }>
-  >([]);
-
-  const [gameStarted, setGameStarted] = useState(false);
-  const [eventsEnabled, setEventsEnabled] = useState(false);
-
-  const [agentActionTarget, setAgentActionTarget] = useState<string | null>(
-    null
+  const [session, dispatch] = useReducer(sessionReducer, null, () =>
+    createSession(createInitialState(randomSeed()))
   );
-
-  const gameStateRef = useRef({
+  const { game, recording } = session;
+  const {
     resources,
     credits,
     upgrades,
+    buildings,
+    gameStarted,
     gameWon,
     gameLost,
-    criticalTimer,
-    countdownSeconds,
-  });
-
-  useEffect(() => {
-    gameStateRef.current = {
-      resources,
-      credits,
-      upgrades,
-      gameWon,
-      gameLost,
-      criticalTimer,
-      countdownSeconds,
-    };
-  }, [
-    resources,
-    credits,
-    upgrades,
-    gameWon,
-    gameLost,
-    criticalTimer,
-    countdownSeconds,
-  ]);
-
-  const events: Event[] = [
-    {
-      id: "dust_storm",
-      title: "Dust Storm",
-      description: "A massive dust storm hits your colony!",
-      severity: "negative",
-      effect: (res) => ({
-        ...res,
-        oxygen: Math.max(0, res.oxygen - 12),
-        temperature: Math.max(-60, res.temperature - 5),
-        energy: Math.max(0, res.energy - 15),
-      }),
-    },
-    {
-      id: "ice_discovery",
-      title: "Ice Discovery",
-      description: "Your rovers discovered an underground ice deposit!",
-      severity: "positive",
-      effect: (res) => ({
-        ...res,
-        water: Math.min(100, res.water + 12),
-      }),
-    },
-    {
-      id: "solar_flare",
-      title: "Solar Flare",
-      description: "A solar flare increases atmospheric temperature!",
-      severity: "positive",
-      effect: (res) => ({
-        ...res,
-        temperature: Math.min(50, res.temperature + 4),
-      }),
-    },
-    {
-      id: "meteor_impact",
-      title: "Meteor Impact",
-      description: "A meteor has struck nearby, releasing underground water!",
-      severity: "positive",
-      effect: (res) => ({
-        ...res,
-        water: Math.min(100, res.water + 15),
-        temperature: Math.min(50, res.temperature + 2),
-      }),
-    },
-    {
-      id: "radiation_storm",
-      title: "Radiation Storm",
-      description: "A radiation storm is affecting your oxygen generators!",
-      severity: "negative",
-      effect: (res) => ({
-        ...res,
-        oxygen: Math.max(0, res.oxygen - 12),
-      }),
-    },
-    {
-      id: "volcanic_activity",
-      title: "Volcanic Activity",
-      description: "Dormant volcanoes are showing activity!",
-      severity: "positive",
-      effect: (res) => ({
-        ...res,
-        temperature: Math.min(50, res.temperature + 6),
-      }),
-    },
-    {
-      id: "equipment_failure",
-      title: "Equipment Failure",
-      description: "Critical systems are malfunctioning!",
-      severity: "negative",
-      effect: (res) => ({
-        ...res,
-        oxygen: Math.max(0, res.oxygen - 10),
-        water: Math.max(0, res.water - 8),
-      }),
-    },
-    {
-      id: "atmospheric_leak",
-      title: "Atmospheric Leak",
-      description: "Oxygen is rapidly escaping through a breach!",
-      severity: "negative",
-      effect: (res) => ({
-        ...res,
-        oxygen: Math.max(0, res.oxygen - 15),
-      }),
-    },
-    {
-      id: "freezing_wave",
-      title: "Freezing Wave",
-      description: "A severe cold front is approaching!",
-      severity: "negative",
-      effect: (res) => ({
-        ...res,
-        temperature: Math.max(-60, res.temperature - 8),
-        water: Math.max(0, res.water - 5),
-      }),
-    },
-    {
-      id: "sandstorm",
-      title: "Sandstorm",
-      description: "A violent sandstorm is damaging equipment!",
-      severity: "negative",
-      effect: (res) => ({
-        ...res,
-        oxygen: Math.max(0, res.oxygen - 7),
-        water: Math.max(0, res.water - 4),
-      }),
-    },
-    {
-      id: "system_failure",
-      title: "Critical System Failure",
-      description: "Multiple systems are failing simultaneously!",
-      severity: "negative",
-      effect: (res) => ({
-        ...res,
-        oxygen: Math.max(0, res.oxygen - 20),
-        water: Math.max(0, res.water - 15),
-        energy: Math.max(0, res.energy - 25),
-      }),
-    },
-    {
-      id: "energy_surge",
-      title: "Energy Grid Surge",
-      description: "Power systems are overloading!",
-      severity: "negative",
-      effect: (res) => ({
-        ...res,
-        energy: Math.max(0, res.energy - 30),
-      }),
-    },
-  ];
-
-  // Track active events with timestamps
-  const [eventCooldowns, setEventCooldowns] = useState<Record<string, number>>(
-    {}
+    eventsEnabled,
+    eventCooldowns,
+  } = game;
+  const currentEvent = game.currentEvent
+    ? getEvent(game.scenario, game.currentEvent.id)
+    : undefined;
+
+  const [llmAgent, setLLMAgent] = useState<GameAgent | null>(null);
+  const [agentModel, setAgentModel] = useState<string | null>(null);
+  // Tokens and cost of the LLM calls since the last Connect
+  const [usage, setUsage] = useState<UsageMeter | null>(null);
+  // Runs on local metrics only until an LLM is connected
+  const [observer, setObserver] = useState(() => new GameObserver(null));
+  // Player's chat with the LLM, needs a connection
+  const [commands, setCommands] = useState<CommandConsole | null>(null);
+  // "llm" or one of the rule-based BOTS
+  const [agentKind, setAgentKind] = useState("llm");
+  const bots = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(BOTS).map(([id, createBot]) => [id, createBot()])
+      ),
+    []
   );
+  const agent: Agent | null = agentKind === "llm" ? llmAgent : bots[agentKind];
+  const overBudget = agentKind === "llm" && !!usage?.overBudget;
+  const isAgentPlaying = session.agent.playing;
+  const agentActionTarget = session.agent.lastTarget;
+  const stopAgent = () => dispatch({ type: "agentStop" });
+  const { planning } = session;
+  const setPlanning = (changes: Partial<PlanningSettings>) =>
+    dispatch({ type: "setPlanning", planning: { ...planning, ...changes } });
+  const { copilot } = session;
+  const setCopilot = (changes: Partial<CopilotSettings>) =>
+    dispatch({ type: "setCopilot", copilot: { ...copilot, ...changes } });
+
+  const [paused, setPaused] = useState(false);
+  // Step was pressed while the agent's request was due, so it goes out even
+  // though the game is paused
+  const [stepRequest, setStepRequest] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // Unfinished game from a previous session, offered as "continue"
+  const [autosave] = useState(() => getSaveSummary(AUTOSAVE_SLOT));
+  // New-game screen, shown on launch and from the New Game button
+  const [showSetup, setShowSetup] = useState(true);
+  // What the buildings made while the loaded game was closed
+  const [offlineProgress, setOfflineProgress] =
+    useState<OfflineProgress | null>(null);
+
+  const sessionRef = useRef(session);
 
-  // Agent control effect
   useEffect(() => {
-    if (!isAgentPlaying || !agent || gameWon || gameLost || !gameStarted) {
-      console.log("Agent not running because:", {
-        isAgentPlaying,
-        hasAgent: !!agent,
-        gameWon,
-        gameLost,
-        gameStarted,
-      });
-      return;
-    }
-
-    console.log("Agent is active, starting interval...");
-
-    // Make initial request immediately
-    const makeRequest = async () => {
-      console.log("Requesting agent actions...");
-      const state = gameStateRef.current;
-      const gameState = {
-        resources: { ...state.resources },
-        credits: state.credits,
-        upgrades: [...state.upgrades],
-        gameWon: state.gameWon,
-        gameLost: state.gameLost,
-        criticalTimer: state.criticalTimer > 0 ? state.countdownSeconds : null,
-      };
-
-      try {
-        const actions = await agent.getNextActions(gameState);
-        console.log("Received agent actions:", actions);
-        setPendingActions(actions);
-      } catch (error) {
-        console.error("Error getting agent actions:", error);
-      }
-    };
-
-    // Make initial request
-    makeRequest();
-
-    // Get new actions every 5 seconds
-    const agentInterval = setInterval(makeRequest, 5000);
-
-    return () => {
-      console.log("Cleaning up agent interval");
-      clearInterval(agentInterval);
-    };
-  }, [isAgentPlaying, agent, gameWon, gameLost, gameStarted]);
-
-  // Execute pending actions
+    sessionRef.current = session;
+  }, [session]);
+
+  // Asks the agent for its next plan once the clock reaches it. The clock
+  // holds until the answer arrives, so a slow LLM doesn't cost game time, and
+  // nothing is asked while paused unless the player steps.
+  const requestDue = agentRequestDue(session);
+  const lastRequest = session.agent.lastRequest;
   useEffect(() => {
-    if (!isAgentPlaying || pendingActions.length === 0 || !gameStarted) {
-      console.log("Not executing actions because:", {
-        isAgentPlaying,
-        pendingActionsLength: pendingActions.length,
-        gameStarted,
-      });
+    if (!requestDue || (paused && !stepRequest)) return;
+    setStepRequest(false);
+    if (!agent || overBudget) {
+      stopAgent();
       return;
     }
 
-    console.log("Starting to execute pending actions:", pendingActions);
-
-    // Execute actions every 500ms to complete all 10 within 5 seconds
-    const actionInterval = setInterval(() => {
-      setPendingActions((prev) => {
-        const [nextAction, ...remainingActions] = prev;
-        if (nextAction) {
-          console.log("Executing action:", nextAction);
-          setAgentActionTarget(nextAction.target);
-          if (nextAction.type === "generate") {
-            handleAction(nextAction.target as keyof Resource);
-          } else if (nextAction.type === "purchase") {
-            const upgrade = upgrades.find((u) => u.id === nextAction.target);
-            if (upgrade) {
-              purchaseUpgrade(upgrade);
-            }
-          }
-        }
-        return remainingActions;
+    const requestId = lastRequest + 1;
+    const current = sessionRef.current;
+    dispatch({ type: "agentRequest", requestId });
+    console.log("Requesting agent plan...");
+    agent
+      .getNextPlan(toGameState(current.game), agentFeedback(current))
+      .then((plan) => {
+        console.log("Received agent plan:", plan);
+        dispatch({ type: "agentPlan", requestId, plan });
+      })
+      .catch((error) => {
+        console.error("Error getting agent plan:", error);
+        dispatch({ type: "agentPlan", requestId, plan: [] });
       });
-    }, 500);
-
-    return () => {
-      console.log("Cleaning up action execution interval");
-      clearInterval(actionInterval);
-      if (!isAgentPlaying) {
-        setAgentActionTarget(null);
-      }
-    };
-  }, [isAgentPlaying, pendingActions, gameStarted]);
-
-  // Initialize agent when API key is provided
-  const initializeAgent = (apiKey: string) => {
-    console.log("Initializing agents with key length:", apiKey.length);
+  }, [requestDue, paused, stepRequest, agent, overBudget, lastRequest]);
+
+  // Initialize agents once an LLM endpoint is configured
+  const initializeAgent = (settings: LLMSettings) => {
+    console.log(
+      "Initializing agents with endpoint:",
+      settings.provider.baseURL
+    );
     try {
-      const newAgent = new GameAgent(apiKey);
-      // const newObserver = new GameObserver(apiKey);
-      setAgent(newAgent);
-      // setObserver(newObserver);
+      const provider = createProvider(settings.provider);
+      const meter = new UsageMeter(settings.budget);
+      const newAgent = new GameAgent(
+        meter.meter(provider, "agent"),
+        settings.agent,
+        settings.prompt
+      );
+      const newObserver = new GameObserver(
+        meter.meter(provider, "observer"),
+        settings.observer
+      );
+      setLLMAgent(newAgent);
+      setAgentModel(
+        `${settings.agent.model}, ${
+          STRATEGY_PROFILES[settings.prompt.profile].name
+        }`
+      );
+      setUsage(meter);
+      setObserver(newObserver);
+      setCommands(
+        new CommandConsole(
+          meter.meter(provider, "console"),
+          settings.observer,
+          newAgent
+        )
+      );
+      saveLLMSettings(settings);
       console.log("Agents initialized successfully");
     } catch (error) {
       console.error("Error initializing agents:", error);
     }
   };
 
-  // Event generation effect
+  // Game clock: real time becomes fixed ticks at the chosen speed, and each
+  // tick runs agent actions, drain, events and the critical countdown
   useEffect(() => {
-    if (!gameStarted || gameWon || gameLost || !eventsEnabled) return;
-
-    const eventInterval = setInterval(() => {
-      const currentTime = Date.now();
-
-      // Clean up expired cooldowns
-      setEventCooldowns((prev) => {
-        const newCooldowns = { ...prev };
-        Object.entries(newCooldowns).forEach(([eventId, timestamp]) => {
-          if (currentTime - timestamp > 15000) {
-            delete newCooldowns[eventId];
-          }
-        });
-        return newCooldowns;
-      });
-
-      // 50% chance of event
-      if (Math.random() < 0.5) {
-        const availableEvents = events.filter(
-          (event) =>
-            !eventCooldowns[event.id] ||
-            currentTime - eventCooldowns[event.id] > 15000
-        );
-
-        if (availableEvents.length > 0) {
-          const randomEvent =
-            availableEvents[Math.floor(Math.random() * availableEvents.length)];
-
-          setCurrentEvent(randomEvent);
-          setResources((prev) => randomEvent.effect(prev));
-
-          setEventCooldowns((prev) => ({
-            ...prev,
-            [randomEvent.id]: currentTime,
-          }));
-
-          setTimeout(() => setCurrentEvent(null), 3000);
-        }
+    if (!gameStarted || gameWon || gameLost || paused) return;
+
+    let accumulator = 0;
+    let lastUpdate = Date.now();
+    const clockInterval = setInterval(() => {
+      const now = Date.now();
+      const update = accumulateTicks(accumulator, now - lastUpdate, speed);
+      accumulator = update.accumulator;
+      lastUpdate = now;
+      if (update.ticks > 0) {
+        dispatch({ type: "tick", count: update.ticks });
       }
-    }, 6000);
+    }, TICK_INTERVAL);
 
-    return () => clearInterval(eventInterval);
-  }, [gameWon, gameLost, gameStarted, eventsEnabled]);
+    return () => clearInterval(clockInterval);
+  }, [gameStarted, gameWon, gameLost, paused, speed]);
 
-  // Resource drain effect
+  // Autosave while playing, and drop the autosave once the game is over
   useEffect(() => {
-    if (!gameStarted || gameWon || gameLost) return;
-
-    const drainInterval = setInterval(() => {
-      setResources((prev) => {
-        const energyEfficiency = prev.energy / 100;
-        const baseDrain = {
-          oxygen: 1.2,
-          water: 0.8,
-          temperature: 0.4,
-          energy: 0.6,
-        };
-
-        return {
-          oxygen: Math.max(
-            0,
-            prev.oxygen - baseDrain.oxygen * (2 - energyEfficiency)
-          ),
-          water: Math.max(
-            0,
-            prev.water - baseDrain.water * (2 - energyEfficiency)
-          ),
-          temperature: Math.max(
-            -60,
-            prev.temperature - baseDrain.temperature * (2 - energyEfficiency)
-          ),
-          energy: Math.max(0, prev.energy - baseDrain.energy),
-        };
-      });
-    }, 3000);
-
-    return () => clearInterval(drainInterval);
-  }, [gameWon, gameLost, gameStarted]);
-
-  // Combined critical check and countdown effect
-  useEffect(() => {
-    if (!gameStarted || gameWon || gameLost) return;
-
-    const isCritical =
-      resources.oxygen <= 5 || resources.water <= 5 || resources.energy <= 5;
-
-    if (isCritical) {
-      if (criticalTimer === 0) {
-        // Initial critical state
-        setCriticalTimer(1);
-        setCountdownSeconds(30);
-      }
-
-      const countdownInterval = setInterval(() => {
-        setCountdownSeconds((prev) => {
-          if (prev <= 1) {
-            setGameLost(true);
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-
-      return () => clearInterval(countdownInterval);
-    } else {
-      setCriticalTimer(0);
-      setCountdownSeconds(30);
+    if (gameWon || gameLost) {
+      deleteSave(AUTOSAVE_SLOT);
+      return;
     }
-  }, [resources, gameWon, gameLost, criticalTimer, gameStarted]);
+    if (!gameStarted) return;
 
-  // Win condition check
-  useEffect(() => {
-    if (gameLost) return; // Don't check for win if already lost
-
-    if (
-      resources.oxygen >= 100 &&
-      resources.water >= 100 &&
-      resources.temperature >= 15
-    ) {
-      setGameWon(true);
-    }
-  }, [resources, gameLost]);
+    const autosave = () => saveGame(AUTOSAVE_SLOT, sessionRef.current.game);
+    const autosaveInterval = setInterval(autosave, AUTOSAVE_INTERVAL);
+    window.addEventListener("beforeunload", autosave);
 
-  // Game over cleanup
-  useEffect(() => {
-    if (gameLost) {
-      setCurrentEvent(null);
-      setEventCooldowns({});
-    }
-  }, [gameLost]);
+    return () => {
+      clearInterval(autosaveInterval);
+      window.removeEventListener("beforeunload", autosave);
+    };
+  }, [gameStarted, gameWon, gameLost]);
 
-  const getMultiplier = (resourceType: keyof Resource) => {
-    return upgrades
-      .filter((u) => u.resourceType === resourceType && u.purchased)
-      .reduce((mult, upgrade) => mult * upgrade.multiplier, 1);
+  const loadState = ({ state, progress }: LoadedGame) => {
+    setOfflineProgress(progress);
+    setShowSetup(false);
+    dispatch({ type: "load", state });
   };
 
-  const handleAction = (type: keyof Resource) => {
-    if (!gameStarted) {
-      setGameStarted(true);
-    }
-    if (gameWon || gameLost) return;
-
-    // Special case for energy - doesn't require energy to generate
-    if (type === "energy") {
-      const multiplier = getMultiplier(type);
-      setResources((prev) => ({
-        ...prev,
-        energy: Math.min(100, prev.energy + 8 * multiplier), // Base energy gain of 8
-      }));
-      setCredits((prev) => prev + 2);
-      return;
-    }
+  // The events setting is part of the start state, so replays keep it
+  const startGame = (
+    scenario: Scenario,
+    difficulty: Difficulty,
+    eventsEnabled: boolean
+  ) =>
+    loadState({
+      state: step(
+        createInitialState(randomSeed(), scenario, difficulty),
+        { type: "setEventsEnabled", enabled: eventsEnabled },
+        0
+      ),
+      progress: null,
+    });
 
-    // For all other actions, check energy requirement
-    if (resources.energy < 10) {
-      return; // Can't perform action without energy
+  const continueGame = () => {
+    const loaded = resumeGame(AUTOSAVE_SLOT);
+    if (loaded) {
+      loadState(loaded);
     }
+  };
 
-    const multiplier = getMultiplier(type);
-    setResources((prev) => {
-      const energyEfficiency = prev.energy / 100; // 0 to 1
-      const baseGain = {
-        temperature: 0.3,
-        oxygen: 3,
-        water: 3,
-        energy: 5,
-      };
-
-      return {
-        ...prev,
-        [type]:
-          type === "temperature"
-            ? Math.min(
-                50,
-                prev[type] +
-                  baseGain.temperature * multiplier * energyEfficiency
-              )
-            : Math.min(
-                100,
-                prev[type] + baseGain[type] * multiplier * energyEfficiency
-              ),
-        energy: Math.max(0, prev.energy - 10), // Energy cost for non-energy actions
-      };
-    });
-    setCredits((prev) => prev + 2);
+  const act = (action: EngineAction) =>
+    dispatch({ type: "act", action, paused });
+
+  const handleAction = (type: ResourceType) => {
+    act({ type: "generate", resource: type });
   };
 
   const purchaseUpgrade = (upgrade: Upgrade) => {
-    if (!gameStarted) {
-      setGameStarted(true);
-    }
-    if (gameWon || gameLost) return;
+    act({ type: "purchase", upgradeId: upgrade.id });
+  };
 
-    if (credits >= upgrade.cost && !upgrade.purchased) {
-      setCredits((prev) => prev - upgrade.cost);
-      setUpgrades((prev) =>
-        prev.map((u) => (u.id === upgrade.id ? { ...u, purchased: true } : u))
-      );
-    }
+  const build = (building: Building) => {
+    act({ type: "build", buildingId: building.id });
   };
 
+  const criticalBorder = (type: ResourceType) =>
+    isCriticalResource(resources, game.scenario, type)
+      ? "2px solid #f44336"
+      : "none";
+
+  const continueButton = !gameStarted && autosave && (
+    <Button onClick={continueGame} style={{ width: "auto" }}>
+      Continue ({formatGameTime(autosave.time)})
+    </Button>
+  );
+
+  if (showSetup) {
+    return (
+      <Container>
+        <h1>Mars Terraforming</h1>
+        {continueButton && <Stats>{continueButton}</Stats>}
+        <GameSetup
+          onStart={startGame}
+          onCancel={gameStarted ? () => setShowSetup(false) : undefined}
+        />
+        <h2>Saves</h2>
+        <SavePanel game={game} onLoad={loadState} />
+      </Container>
+    );
+  }
+
   return (
     <Container>
       <h1>Mars Terraforming</h1>
 
       <Stats>
+        <div>Difficulty: {difficultyLabel(game.difficulty.preset)}</div>
         <div>Credits: {credits}</div>
         <div>Energy: {resources.energy.toFixed(1)}%</div>
         <div>Active Events: {Object.keys(eventCooldowns).length}</div>
@@ -729,45 +334,260 @@ function App() {
             Click any button to start the game
           </div>
         )}
+        {continueButton}
         {gameWon && (
           <div style={{ color: "#4caf50" }}>TERRAFORMING COMPLETE!</div>
         )}
         {gameLost && <div style={{ color: "#f44336" }}>MISSION FAILED</div>}
-        {!gameWon && !gameLost && criticalTimer > 0 && (
+        {!gameWon && !gameLost && game.critical && (
           <div style={{ color: "#ff9800" }}>
-            CRITICAL WARNING: {countdownSeconds}s until failure
+            CRITICAL WARNING: {game.countdownSeconds}s until failure
           </div>
         )}
         <div>
           <Button
-            onClick={() => setEventsEnabled(!eventsEnabled)}
+            onClick={() => {
+              stopAgent();
+              setShowSetup(true);
+            }}
+            style={{ width: "auto", marginRight: "1rem" }}
+          >
+            New Game
+          </Button>
+          <Button
+            onClick={() =>
+              act({ type: "setEventsEnabled", enabled: !eventsEnabled })
+            }
             style={{ marginRight: "1rem" }}
           >
             {eventsEnabled ? "Disable Events" : "Enable Events"}
           </Button>
-          {!agent && (
-            <input
-              type="text"
-              placeholder="Enter OpenAI API Key"
-              onChange={(e) => initializeAgent(e.target.value)}
-              style={{
-                padding: "0.5rem",
-                marginRight: "1rem",
-                borderRadius: "5px",
-                border: "1px solid #666",
+          <select
+            value={agentKind}
+            onChange={(e) => {
+              stopAgent();
+              setAgentKind(e.target.value);
+            }}
+            style={{
+              padding: "0.5rem",
+              borderRadius: "5px",
+              border: "1px solid #666",
+            }}
+          >
+            <option value="llm">LLM Agent</option>
+            {Object.entries(bots).map(([id, bot]) => (
+              <option key={id} value={id}>
+                {bot.name}
+              </option>
+            ))}
+          </select>
+          {agentKind === "llm" && llmAgent && (
+            <Button
+              onClick={() => {
+                stopAgent();
+                setLLMAgent(null);
               }}
-            />
+              style={{ width: "auto" }}
+            >
+              Change LLM ({agentModel})
+            </Button>
           )}
           <Button
-            onClick={() => setIsAgentPlaying(!isAgentPlaying)}
-            disabled={!agent || gameWon || gameLost}
-            style={{ opacity: !agent ? 0.5 : 1 }}
+            onClick={() =>
+              dispatch({ type: isAgentPlaying ? "agentStop" : "agentStart" })
+            }
+            disabled={!agent || overBudget || gameWon || gameLost}
+            style={{ opacity: !agent || overBudget ? 0.5 : 1 }}
           >
             {isAgentPlaying ? "Stop Agent" : "Start Agent"}
           </Button>
         </div>
       </Stats>
 
+      <Stats>
+        <div>Time: {formatGameTime(game.time)}</div>
+        <div>
+          <Button
+            onClick={() => setPaused(!paused)}
+            disabled={!gameStarted || gameWon || gameLost}
+            style={{ width: "auto", marginRight: "0.5rem" }}
+          >
+            {paused ? "Resume" : "Pause"}
+          </Button>
+          <Button
+            onClick={() =>
+              requestDue
+                ? setStepRequest(true)
+                : dispatch({ type: "tick", count: 1 })
+            }
+            disabled={!paused || !gameStarted || gameWon || gameLost}
+            style={{ width: "auto", marginRight: "1rem" }}
+          >
+            Step
+          </Button>
+          {CLOCK_SPEEDS.map((s) => (
+            <Button
+              key={s}
+              onClick={() => setSpeed(s)}
+              style={{
+                width: "auto",
+                marginRight: "0.5rem",
+                background: s === speed ? "#ff4081" : undefined,
+              }}
+            >
+              {s}x
+            </Button>
+          ))}
+        </div>
+        {session.agent.waitingFor !== null && (
+          <div style={{ color: "#ffd700" }}>Waiting for the agent...</div>
+        )}
+      </Stats>
+
+      <Stats>
+        <label>
+          Replan every{" "}
+          <select
+            value={planning.interval}
+            onChange={(e) => setPlanning({ interval: Number(e.target.value) })}
+            style={{
+              padding: "0.5rem",
+              borderRadius: "5px",
+              border: "1px solid #666",
+            }}
+          >
+            {PLANNING_INTERVALS.map((interval) => (
+              <option key={interval} value={interval}>
+                {interval / 1000}s
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={planning.replanOnCritical}
+            onChange={(e) =>
+              setPlanning({ replanOnCritical: e.target.checked })
+            }
+          />{" "}
+          Replan on critical
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={planning.replanOnNegativeEvent}
+            onChange={(e) =>
+              setPlanning({ replanOnNegativeEvent: e.target.checked })
+            }
+          />{" "}
+          Replan on negative events
+        </label>
+        {isAgentPlaying && (
+          <div>Plan: {session.agent.plan.length} steps left</div>
+        )}
+      </Stats>
+
+      <Stats>
+        <label>
+          <input
+            type="checkbox"
+            checked={copilot.approval}
+            onChange={(e) => setCopilot({ approval: e.target.checked })}
+          />{" "}
+          Approve plans before they run
+        </label>
+        <div>
+          Agent manages:{" "}
+          {RESOURCE_TYPES.map((type) => (
+            <label key={type} style={{ marginRight: "0.5rem" }}>
+              <input
+                type="checkbox"
+                checked={copilot.resources.includes(type)}
+                onChange={(e) =>
+                  setCopilot({
+                    resources: e.target.checked
+                      ? RESOURCE_TYPES.filter(
+                          (t) => t === type || copilot.resources.includes(t)
+                        )
+                      : copilot.resources.filter((t) => t !== type),
+                  })
+                }
+              />{" "}
+              {type[0].toUpperCase() + type.slice(1)}
+            </label>
+          ))}
+        </div>
+        {session.agent.proposal && (
+          <div style={{ color: "#ffd700" }}>Waiting for your approval...</div>
+        )}
+      </Stats>
+
+      {isAgentPlaying && (
+        <PlanQueue
+          agent={session.agent}
+          onMove={(from, to) => dispatch({ type: "proposalMove", from, to })}
+          onStrike={(index) => dispatch({ type: "proposalStrike", index })}
+          onApprove={() => dispatch({ type: "proposalApprove" })}
+        />
+      )}
+
+      {commands && (
+        <>
+          <h2>Console</h2>
+          <ConsolePanel
+            commands={commands}
+            observer={observer}
+            session={session}
+            agent={agent}
+            onAgentCommand={(command) => {
+              if (command === "stop") {
+                stopAgent();
+              } else if (
+                !isAgentPlaying &&
+                agent &&
+                !overBudget &&
+                !gameWon &&
+                !gameLost
+              ) {
+                dispatch({ type: "agentStart" });
+              }
+            }}
+          />
+        </>
+      )}
+
+      {agentKind === "llm" && !llmAgent && (
+        <LLMSettingsPanel onApply={initializeAgent} />
+      )}
+
+      {offlineProgress && (
+        <InfoCard style={{ maxWidth: "1000px", marginBottom: "1rem" }}>
+          <h3>While you were away</h3>
+          <p>
+            {formatGameTime(offlineProgress.elapsed)} away
+            {offlineProgress.elapsed > OFFLINE_PROGRESS_CAP &&
+              `, production capped at ${formatGameTime(OFFLINE_PROGRESS_CAP)}`}
+            . Your buildings ran {offlineProgress.ticks} production ticks.
+          </p>
+          <p>
+            {(Object.keys(offlineProgress.resources) as ResourceType[])
+              .map((type) => {
+                const delta = offlineProgress.resources[type];
+                return `${type} ${delta >= 0 ? "+" : ""}${delta.toFixed(1)}`;
+              })
+              .join(", ")}
+            , credits +{offlineProgress.credits}
+          </p>
+          <Button
+            onClick={() => setOfflineProgress(null)}
+            style={{ width: "auto" }}
+          >
+            Dismiss
+          </Button>
+        </InfoCard>
+      )}
+
       <EventArea>
         {gameLost ? (
           <EventCard
@@ -800,7 +620,33 @@ function App() {
           >
             <h3>{currentEvent.title}</h3>
             <p>{currentEvent.description}</p>
-            <small>Cooldown: 15s</small>
+            {game.pendingChoice?.eventId === currentEvent.id && (
+              <div>
+                {currentEvent.choices.map((choice) => (
+                  <Button
+                    key={choice.id}
+                    onClick={() => act({ type: "choose", choiceId: choice.id })}
+                    disabled={!canChoose(game, choice.id)}
+                    className={
+                      agentActionTarget === choice.id ? "agent-action" : ""
+                    }
+                    style={{ width: "auto", marginRight: "0.5rem" }}
+                  >
+                    {choice.label}
+                    {choice.cost > 0 && ` (${choice.cost} credits)`}
+                  </Button>
+                ))}
+                <p>
+                  Hits at full strength in{" "}
+                  {Math.ceil((game.pendingChoice.expiresAt - game.time) / 1000)}
+                  s
+                </p>
+              </div>
+            )}
+            <small>
+              {currentEvent.duration > 0 && `Lasts ${currentEvent.duration}s, `}
+              Cooldown: {currentEvent.cooldown}s
+            </small>
           </EventCard>
         ) : (
           <motion.div
@@ -813,12 +659,24 @@ function App() {
         )}
       </EventArea>
 
+      {game.activeEvents.length > 0 && (
+        <Stats>
+          {game.activeEvents.map((active, i) => (
+            <div key={i}>
+              {getEvent(game.scenario, active.id)?.title ?? active.id}:{" "}
+              {Math.ceil((active.endsAt - game.time) / 1000)}s left
+              {active.scale !== 1 && ` (${Math.round(active.scale * 100)}%)`}
+            </div>
+          ))}
+        </Stats>
+      )}
+
       <GameBoard>
         <ResourceCard
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
           style={{
-            border: resources.oxygen <= 5 ? "2px solid #f44336" : "none",
+            border: criticalBorder("oxygen"),
           }}
         >
           <h2>Oxygen</h2>
@@ -827,7 +685,7 @@ function App() {
             whileHover={{ scale: 1.1 }}
             whileTap={{ scale: 0.9 }}
             onClick={() => handleAction("oxygen")}
-            disabled={gameWon || gameLost || resources.energy < 10}
+            disabled={!canGenerate(game, "oxygen")}
             className={agentActionTarget === "oxygen" ? "agent-action" : ""}
           >
             Generate Oxygen
@@ -838,7 +696,7 @@ function App() {
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
           style={{
-            border: resources.water <= 5 ? "2px solid #f44336" : "none",
+            border: criticalBorder("water"),
           }}
         >
           <h2>Water</h2>
@@ -847,7 +705,7 @@ function App() {
             whileHover={{ scale: 1.1 }}
             whileTap={{ scale: 0.9 }}
             onClick={() => handleAction("water")}
-            disabled={gameWon || gameLost || resources.energy < 10}
+            disabled={!canGenerate(game, "water")}
             className={agentActionTarget === "water" ? "agent-action" : ""}
           >
             Create Water
@@ -861,7 +719,7 @@ function App() {
             whileHover={{ scale: 1.1 }}
             whileTap={{ scale: 0.9 }}
             onClick={() => handleAction("temperature")}
-            disabled={gameWon || gameLost || resources.energy < 10}
+            disabled={!canGenerate(game, "temperature")}
             className={
               agentActionTarget === "temperature" ? "agent-action" : ""
             }
@@ -874,7 +732,7 @@ function App() {
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
           style={{
-            border: resources.energy <= 5 ? "2px solid #f44336" : "none",
+            border: criticalBorder("energy"),
           }}
         >
           <h2>Energy</h2>
@@ -892,33 +750,45 @@ function App() {
       </GameBoard>
 
       <h2>Upgrades</h2>
-      <UpgradeSection>
-        {upgrades.map((upgrade) => (
-          <UpgradeCard
-            key={upgrade.id}
-            onClick={() => purchaseUpgrade(upgrade)}
-            whileHover={{ scale: 1.05 }}
-            whileTap={{ scale: 0.95 }}
-            style={{
-              opacity: upgrade.purchased || gameWon ? 0.5 : 1,
-              cursor: gameWon
-                ? "not-allowed"
-                : upgrade.purchased
-                ? "default"
-                : "pointer",
-              background:
-                agentActionTarget === upgrade.id ? "#00ff00" : undefined,
-              transform:
-                agentActionTarget === upgrade.id ? "scale(1.1)" : undefined,
-              transition: "all 0.2s ease-in-out",
-            }}
-          >
-            <h3>{upgrade.name}</h3>
-            <p>Cost: {upgrade.cost} credits</p>
-            <p>{upgrade.purchased ? "Purchased" : "Available"}</p>
-          </UpgradeCard>
-        ))}
-      </UpgradeSection>
+      <UpgradeTree
+        upgrades={upgrades}
+        onPurchase={gameWon || gameLost ? undefined : purchaseUpgrade}
+        highlight={agentActionTarget}
+      />
+
+      <h2>Buildings</h2>
+      <BuildingPanel
+        buildings={buildings}
+        upgrades={upgrades}
+        onBuild={gameWon || gameLost ? undefined : build}
+        highlight={agentActionTarget}
+      />
+
+      {agent?.decisions && (
+        <>
+          <h2>Agent Decisions</h2>
+          <DecisionPanel decisions={agent.decisions} />
+        </>
+      )}
+
+      {usage && (
+        <>
+          <h2>LLM Usage</h2>
+          <UsagePanel meter={usage} />
+        </>
+      )}
+
+      <h2>Observer</h2>
+      <ObserverPanel observer={observer} game={game} />
+
+      <h2>Saves</h2>
+      <SavePanel game={game} onLoad={loadState} />
+
+      <h2>Replays</h2>
+      <ReplayPanel game={game} recording={recording} />
+
+      <h2>Timeline</h2>
+      <TimelinePanel timeline={session.timeline} scenario={game.scenario} />
 
       {gameLost && (
         <motion.div
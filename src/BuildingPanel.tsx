@@ -0,0 +1,64 @@
+import { getBuildingCost, isBuildingUnlocked } from "./engine";
+import { describeBuilding } from "./prompts";
+import type { Building, Upgrade, UpgradeStatus } from "./schema";
+import { UpgradeCard, UpgradeSection } from "./styles";
+
+interface BuildingPanelProps {
+  buildings: Building[];
+  upgrades: Upgrade[];
+  // Leave out for a read-only panel
+  onBuild?: (building: Building) => void;
+  // Building the agent is placing right now
+  highlight?: string | null;
+}
+
+function BuildingPanel({
+  buildings,
+  upgrades,
+  onBuild,
+  highlight,
+}: BuildingPanelProps) {
+  const nameOf = (id: string) => upgrades.find((u) => u.id === id)?.name ?? id;
+
+  return (
+    <UpgradeSection>
+      {buildings.map((building) => {
+        // Same card states as the upgrade tree, a fully built one counts as
+        // purchased
+        const status: UpgradeStatus = !isBuildingUnlocked(upgrades, building)
+          ? "locked"
+          : building.count >= building.maxCount
+          ? "purchased"
+          : "available";
+        return (
+          <UpgradeCard
+            key={building.id}
+            $status={status}
+            onClick={() => onBuild?.(building)}
+            whileHover={onBuild && { scale: 1.05 }}
+            whileTap={onBuild && { scale: 0.95 }}
+            style={{
+              cursor: onBuild ? undefined : "default",
+              background: highlight === building.id ? "#00ff00" : undefined,
+              transform: highlight === building.id ? "scale(1.1)" : undefined,
+              transition: "all 0.2s ease-in-out",
+            }}
+          >
+            <h3>{building.name}</h3>
+            <p>{describeBuilding(building)}</p>
+            {status === "available" && (
+              <p>Cost: {getBuildingCost(building)} credits</p>
+            )}
+            <p>
+              {status === "locked"
+                ? `Requires ${building.requires.map(nameOf).join(", ")}`
+                : `Built ${building.count}/${building.maxCount}`}
+            </p>
+          </UpgradeCard>
+        );
+      })}
+    </UpgradeSection>
+  );
+}
+
+export default BuildingPanel;
@@ -0,0 +1,144 @@
+import { useEffect, useReducer, useRef, useState } from "react";
+import type { Agent } from "./agent";
+import type { AgentCommand, CommandConsole } from "./commandConsole";
+import { toGameState } from "./engine";
+import type { GameObserver } from "./observer";
+import type { Session } from "./session";
+import { Button, InfoCard } from "./styles";
+
+interface ConsolePanelProps {
+  commands: CommandConsole;
+  observer: GameObserver;
+  session: Session;
+  // The agent that start and stop commands are meant for
+  agent: Agent | null;
+  onAgentCommand: (command: AgentCommand) => void;
+}
+
+const inputStyle = {
+  padding: "0.5rem",
+  borderRadius: "5px",
+  border: "1px solid #666",
+};
+
+// Chat with the command console, and the standing goals it keeps for the
+// agent
+function ConsolePanel({
+  commands,
+  observer,
+  session,
+  agent,
+  onAgentCommand,
+}: ConsolePanelProps) {
+  // The console is read while rendering, so changes to it need a redraw
+  const [, redraw] = useReducer((n: number) => n + 1, 0);
+  const [text, setText] = useState("");
+  const [sending, setSending] = useState(false);
+  // Props of the latest render, null once unmounted. A reply can arrive after
+  // a new game, a load or an agent switch, and its command is then dropped.
+  const latest = useRef<ConsolePanelProps | null>(null);
+  useEffect(() => {
+    latest.current = { commands, observer, session, agent, onAgentCommand };
+  });
+  useEffect(
+    () => () => {
+      latest.current = null;
+    },
+    []
+  );
+
+  const send = async () => {
+    const message = text.trim();
+    if (!message) return;
+    setText("");
+    setSending(true);
+    const sent = commands.send(
+      message,
+      toGameState(session.game),
+      observer.getMetrics()
+    );
+    redraw();
+    const reply = await sent;
+    setSending(false);
+    // Each new game or load starts a new recording
+    const current = latest.current;
+    if (
+      reply.agent &&
+      current &&
+      current.session.recording.start === session.recording.start &&
+      current.agent === agent
+    ) {
+      current.onAgentCommand(reply.agent);
+    }
+  };
+
+  return (
+    <InfoCard style={{ maxWidth: "1000px", marginBottom: "1rem" }}>
+      {commands.goals.length > 0 && (
+        <>
+          <h3>Standing goals</h3>
+          <ul style={{ textAlign: "left" }}>
+            {commands.goals.map((goal) => (
+              <li key={goal.id}>
+                {goal.text}
+                <Button
+                  aria-label={`Remove goal ${goal.id}`}
+                  onClick={() => {
+                    commands.removeGoal(goal.id);
+                    redraw();
+                  }}
+                  style={{
+                    width: "auto",
+                    padding: "0.25rem 0.5rem",
+                    marginLeft: "0.5rem",
+                  }}
+                >
+                  ×
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+      <div style={{ textAlign: "left", maxHeight: "20rem", overflowY: "auto" }}>
+        {commands.messages.map((message, i) => (
+          <p
+            key={i}
+            style={{
+              color: message.error
+                ? "#f44336"
+                : message.from === "player"
+                ? "#ffd700"
+                : undefined,
+            }}
+          >
+            <strong>{message.from === "player" ? "You" : "Console"}:</strong>{" "}
+            {message.text}
+          </p>
+        ))}
+        {sending && <p>Console is thinking...</p>}
+      </div>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          send();
+        }}
+      >
+        <input
+          type="text"
+          aria-label="Console message"
+          placeholder='e.g. "keep energy above 40" or "why is water dropping?"'
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          disabled={sending}
+          style={{ ...inputStyle, width: "60%" }}
+        />{" "}
+        <Button type="submit" disabled={sending || !text.trim()}>
+          Send
+        </Button>
+      </form>
+    </InfoCard>
+  );
+}
+
+export default ConsolePanel;
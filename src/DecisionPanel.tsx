@@ -0,0 +1,147 @@
+import { useState } from "react";
+import type { AgentDecision } from "./agent";
+import { downloadFile } from "./download";
+import { formatPlanStep } from "./plan";
+import { STRATEGY_PROFILES } from "./promptTemplates";
+import {
+  formatGameAction,
+  type ActionOutcome,
+  type ActionResult,
+} from "./schema";
+import { Button, InfoCard, Stats } from "./styles";
+
+interface DecisionPanelProps {
+  decisions: readonly AgentDecision[];
+}
+
+const formatSnapshot = ({ state }: AgentDecision) =>
+  [
+    `oxygen ${state.resources.oxygen.toFixed(1)}%`,
+    `water ${state.resources.water.toFixed(1)}%`,
+    `temperature ${state.resources.temperature.toFixed(1)}°C`,
+    `energy ${state.resources.energy.toFixed(1)}%`,
+    `credits ${state.credits}`,
+    state.criticalTimer !== null && `critical ${state.criticalTimer}s`,
+    state.pendingChoice && `waiting on ${state.pendingChoice}`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+const RESULT_COLORS: Record<ActionResult["status"], string> = {
+  applied: "#4caf50",
+  noop: "#ff9800",
+  rejected: "#f44336",
+  skipped: "#9e9e9e",
+};
+
+// Counts per result, then every action that didn't apply and why
+function ResultList({ results }: { results: ActionOutcome[] }) {
+  const failed = results.filter(({ result }) => result.status !== "applied");
+  return (
+    <>
+      <p>
+        <strong>Results:</strong>{" "}
+        {(["applied", "noop", "skipped", "rejected"] as const)
+          .map(
+            (status) =>
+              `${results.filter((r) => r.result.status === status).length} ${
+                status === "noop" ? "no effect" : status
+              }`
+          )
+          .join(", ")}
+      </p>
+      {failed.length > 0 && (
+        <ul>
+          {failed.map(({ action, result }, i) => (
+            <li key={i} style={{ color: RESULT_COLORS[result.status] }}>
+              {formatGameAction(action)}:{" "}
+              {result.status !== "applied" && result.reason}
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+}
+
+// The agent's plans, newest first, with what it saw and why it acted
+function DecisionPanel({ decisions }: DecisionPanelProps) {
+  const [open, setOpen] = useState(false);
+
+  const handleExport = () =>
+    downloadFile(
+      `curmars-decisions-${Date.now()}.json`,
+      JSON.stringify(decisions, null, 2)
+    );
+
+  return (
+    <>
+      <Stats>
+        <Button onClick={() => setOpen(!open)} style={{ width: "auto" }}>
+          {open ? "Hide" : "Show"} decisions ({decisions.length})
+        </Button>
+        <Button
+          onClick={handleExport}
+          disabled={decisions.length === 0}
+          style={{ width: "auto" }}
+        >
+          Export Decisions
+        </Button>
+      </Stats>
+
+      {open &&
+        [...decisions].reverse().map((decision) => (
+          <InfoCard
+            key={decision.id}
+            style={{ maxWidth: "1000px", marginBottom: "1rem" }}
+          >
+            <h3>
+              Plan {decision.id} ·{" "}
+              {new Date(decision.requestedAt).toLocaleTimeString()} ·{" "}
+              {decision.latency} ms · {decision.model} ·{" "}
+              {STRATEGY_PROFILES[decision.profile]?.name ?? decision.profile}
+              {decision.usage &&
+                ` · ${decision.usage.promptTokens} + ${decision.usage.completionTokens} tokens`}
+            </h3>
+            {decision.usedDefaults && (
+              <div style={{ color: "#ff9800" }}>
+                Fell back to the default actions
+              </div>
+            )}
+            <p>
+              <strong>Rationale:</strong> {decision.rationale ?? "–"}
+            </p>
+            <p>
+              <strong>Risk:</strong> {decision.risk ?? "–"}
+            </p>
+            <p>
+              <strong>Plan:</strong>{" "}
+              {decision.plan.map(formatPlanStep).join(", ")}
+            </p>
+            {decision.results && <ResultList results={decision.results} />}
+            {decision.interrupt && (
+              <div style={{ color: "#ff9800" }}>
+                Interrupted: {decision.interrupt}
+              </div>
+            )}
+            {decision.errors.length > 0 && (
+              <ul style={{ color: "#f44336" }}>
+                {decision.errors.map((error, i) => (
+                  <li key={i}>{error}</li>
+                ))}
+              </ul>
+            )}
+            <details>
+              <summary>State and raw output</summary>
+              <p>{formatSnapshot(decision)}</p>
+              <pre style={{ whiteSpace: "pre-wrap", textAlign: "left" }}>
+                {decision.rawOutput ?? "(no output)"}
+              </pre>
+            </details>
+          </InfoCard>
+        ))}
+    </>
+  );
+}
+
+export default DecisionPanel;
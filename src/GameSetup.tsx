@@ -0,0 +1,214 @@
+import { useState } from "react";
+import {
+  DIFFICULTY_PRESETS,
+  difficultyLabel,
+  getPresetSettings,
+  sanitizeSettings,
+} from "./difficulty";
+import { DEFAULT_SCENARIO, SCENARIOS } from "./scenario";
+import {
+  RESOURCE_TYPES,
+  type Difficulty,
+  type DifficultySettings,
+  type ResourceType,
+  type Scenario,
+} from "./schema";
+import { Button, Stats } from "./styles";
+
+const inputStyle = {
+  padding: "0.5rem",
+  borderRadius: "5px",
+  border: "1px solid #666",
+  width: "5rem",
+};
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  step?: number;
+  onChange: (value: number) => void;
+}
+
+function NumberField({ label, value, step = 1, onChange }: NumberFieldProps) {
+  return (
+    <label style={{ marginRight: "1rem" }}>
+      {label}{" "}
+      <input
+        type="number"
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        style={inputStyle}
+      />
+    </label>
+  );
+}
+
+interface GameSetupProps {
+  onStart: (
+    scenario: Scenario,
+    difficulty: Difficulty,
+    eventsEnabled: boolean
+  ) => void;
+  onCancel?: () => void;
+}
+
+// New-game screen: scenario, difficulty preset and, under Custom, every
+// setting the presets change
+function GameSetup({ onStart, onCancel }: GameSetupProps) {
+  const [scenario, setScenario] = useState(DEFAULT_SCENARIO);
+  const [difficulty, setDifficulty] = useState<Difficulty>({
+    preset: "normal",
+    settings: getPresetSettings("normal", DEFAULT_SCENARIO),
+  });
+  const [eventsEnabled, setEventsEnabled] = useState(false);
+  const { settings } = difficulty;
+
+  // Any edit turns the preset into a custom game
+  const edit = (changes: Partial<DifficultySettings>) =>
+    setDifficulty({ preset: "custom", settings: { ...settings, ...changes } });
+
+  return (
+    <Stats style={{ flexDirection: "column", alignItems: "flex-start" }}>
+      <h2>New Game</h2>
+      <div>
+        <select
+          value={scenario.id}
+          onChange={(e) => {
+            const next = SCENARIOS[e.target.value];
+            setScenario(next);
+            setDifficulty({
+              preset: difficulty.preset,
+              settings: getPresetSettings(difficulty.preset, next),
+            });
+          }}
+          style={{ ...inputStyle, width: "auto", marginRight: "1rem" }}
+        >
+          {Object.values(SCENARIOS).map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.name}
+            </option>
+          ))}
+        </select>
+        {DIFFICULTY_PRESETS.map((preset) => (
+          <Button
+            key={preset}
+            onClick={() =>
+              setDifficulty({
+                preset,
+                settings:
+                  preset === "custom"
+                    ? settings
+                    : getPresetSettings(preset, scenario),
+              })
+            }
+            style={{
+              width: "auto",
+              marginRight: "0.5rem",
+              background: preset === difficulty.preset ? "#ff4081" : undefined,
+            }}
+          >
+            {difficultyLabel(preset)}
+          </Button>
+        ))}
+      </div>
+      {scenario.description && <div>{scenario.description}</div>}
+
+      <div>
+        <strong>Starting resources:</strong>{" "}
+        {RESOURCE_TYPES.map((type) => (
+          <NumberField
+            key={type}
+            label={type}
+            value={settings.initialResources[type]}
+            onChange={(value) =>
+              edit({
+                initialResources: {
+                  ...settings.initialResources,
+                  [type]: value,
+                },
+              })
+            }
+          />
+        ))}
+        <NumberField
+          label="credits"
+          value={settings.initialCredits}
+          step={10}
+          onChange={(initialCredits) => edit({ initialCredits })}
+        />
+      </div>
+      <div>
+        <strong>Win at:</strong>{" "}
+        {(Object.keys(settings.winThresholds) as ResourceType[]).map((type) => (
+          <NumberField
+            key={type}
+            label={type}
+            value={settings.winThresholds[type]!}
+            onChange={(value) =>
+              edit({
+                winThresholds: { ...settings.winThresholds, [type]: value },
+              })
+            }
+          />
+        ))}
+      </div>
+      <div>
+        <NumberField
+          label="Drain multiplier"
+          value={settings.drainMultiplier}
+          step={0.05}
+          onChange={(drainMultiplier) => edit({ drainMultiplier })}
+        />
+        <NumberField
+          label="Critical threshold"
+          value={settings.criticalThreshold}
+          onChange={(criticalThreshold) => edit({ criticalThreshold })}
+        />
+        <NumberField
+          label="Countdown (s)"
+          value={settings.criticalCountdown}
+          onChange={(criticalCountdown) => edit({ criticalCountdown })}
+        />
+        <NumberField
+          label="Event chance"
+          value={settings.eventChance}
+          step={0.1}
+          onChange={(eventChance) => edit({ eventChance })}
+        />
+        <label>
+          <input
+            type="checkbox"
+            checked={eventsEnabled}
+            onChange={(e) => setEventsEnabled(e.target.checked)}
+          />{" "}
+          Random events
+        </label>
+      </div>
+      <div>
+        <Button
+          onClick={() =>
+            onStart(
+              scenario,
+              {
+                ...difficulty,
+                settings: sanitizeSettings(settings, scenario),
+              },
+              eventsEnabled
+            )
+          }
+          style={{ width: "auto", marginRight: "0.5rem" }}
+        >
+          Start
+        </Button>
+        {onCancel && (
+          <Button onClick={onCancel} style={{ width: "auto" }}>
+            Back to game
+          </Button>
+        )}
+      </div>
+    </Stats>
+  );
+}
+
+export default GameSetup;
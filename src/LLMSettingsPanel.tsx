@@ -0,0 +1,262 @@
+import { useState } from "react";
+import { PROVIDER_PRESETS, type LLMSettings, type ModelConfig } from "./llm";
+import { loadLLMSettings } from "./llmSettings";
+import {
+  DEFAULT_TEMPLATES,
+  STRATEGY_PROFILES,
+  TEMPLATE_VARIABLES,
+  validateTemplates,
+  type TemplateName,
+} from "./promptTemplates";
+import { Button, Stats } from "./styles";
+
+const inputStyle = {
+  padding: "0.5rem",
+  borderRadius: "5px",
+  border: "1px solid #666",
+};
+
+interface ModelFieldsProps {
+  label: string;
+  config: ModelConfig;
+  onChange: (config: ModelConfig) => void;
+}
+
+function ModelFields({ label, config, onChange }: ModelFieldsProps) {
+  return (
+    <div>
+      <strong>{label}:</strong>{" "}
+      <input
+        type="text"
+        placeholder="Model"
+        value={config.model}
+        onChange={(e) => onChange({ ...config, model: e.target.value })}
+        style={inputStyle}
+      />{" "}
+      <label>
+        Temperature{" "}
+        <input
+          type="number"
+          min={0}
+          max={2}
+          step={0.1}
+          value={config.temperature}
+          onChange={(e) =>
+            onChange({ ...config, temperature: Number(e.target.value) })
+          }
+          style={{ ...inputStyle, width: "4rem" }}
+        />
+      </label>{" "}
+      <label>
+        Max tokens{" "}
+        <input
+          type="number"
+          min={1}
+          step={50}
+          value={config.maxTokens}
+          onChange={(e) =>
+            onChange({ ...config, maxTokens: Number(e.target.value) })
+          }
+          style={{ ...inputStyle, width: "5rem" }}
+        />
+      </label>
+    </div>
+  );
+}
+
+const TEMPLATE_LABELS: Record<TemplateName, string> = {
+  system: "System prompt (sent once per game)",
+  state: "Game state (sent with every request)",
+};
+
+interface LLMSettingsPanelProps {
+  onApply: (settings: LLMSettings) => void;
+}
+
+function LLMSettingsPanel({ onApply }: LLMSettingsPanelProps) {
+  const [settings, setSettings] = useState(loadLLMSettings);
+  const preset =
+    Object.entries(PROVIDER_PRESETS).find(
+      ([, config]) => config.baseURL === settings.provider.baseURL
+    )?.[0] ?? "Custom";
+  const { prompt } = settings;
+  const templateErrors = validateTemplates(prompt.templates);
+
+  return (
+    <Stats style={{ flexDirection: "column" }}>
+      <div>
+        <select
+          value={preset}
+          onChange={(e) => {
+            const config = PROVIDER_PRESETS[e.target.value];
+            if (config) {
+              setSettings({
+                ...settings,
+                provider: { ...config, apiKey: settings.provider.apiKey },
+              });
+            }
+          }}
+          style={inputStyle}
+        >
+          {Object.keys(PROVIDER_PRESETS).map((name) => (
+            <option key={name}>{name}</option>
+          ))}
+          <option disabled>Custom</option>
+        </select>{" "}
+        <input
+          type="text"
+          placeholder="Base URL"
+          value={settings.provider.baseURL}
+          onChange={(e) =>
+            setSettings({
+              ...settings,
+              provider: { ...settings.provider, baseURL: e.target.value },
+            })
+          }
+          style={{ ...inputStyle, width: "16rem" }}
+        />{" "}
+        <input
+          type="password"
+          placeholder="API Key (optional for local servers)"
+          value={settings.provider.apiKey}
+          onChange={(e) =>
+            setSettings({
+              ...settings,
+              provider: { ...settings.provider, apiKey: e.target.value },
+            })
+          }
+          style={{ ...inputStyle, width: "16rem" }}
+        />{" "}
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.provider.jsonMode}
+            onChange={(e) =>
+              setSettings({
+                ...settings,
+                provider: { ...settings.provider, jsonMode: e.target.checked },
+              })
+            }
+          />{" "}
+          JSON mode
+        </label>
+      </div>
+      <ModelFields
+        label="Agent"
+        config={settings.agent}
+        onChange={(agent) => setSettings({ ...settings, agent })}
+      />
+      <ModelFields
+        label="Observer"
+        config={settings.observer}
+        onChange={(observer) => setSettings({ ...settings, observer })}
+      />
+      <div>
+        <label>
+          Budget ($){" "}
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            placeholder="No limit"
+            value={settings.budget ?? ""}
+            onChange={(e) =>
+              setSettings({
+                ...settings,
+                budget:
+                  Number(e.target.value) > 0 ? Number(e.target.value) : null,
+              })
+            }
+            style={{ ...inputStyle, width: "6rem" }}
+          />
+        </label>
+      </div>
+      <div>
+        <label>
+          Strategy{" "}
+          <select
+            value={prompt.profile}
+            onChange={(e) =>
+              setSettings({
+                ...settings,
+                prompt: { ...prompt, profile: e.target.value },
+              })
+            }
+            style={inputStyle}
+          >
+            {Object.entries(STRATEGY_PROFILES).map(([id, profile]) => (
+              <option key={id} value={id}>
+                {profile.name}
+              </option>
+            ))}
+          </select>
+        </label>{" "}
+        {STRATEGY_PROFILES[prompt.profile].description}
+      </div>
+      <details style={{ textAlign: "left" }}>
+        <summary>Prompt templates</summary>
+        {(Object.keys(TEMPLATE_LABELS) as TemplateName[]).map((name) => (
+          <div key={name}>
+            <p>
+              <strong>{TEMPLATE_LABELS[name]}</strong>
+            </p>
+            <textarea
+              aria-label={`${name} template`}
+              value={prompt.templates[name]}
+              onChange={(e) =>
+                setSettings({
+                  ...settings,
+                  prompt: {
+                    ...prompt,
+                    templates: { ...prompt.templates, [name]: e.target.value },
+                  },
+                })
+              }
+              rows={12}
+              style={{ ...inputStyle, width: "100%", fontFamily: "monospace" }}
+            />
+            <ul>
+              {Object.entries(TEMPLATE_VARIABLES[name]).map(
+                ([variable, description]) => (
+                  <li key={variable}>
+                    <code>{`{{${variable}}}`}</code>: {description}
+                  </li>
+                )
+              )}
+            </ul>
+          </div>
+        ))}
+        <Button
+          onClick={() =>
+            setSettings({
+              ...settings,
+              prompt: { ...prompt, templates: DEFAULT_TEMPLATES },
+            })
+          }
+          style={{ width: "auto" }}
+        >
+          Reset templates
+        </Button>
+      </details>
+      {templateErrors.length > 0 && (
+        <ul style={{ color: "#f44336" }}>
+          {templateErrors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+      <Button
+        onClick={() => onApply(settings)}
+        disabled={
+          !settings.provider.baseURL ||
+          !settings.agent.model ||
+          templateErrors.length > 0
+        }
+      >
+        Connect
+      </Button>
+    </Stats>
+  );
+}
+
+export default LLMSettingsPanel;
@@ -0,0 +1,122 @@
+import { useEffect, useRef, useState } from "react";
+import { toGameState, type EngineState } from "./engine";
+import type { Analysis, GameObserver, ObserverMetrics } from "./observer";
+import { ObserverSection, InfoCard, Stats } from "./styles";
+
+// Game time between snapshots added to the observer's history
+const SAMPLE_INTERVAL = 1000;
+
+const TREND_LABELS: Array<[string, string]> = [
+  ["oxygen", "Oxygen"],
+  ["water", "Water"],
+  ["temperature", "Temperature"],
+  ["energy", "Energy"],
+  ["credits", "Credits"],
+];
+
+interface ObserverPanelProps {
+  observer: GameObserver;
+  game: EngineState;
+}
+
+function ObserverPanel({ observer, game }: ObserverPanelProps) {
+  const [metrics, setMetrics] = useState<ObserverMetrics>(() =>
+    observer.getMetrics()
+  );
+  const [analysis, setAnalysis] = useState<Analysis | null>(null);
+  const running = game.gameStarted && !game.gameWon && !game.gameLost;
+  // Game time of the last sample and analysis. Both follow the game clock,
+  // so nothing is recorded or asked while it stands still: paused, waiting
+  // for the agent or over.
+  const lastSample = useRef(-Infinity);
+  const lastAnalysis = useRef(-Infinity);
+  // Analyses from an observer that has since been replaced are dropped
+  const currentObserver = useRef<GameObserver | null>(null);
+
+  useEffect(() => {
+    currentObserver.current = observer;
+    lastSample.current = -Infinity;
+    lastAnalysis.current = -Infinity;
+    return () => {
+      currentObserver.current = null;
+    };
+  }, [observer]);
+
+  // Metrics are local and cheap, refresh them every sample
+  useEffect(() => {
+    if (!running) return;
+    // A new game or a load can turn the clock back
+    if (game.time < lastSample.current) {
+      lastSample.current = -Infinity;
+      lastAnalysis.current = -Infinity;
+    }
+    if (game.time - lastSample.current < SAMPLE_INTERVAL) return;
+
+    lastSample.current = game.time;
+    observer.record(toGameState(game), game.time);
+    setMetrics(observer.getMetrics());
+  }, [observer, running, game]);
+
+  useEffect(() => {
+    if (
+      !running ||
+      game.time - lastAnalysis.current < observer.ANALYSIS_INTERVAL
+    ) {
+      return;
+    }
+
+    lastAnalysis.current = game.time;
+    observer.getAnalysis(toGameState(game), game.time).then((result) => {
+      if (currentObserver.current === observer) {
+        setAnalysis(result);
+      }
+    });
+  }, [observer, running, game]);
+
+  return (
+    <>
+      <Stats>
+        {TREND_LABELS.map(([key, label]) => (
+          <div key={key}>
+            {label}: {metrics.trends[key] || "–"}
+          </div>
+        ))}
+        <div>Critical: {metrics.criticalTime}</div>
+        <div>Upgrade pace: {metrics.upgradePace}</div>
+        <div>Stability: {metrics.stability}</div>
+      </Stats>
+
+      {analysis && (
+        <>
+          {analysis.isDefault && (
+            <div style={{ color: "#ff9800" }}>
+              {observer.hasProvider
+                ? "Placeholder analysis: the observer has no LLM analysis yet"
+                : "Placeholder analysis: connect an LLM for real analysis"}
+            </div>
+          )}
+          <ObserverSection style={{ opacity: analysis.isDefault ? 0.5 : 1 }}>
+            {(
+              [
+                ["Strengths", analysis.strengths],
+                ["Concerns", analysis.concerns],
+                ["Suggestions", analysis.suggestions],
+              ] as const
+            ).map(([title, points]) => (
+              <InfoCard key={title}>
+                <h3>{title}</h3>
+                <ul>
+                  {points.map((point, i) => (
+                    <li key={i}>{point}</li>
+                  ))}
+                </ul>
+              </InfoCard>
+            ))}
+          </ObserverSection>
+        </>
+      )}
+    </>
+  );
+}
+
+export default ObserverPanel;
@@ -0,0 +1,85 @@
+import { formatPlanStep } from "./plan";
+import { formatGameAction } from "./schema";
+import type { AgentQueue } from "./session";
+import { Button, InfoCard } from "./styles";
+
+interface PlanQueueProps {
+  agent: AgentQueue;
+  onMove: (from: number, to: number) => void;
+  onStrike: (index: number) => void;
+  onApprove: () => void;
+}
+
+const smallButton = {
+  width: "auto",
+  padding: "0.25rem 0.5rem",
+  marginLeft: "0.5rem",
+};
+
+// What the agent is about to do: a proposal to approve, reorder or strike out
+// steps of in co-pilot mode, or the rest of the running plan with the
+// player's own clicks ahead of it
+function PlanQueue({ agent, onMove, onStrike, onApprove }: PlanQueueProps) {
+  const { proposal, plan, manual } = agent;
+  if (!proposal && plan.length === 0 && manual.length === 0) return null;
+
+  return (
+    <InfoCard style={{ maxWidth: "1000px", marginBottom: "1rem" }}>
+      {proposal ? (
+        <>
+          <h3>Proposed plan</h3>
+          <ol style={{ textAlign: "left" }}>
+            {proposal.map(({ step, struck }, i) => (
+              <li key={i}>
+                <span
+                  style={{
+                    textDecoration: struck ? "line-through" : undefined,
+                    opacity: struck ? 0.5 : 1,
+                  }}
+                >
+                  {formatPlanStep(step)}
+                </span>
+                <Button
+                  aria-label={`Move step ${i + 1} up`}
+                  onClick={() => onMove(i, i - 1)}
+                  disabled={i === 0}
+                  style={smallButton}
+                >
+                  ↑
+                </Button>
+                <Button
+                  aria-label={`Move step ${i + 1} down`}
+                  onClick={() => onMove(i, i + 1)}
+                  disabled={i === proposal.length - 1}
+                  style={smallButton}
+                >
+                  ↓
+                </Button>
+                <Button onClick={() => onStrike(i)} style={smallButton}>
+                  {struck ? "Restore" : "Strike"}
+                </Button>
+              </li>
+            ))}
+          </ol>
+          <Button onClick={onApprove} style={{ width: "auto" }}>
+            Approve plan
+          </Button>
+        </>
+      ) : (
+        <>
+          <h3>Up next</h3>
+          <ol style={{ textAlign: "left" }}>
+            {manual.map((action, i) => (
+              <li key={`manual-${i}`}>You: {formatGameAction(action)}</li>
+            ))}
+            {plan.map((step, i) => (
+              <li key={i}>{formatPlanStep(step)}</li>
+            ))}
+          </ol>
+        </>
+      )}
+    </InfoCard>
+  );
+}
+
+export default PlanQueue;
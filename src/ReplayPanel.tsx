@@ -0,0 +1,70 @@
+import { useState, type ChangeEvent } from "react";
+import type { EngineState } from "./engine";
+import { downloadFile } from "./download";
+import {
+  createReplay,
+  parseReplay,
+  type Replay,
+  type ReplayEntry,
+} from "./replay";
+import ReplayViewer from "./ReplayViewer";
+import { Button, Stats } from "./styles";
+
+interface ReplayPanelProps {
+  game: EngineState;
+  recording: { start: EngineState; entries: ReplayEntry[] };
+}
+
+function ReplayPanel({ game, recording }: ReplayPanelProps) {
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = () => {
+    const replay = createReplay(recording.start, recording.entries, game);
+    downloadFile(
+      `curmars-replay-${replay.seed}-${replay.recordedAt}.json`,
+      JSON.stringify(replay)
+    );
+  };
+
+  const handleOpen = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      setReplay(parseReplay(await file.text()));
+      setError(null);
+    } catch (error) {
+      console.error("Failed to open replay:", error);
+      setError((error as Error).message);
+    }
+  };
+
+  return (
+    <>
+      <Stats>
+        <Button
+          onClick={handleDownload}
+          disabled={!game.gameStarted}
+          style={{ width: "auto" }}
+        >
+          Download Replay
+        </Button>
+        <label>
+          Open replay:{" "}
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={handleOpen}
+          />
+        </label>
+        {error && <div style={{ color: "#f44336" }}>{error}</div>}
+      </Stats>
+      {replay && (
+        <ReplayViewer replay={replay} onClose={() => setReplay(null)} />
+      )}
+    </>
+  );
+}
+
+export default ReplayPanel;
@@ -0,0 +1,209 @@
+import { useEffect, useMemo, useState } from "react";
+import { getEvent, isCriticalResource, type EngineLogEntry } from "./engine";
+import { formatGameTime } from "./format";
+import { frameAt, playReplay, type Replay } from "./replay";
+import { formatGameAction, type ResourceType, type Scenario } from "./schema";
+import UpgradeTree from "./UpgradeTree";
+import BuildingPanel from "./BuildingPanel";
+import {
+  Button,
+  EventArea,
+  EventCard,
+  GameBoard,
+  ResourceCard,
+  Stats,
+} from "./styles";
+
+const PLAYBACK_INTERVAL = 100;
+const SPEEDS = [0.5, 1, 2, 4, 8];
+const LOG_LINES = 8;
+
+const RESOURCE_LABELS: Record<ResourceType, [string, string]> = {
+  oxygen: ["Oxygen", "%"],
+  water: ["Water", "%"],
+  temperature: ["Temperature", "°C"],
+  energy: ["Energy", "%"],
+};
+
+const describeLogEntry = (entry: EngineLogEntry, scenario: Scenario) => {
+  switch (entry.type) {
+    case "action":
+      return entry.action.type === "setEventsEnabled"
+        ? `events ${entry.action.enabled ? "enabled" : "disabled"}`
+        : formatGameAction(entry.action);
+    case "drain":
+      return "drain tick";
+    case "event":
+      return `event: ${
+        getEvent(scenario, entry.eventId)?.title ?? entry.eventId
+      }`;
+    case "gameWon":
+      return "game won";
+    case "gameLost":
+      return "game lost";
+  }
+};
+
+interface ReplayViewerProps {
+  replay: Replay;
+  onClose: () => void;
+}
+
+function ReplayViewer({ replay, onClose }: ReplayViewerProps) {
+  const playback = useMemo(() => playReplay(replay), [replay]);
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  useEffect(() => {
+    if (!playing) return;
+
+    const playbackInterval = setInterval(() => {
+      setTime((prev) =>
+        Math.min(playback.duration, prev + PLAYBACK_INTERVAL * speed)
+      );
+    }, PLAYBACK_INTERVAL);
+
+    return () => clearInterval(playbackInterval);
+  }, [playing, speed, playback]);
+
+  // Stop at the end of the recording
+  useEffect(() => {
+    if (time >= playback.duration) {
+      setPlaying(false);
+    }
+  }, [time, playback]);
+
+  const { state } = frameAt(playback.frames, time);
+  const currentEvent = state.currentEvent
+    ? getEvent(state.scenario, state.currentEvent.id)
+    : undefined;
+  const recentLog = playback.log
+    .filter((entry) => entry.time <= time)
+    .slice(-LOG_LINES);
+
+  return (
+    <>
+      <Stats>
+        <div>
+          Replay {formatGameTime(time)} / {formatGameTime(playback.duration)}
+        </div>
+        <div>Seed: {replay.seed}</div>
+        <div>Credits: {state.credits}</div>
+        {state.gameWon && (
+          <div style={{ color: "#4caf50" }}>TERRAFORMING COMPLETE!</div>
+        )}
+        {state.gameLost && (
+          <div style={{ color: "#f44336" }}>MISSION FAILED</div>
+        )}
+        {!state.gameWon && !state.gameLost && state.critical && (
+          <div style={{ color: "#ff9800" }}>
+            CRITICAL WARNING: {state.countdownSeconds}s until failure
+          </div>
+        )}
+        {playback.divergedAt !== null && (
+          <div style={{ color: "#ff9800" }}>
+            Playback diverges from the recording at{" "}
+            {formatGameTime(playback.divergedAt)}
+          </div>
+        )}
+      </Stats>
+
+      <Stats>
+        <Button
+          onClick={() => {
+            if (time >= playback.duration) setTime(0);
+            setPlaying(!playing);
+          }}
+        >
+          {playing ? "Pause" : "Play"}
+        </Button>
+        <input
+          type="range"
+          min={0}
+          max={playback.duration}
+          step={PLAYBACK_INTERVAL}
+          value={time}
+          onChange={(e) => setTime(Number(e.target.value))}
+          style={{ flex: 1 }}
+        />
+        <div>
+          {SPEEDS.map((s) => (
+            <Button
+              key={s}
+              onClick={() => setSpeed(s)}
+              style={{
+                width: "auto",
+                background: s === speed ? "#ff4081" : undefined,
+              }}
+            >
+              {s}x
+            </Button>
+          ))}
+        </div>
+        <Button onClick={onClose}>Close Replay</Button>
+      </Stats>
+
+      <EventArea>
+        {currentEvent ? (
+          <EventCard $severity={currentEvent.severity}>
+            <h3>{currentEvent.title}</h3>
+            <p>{currentEvent.description}</p>
+            {state.pendingChoice?.eventId === currentEvent.id && (
+              <small>Waiting for a choice</small>
+            )}
+          </EventCard>
+        ) : (
+          <div style={{ color: "#666", fontSize: "0.9em" }}>
+            No active events
+          </div>
+        )}
+      </EventArea>
+
+      {state.activeEvents.length > 0 && (
+        <Stats>
+          {state.activeEvents.map((active, i) => (
+            <div key={i}>
+              {getEvent(state.scenario, active.id)?.title ?? active.id}:{" "}
+              {Math.ceil((active.endsAt - state.time) / 1000)}s left
+            </div>
+          ))}
+        </Stats>
+      )}
+
+      <GameBoard>
+        {(Object.keys(RESOURCE_LABELS) as ResourceType[]).map((type) => (
+          <ResourceCard
+            key={type}
+            style={{
+              border: isCriticalResource(state.resources, state.scenario, type)
+                ? "2px solid #f44336"
+                : "none",
+            }}
+          >
+            <h2>{RESOURCE_LABELS[type][0]}</h2>
+            <p>
+              {state.resources[type].toFixed(1)}
+              {RESOURCE_LABELS[type][1]}
+            </p>
+          </ResourceCard>
+        ))}
+      </GameBoard>
+
+      <UpgradeTree upgrades={state.upgrades} />
+      <BuildingPanel buildings={state.buildings} upgrades={state.upgrades} />
+
+      <Stats style={{ flexDirection: "column", alignItems: "flex-start" }}>
+        {recentLog.length === 0 && <div>No log entries yet</div>}
+        {recentLog.map((entry, i) => (
+          <div key={i} style={{ fontFamily: "monospace" }}>
+            {formatGameTime(entry.time)}{" "}
+            {describeLogEntry(entry, state.scenario)}
+          </div>
+        ))}
+      </Stats>
+    </>
+  );
+}
+
+export default ReplayViewer;
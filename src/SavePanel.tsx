@@ -0,0 +1,61 @@
+import { useState } from "react";
+import type { EngineState } from "./engine";
+import { formatGameTime } from "./format";
+import {
+  getSaveSummary,
+  loadGame,
+  saveGame,
+  saveSlots,
+  type LoadedGame,
+  type SaveSlot,
+  type SaveSummary,
+} from "./save";
+import { Button, InfoCard, SaveSection } from "./styles";
+
+const describeSave = (summary: SaveSummary) =>
+  `${formatGameTime(summary.time)}${
+    summary.gameWon ? " (won)" : summary.gameLost ? " (lost)" : ""
+  } · saved ${new Date(summary.savedAt).toLocaleString()}`;
+
+interface SavePanelProps {
+  game: EngineState;
+  onLoad: (loaded: LoadedGame) => void;
+}
+
+function SavePanel({ game, onLoad }: SavePanelProps) {
+  const readSummaries = () => saveSlots().map((slot) => getSaveSummary(slot));
+  const [summaries, setSummaries] = useState(readSummaries);
+
+  const handleSave = (slot: SaveSlot) => {
+    saveGame(slot, game);
+    setSummaries(readSummaries());
+  };
+
+  const handleLoad = (slot: SaveSlot) => {
+    const loaded = loadGame(slot);
+    if (loaded) {
+      onLoad(loaded);
+    }
+  };
+
+  return (
+    <SaveSection>
+      {saveSlots().map((slot, i) => (
+        <InfoCard key={slot}>
+          <h3>Slot {i + 1}</h3>
+          <p style={{ fontSize: "0.9em" }}>
+            {summaries[i] ? describeSave(summaries[i]) : "Empty"}
+          </p>
+          <Button onClick={() => handleSave(slot)} disabled={!game.gameStarted}>
+            Save
+          </Button>
+          <Button onClick={() => handleLoad(slot)} disabled={!summaries[i]}>
+            Load
+          </Button>
+        </InfoCard>
+      ))}
+    </SaveSection>
+  );
+}
+
+export default SavePanel;
@@ -0,0 +1,299 @@
+import { useMemo, useState, type MouseEvent } from "react";
+import { downloadFile } from "./download";
+import { formatGameTime } from "./format";
+import type { Scenario } from "./schema";
+import { Button, InfoCard, Stats } from "./styles";
+import {
+  TIMELINE_SERIES,
+  criticalWindows,
+  downsample,
+  timelinePoints,
+  timelineToCSV,
+  timelineToJSON,
+  type MarkerKind,
+  type Timeline,
+  type TimelineSeries,
+} from "./timeline";
+
+interface TimelinePanelProps {
+  timeline: Timeline;
+  scenario: Scenario;
+}
+
+type Zoom =
+  | { type: "all" }
+  // The most recent `span` ms, following the game
+  | { type: "last"; span: number }
+  | { type: "range"; from: number; to: number };
+
+const ZOOM_SPANS = [60_000, 5 * 60_000, 15 * 60_000];
+
+const WIDTH = 1000;
+const HEIGHT = 100;
+// Points drawn per chart, see downsample
+const MAX_CHART_POINTS = 500;
+// Narrower drag selections are taken as clicks
+const MIN_SELECTION = 5;
+
+const SERIES_COLORS: Record<TimelineSeries, string> = {
+  oxygen: "#4fc3f7",
+  water: "#2196f3",
+  temperature: "#ff7043",
+  energy: "#ffd700",
+  credits: "#4caf50",
+};
+
+const MARKER_COLORS: Record<MarkerKind, string> = {
+  event: "#ff9800",
+  purchase: "#ab47bc",
+  build: "#8d6e63",
+  plan: "#9e9e9e",
+};
+
+const MARKER_LABELS: Record<MarkerKind, string> = {
+  event: "Events",
+  purchase: "Upgrades",
+  build: "Buildings",
+  plan: "Agent plans",
+};
+
+const capitalize = (text: string) => text[0].toUpperCase() + text.slice(1);
+
+// Charts of the whole session so far, with critical windows shaded and
+// markers for events, purchases and agent plans. Drag across a chart to zoom.
+function TimelinePanel({ timeline, scenario }: TimelinePanelProps) {
+  const [zoom, setZoom] = useState<Zoom>({ type: "all" });
+  const [hidden, setHidden] = useState<MarkerKind[]>([]);
+  // Drag selection in chart x coordinates
+  const [selection, setSelection] = useState<{
+    start: number;
+    end: number;
+  } | null>(null);
+
+  const points = useMemo(() => timelinePoints(timeline), [timeline]);
+  const end = points[points.length - 1]?.time ?? 0;
+  const [from, to] =
+    zoom.type === "all"
+      ? [points[0]?.time ?? 0, end]
+      : zoom.type === "last"
+      ? [Math.max(points[0]?.time ?? 0, end - zoom.span), end]
+      : [zoom.from, zoom.to];
+  const span = Math.max(1, to - from);
+  const x = (time: number) => ((time - from) / span) * WIDTH;
+
+  const visible = points.filter((p) => p.time >= from && p.time <= to);
+  const windows = criticalWindows(visible);
+  const markers = timeline.markers.filter(
+    (m) => m.time >= from && m.time <= to && !hidden.includes(m.kind)
+  );
+
+  const chartX = (e: MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return ((e.clientX - rect.left) / Math.max(1, rect.width)) * WIDTH;
+  };
+  const finishSelection = () => {
+    if (
+      selection &&
+      Math.abs(selection.end - selection.start) >= MIN_SELECTION
+    ) {
+      const [a, b] = [selection.start, selection.end].sort((p, q) => p - q);
+      setZoom({
+        type: "range",
+        from: from + (a / WIDTH) * span,
+        to: from + (b / WIDTH) * span,
+      });
+    }
+    setSelection(null);
+  };
+
+  const yRange = (series: TimelineSeries): [number, number] => {
+    if (series !== "credits") {
+      const { min, max } = scenario.limits[series];
+      return [min, max];
+    }
+    return [0, Math.max(1, ...visible.map((p) => p.credits))];
+  };
+
+  return (
+    <>
+      <Stats>
+        <div>
+          Zoom:{" "}
+          <Button
+            onClick={() => setZoom({ type: "all" })}
+            style={{
+              width: "auto",
+              marginRight: "0.5rem",
+              background: zoom.type === "all" ? "#ff4081" : undefined,
+            }}
+          >
+            All
+          </Button>
+          {ZOOM_SPANS.map((zoomSpan) => (
+            <Button
+              key={zoomSpan}
+              onClick={() => setZoom({ type: "last", span: zoomSpan })}
+              style={{
+                width: "auto",
+                marginRight: "0.5rem",
+                background:
+                  zoom.type === "last" && zoom.span === zoomSpan
+                    ? "#ff4081"
+                    : undefined,
+              }}
+            >
+              Last {zoomSpan / 60_000}m
+            </Button>
+          ))}
+        </div>
+        <div>
+          {(Object.keys(MARKER_LABELS) as MarkerKind[]).map((kind) => (
+            <label key={kind} style={{ marginRight: "0.5rem" }}>
+              <input
+                type="checkbox"
+                checked={!hidden.includes(kind)}
+                onChange={(e) =>
+                  setHidden(
+                    e.target.checked
+                      ? hidden.filter((k) => k !== kind)
+                      : [...hidden, kind]
+                  )
+                }
+              />{" "}
+              <span style={{ color: MARKER_COLORS[kind] }}>
+                {MARKER_LABELS[kind]}
+              </span>
+            </label>
+          ))}
+        </div>
+        <div>
+          <Button
+            onClick={() =>
+              downloadFile(
+                `curmars-timeline-${Date.now()}.csv`,
+                timelineToCSV(timeline),
+                "text/csv"
+              )
+            }
+            style={{ width: "auto", marginRight: "0.5rem" }}
+          >
+            Export CSV
+          </Button>
+          <Button
+            onClick={() =>
+              downloadFile(
+                `curmars-timeline-${Date.now()}.json`,
+                timelineToJSON(timeline)
+              )
+            }
+            style={{ width: "auto" }}
+          >
+            Export JSON
+          </Button>
+        </div>
+      </Stats>
+
+      <InfoCard style={{ maxWidth: "1000px", width: "100%" }}>
+        {TIMELINE_SERIES.map((series) => {
+          const [min, max] = yRange(series);
+          const y = (value: number) =>
+            HEIGHT - ((value - min) / Math.max(1, max - min)) * HEIGHT;
+          const line = downsample(visible, series, MAX_CHART_POINTS)
+            .map(
+              ([time, value]) => `${x(time).toFixed(1)},${y(value).toFixed(1)}`
+            )
+            .join(" ");
+          return (
+            <div key={series} style={{ marginBottom: "0.5rem" }}>
+              <div style={{ display: "flex", justifyContent: "space-between" }}>
+                <strong style={{ color: SERIES_COLORS[series] }}>
+                  {capitalize(series)}
+                </strong>
+                <span>
+                  {min} – {max}
+                </span>
+              </div>
+              <svg
+                role="img"
+                aria-label={`${capitalize(series)} chart`}
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                preserveAspectRatio="none"
+                style={{
+                  width: "100%",
+                  height: "6rem",
+                  background: "#1e1e1e",
+                  cursor: "crosshair",
+                }}
+                onMouseDown={(e) => {
+                  const start = chartX(e);
+                  setSelection({ start, end: start });
+                }}
+                onMouseMove={(e) =>
+                  selection && setSelection({ ...selection, end: chartX(e) })
+                }
+                onMouseUp={finishSelection}
+                onMouseLeave={() => setSelection(null)}
+              >
+                {windows.map((w, i) => (
+                  <rect
+                    key={i}
+                    x={x(w.start)}
+                    width={Math.max(1, x(w.end) - x(w.start))}
+                    y={0}
+                    height={HEIGHT}
+                    fill="#f44336"
+                    opacity={0.25}
+                  />
+                ))}
+                {markers.map((m, i) => (
+                  <line
+                    key={i}
+                    x1={x(m.time)}
+                    x2={x(m.time)}
+                    y1={0}
+                    y2={HEIGHT}
+                    stroke={MARKER_COLORS[m.kind]}
+                    strokeWidth={1}
+                    vectorEffect="non-scaling-stroke"
+                  >
+                    <title>
+                      {formatGameTime(m.time)} {m.label}
+                    </title>
+                  </line>
+                ))}
+                <polyline
+                  points={line}
+                  fill="none"
+                  stroke={SERIES_COLORS[series]}
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+                {selection && (
+                  <rect
+                    x={Math.min(selection.start, selection.end)}
+                    width={Math.abs(selection.end - selection.start)}
+                    y={0}
+                    height={HEIGHT}
+                    fill="#ffffff"
+                    opacity={0.15}
+                  />
+                )}
+              </svg>
+            </div>
+          );
+        })}
+        <div style={{ display: "flex", justifyContent: "space-between" }}>
+          <span>{formatGameTime(from)}</span>
+          <span>
+            {windows.length} critical{" "}
+            {windows.length === 1 ? "window" : "windows"}, {markers.length}{" "}
+            {markers.length === 1 ? "marker" : "markers"}
+          </span>
+          <span>{formatGameTime(to)}</span>
+        </div>
+      </InfoCard>
+    </>
+  );
+}
+
+export default TimelinePanel;
@@ -0,0 +1,68 @@
+import { getUpgradeCost, getUpgradeStatus } from "./engine";
+import { describeUpgrade } from "./prompts";
+import type { Upgrade } from "./schema";
+import { UpgradeCard, UpgradeSection } from "./styles";
+
+interface UpgradeTreeProps {
+  upgrades: Upgrade[];
+  // Leave out for a read-only tree
+  onPurchase?: (upgrade: Upgrade) => void;
+  // Upgrade the agent is buying right now
+  highlight?: string | null;
+}
+
+function UpgradeTree({ upgrades, onPurchase, highlight }: UpgradeTreeProps) {
+  const tiers = [...new Set(upgrades.map((u) => u.tier))].sort((a, b) => a - b);
+  const nameOf = (id: string) => upgrades.find((u) => u.id === id)?.name ?? id;
+
+  return (
+    <>
+      {tiers.map((tier) => (
+        <div key={tier} style={{ width: "100%", maxWidth: "1000px" }}>
+          <h3>Tier {tier}</h3>
+          <UpgradeSection style={{ margin: "0 0 1rem" }}>
+            {upgrades
+              .filter((u) => u.tier === tier)
+              .map((upgrade) => {
+                const status = getUpgradeStatus(upgrades, upgrade);
+                return (
+                  <UpgradeCard
+                    key={upgrade.id}
+                    $status={status}
+                    onClick={() => onPurchase?.(upgrade)}
+                    whileHover={onPurchase && { scale: 1.05 }}
+                    whileTap={onPurchase && { scale: 0.95 }}
+                    style={{
+                      cursor: onPurchase ? undefined : "default",
+                      background:
+                        highlight === upgrade.id ? "#00ff00" : undefined,
+                      transform:
+                        highlight === upgrade.id ? "scale(1.1)" : undefined,
+                      transition: "all 0.2s ease-in-out",
+                    }}
+                  >
+                    <h3>{upgrade.name}</h3>
+                    <p>{describeUpgrade(upgrade)}</p>
+                    {status !== "purchased" && (
+                      <p>Cost: {getUpgradeCost(upgrade)} credits</p>
+                    )}
+                    <p>
+                      {status === "locked"
+                        ? `Requires ${upgrade.requires.map(nameOf).join(", ")}`
+                        : status === "purchased"
+                        ? "Purchased"
+                        : "Available"}
+                      {upgrade.maxLevel > 1 &&
+                        ` (level ${upgrade.level}/${upgrade.maxLevel})`}
+                    </p>
+                  </UpgradeCard>
+                );
+              })}
+          </UpgradeSection>
+        </div>
+      ))}
+    </>
+  );
+}
+
+export default UpgradeTree;
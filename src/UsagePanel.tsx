@@ -0,0 +1,108 @@
+import { useReducer } from "react";
+import { formatCost } from "./format";
+import { InfoCard } from "./styles";
+import { USAGE_ROLES, type UsageMeter, type UsageTotals } from "./usage";
+
+interface UsagePanelProps {
+  meter: UsageMeter;
+}
+
+// Calls listed under the totals, newest first
+const RECENT_CALLS = 10;
+
+const cellStyle = { padding: "0.25rem 0.75rem", textAlign: "right" as const };
+
+function TotalsRow({ label, totals }: { label: string; totals: UsageTotals }) {
+  return (
+    <tr>
+      <td style={{ ...cellStyle, textAlign: "left" }}>{label}</td>
+      <td style={cellStyle}>{totals.calls}</td>
+      <td style={cellStyle}>{totals.promptTokens}</td>
+      <td style={cellStyle}>{totals.completionTokens}</td>
+      <td style={cellStyle}>{formatCost(totals.cost)}</td>
+    </tr>
+  );
+}
+
+// Tokens and estimated cost of this connection's LLM calls, and the budget
+// that stops the agent
+function UsagePanel({ meter }: UsagePanelProps) {
+  // The meter is read while rendering, so a budget change needs a redraw
+  const [, redraw] = useReducer((n: number) => n + 1, 0);
+  const total = meter.totals();
+  const recent = meter.records.slice(-RECENT_CALLS).reverse();
+
+  return (
+    <InfoCard style={{ maxWidth: "1000px", marginBottom: "1rem" }}>
+      <table style={{ margin: "0 auto", borderCollapse: "collapse" }}>
+        <thead>
+          <tr>
+            <th style={{ ...cellStyle, textAlign: "left" }}>Role</th>
+            <th style={cellStyle}>Calls</th>
+            <th style={cellStyle}>Prompt tokens</th>
+            <th style={cellStyle}>Completion tokens</th>
+            <th style={cellStyle}>Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {USAGE_ROLES.map((role) => (
+            <TotalsRow key={role} label={role} totals={meter.totals(role)} />
+          ))}
+          <TotalsRow label="Total" totals={total} />
+        </tbody>
+      </table>
+      {total.unpriced > 0 && (
+        <p>
+          {total.unpriced} calls went to models without a known price and aren't
+          in the cost.
+        </p>
+      )}
+      <p>
+        <label>
+          Budget ($){" "}
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            placeholder="No limit"
+            value={meter.budget ?? ""}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              meter.budget = value > 0 ? value : null;
+              redraw();
+            }}
+            style={{
+              padding: "0.5rem",
+              borderRadius: "5px",
+              border: "1px solid #666",
+              width: "6rem",
+            }}
+          />
+        </label>
+      </p>
+      {meter.overBudget && (
+        <p style={{ color: "#f44336" }}>
+          Budget reached: the agent is stopped and the observer and console make
+          no more calls. Raise the budget to continue.
+        </p>
+      )}
+      {recent.length > 0 && (
+        <details>
+          <summary>Recent calls</summary>
+          <ul>
+            {recent.map((record, i) => (
+              <li key={i}>
+                {new Date(record.at).toLocaleTimeString()} · {record.role} ·{" "}
+                {record.model} · {record.estimated && "~"}
+                {record.promptTokens} + {record.completionTokens} tokens ·{" "}
+                {record.cost === null ? "no price" : formatCost(record.cost)}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </InfoCard>
+  );
+}
+
+export default UsagePanel;
@@ -0,0 +1,397 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GameAgent, HISTORY_TURNS, MAX_DECISIONS } from "./agent";
+import { createInitialState, toGameState } from "./engine";
+import { MockProvider } from "./mockProvider";
+import { MAX_PLAN_LENGTH, toPlanStep, type PlanStep } from "./plan";
+import {
+  DEFAULT_PROMPT_SETTINGS,
+  DEFAULT_TEMPLATES,
+  TemplateError,
+} from "./promptTemplates";
+import { DEFAULT_SCENARIO } from "./scenario";
+import { parseGameAction, type ActionOutcome, type GameAction } from "./schema";
+
+const gameState = toGameState(createInitialState(1));
+
+const respond = (actions: unknown[]) => ({
+  content: JSON.stringify({ actions }),
+});
+
+const DEFAULT_PLAN: PlanStep[] = Array.from(
+  { length: 10 },
+  (_, i): GameAction => ({
+    type: "generate",
+    resource: (["energy", "oxygen", "water"] as const)[i % 3],
+  })
+).map(toPlanStep);
+
+describe("parseGameAction", () => {
+  it("parses every action type", () => {
+    const choiceId = DEFAULT_SCENARIO.events.find((e) => e.choices.length)!
+      .choices[0].id;
+
+    expect(parseGameAction("generate:oxygen", gameState)).toEqual({
+      ok: true,
+      action: { type: "generate", resource: "oxygen" },
+    });
+    expect(parseGameAction(" purchase:oxygen1 ", gameState)).toEqual({
+      ok: true,
+      action: { type: "purchase", upgradeId: "oxygen1" },
+    });
+    expect(
+      parseGameAction(`build:${gameState.buildings[0].id}`, gameState)
+    ).toEqual({
+      ok: true,
+      action: { type: "build", buildingId: gameState.buildings[0].id },
+    });
+    expect(parseGameAction(`choose:${choiceId}`, gameState)).toEqual({
+      ok: true,
+      action: { type: "choose", choiceId },
+    });
+  });
+
+  it.each([
+    [42, "is not a string"],
+    ["generate", "is not in the form type:target"],
+    ["generate:oxygen:twice", "is not in the form type:target"],
+    ["generate:air", 'Unknown resource "air"'],
+    ["purchase:warp_drive", 'Unknown upgrade "warp_drive"'],
+    ["build:castle", 'Unknown building "castle"'],
+    ["choose:panic", 'Unknown choice "panic"'],
+    ["sell:oxygen", 'Unknown action type "sell"'],
+  ])("rejects %j", (value, reason) => {
+    const result = parseGameAction(value, gameState);
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.reason).toContain(reason);
+  });
+});
+
+describe("GameAgent", () => {
+  let provider: MockProvider;
+  let agent: GameAgent;
+
+  beforeEach(() => {
+    provider = new MockProvider();
+    agent = new GameAgent(provider);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns the parsed plan of a valid response", async () => {
+    provider.enqueue(
+      respond([
+        "generate:energy",
+        "purchase:energy1 if credits >= 50",
+        `build:${gameState.buildings[0].id}`,
+      ])
+    );
+
+    const plan = await agent.getNextPlan(gameState);
+
+    expect(plan).toEqual([
+      toPlanStep({ type: "generate", resource: "energy" }),
+      {
+        action: { type: "purchase", upgradeId: "energy1" },
+        conditions: [{ subject: "credits", operator: ">=", value: 50 }],
+      },
+      toPlanStep({ type: "build", buildingId: gameState.buildings[0].id }),
+    ]);
+  });
+
+  it("keeps the first MAX_PLAN_LENGTH steps of a longer plan", async () => {
+    provider.enqueue(
+      respond(Array(MAX_PLAN_LENGTH + 5).fill("generate:water"))
+    );
+
+    const plan = await agent.getNextPlan(gameState);
+
+    expect(plan).toHaveLength(MAX_PLAN_LENGTH);
+    expect(agent.decisions[0].errors).toContain(
+      `Expected at most ${MAX_PLAN_LENGTH} actions, got ${
+        MAX_PLAN_LENGTH + 5
+      }, the rest were dropped`
+    );
+  });
+
+  it("drops invalid actions and keeps the rest", async () => {
+    provider.enqueue(
+      respond([
+        ...Array(8).fill("generate:water"),
+        "purchase:warp_drive",
+        "generate:air",
+      ])
+    );
+
+    const plan = await agent.getNextPlan(gameState);
+
+    expect(plan).toHaveLength(8);
+    expect(plan.every((s) => s.action.type === "generate")).toBe(true);
+    // Besides the missing rationale and risk
+    expect(
+      agent.decisions[0].errors.filter((e) => /warp_drive|air/.test(e))
+    ).toHaveLength(2);
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["all actions are invalid", respond(Array(10).fill("dance:now"))],
+    ["the plan is empty", respond([])],
+    ["no condition parses", respond(["generate:oxygen if air > 5"])],
+    ["actions is missing", { content: JSON.stringify({ moves: [] }) }],
+    ["the JSON is malformed", { fault: "malformed" as const }],
+    ["the response is empty", { fault: "empty" as const }],
+    ["the provider throws", { fault: "error" as const }],
+  ])("falls back to safe defaults when %s", async (_, step) => {
+    provider.enqueue(step);
+
+    expect(await agent.getNextPlan(gameState)).toEqual(DEFAULT_PLAN);
+  });
+
+  it("records each batch with its rationale, risk and state", async () => {
+    provider.enqueue({
+      content: JSON.stringify({
+        rationale: "Energy first",
+        risk: "high: oxygen is at 0%",
+        actions: Array(10).fill("generate:energy"),
+      }),
+    });
+
+    await agent.getNextPlan(gameState);
+
+    expect(agent.decisions).toHaveLength(1);
+    const [decision] = agent.decisions;
+    expect(decision).toMatchObject({
+      id: 1,
+      model: "gpt-4o-2024-11-20",
+      rationale: "Energy first",
+      risk: "high: oxygen is at 0%",
+      errors: [],
+      usedDefaults: false,
+      state: {
+        resources: gameState.resources,
+        credits: 30,
+        upgradeLevels: {},
+        pendingChoice: null,
+      },
+    });
+    expect(decision.rawOutput).toContain("Energy first");
+    expect(decision.plan).toHaveLength(10);
+    expect(decision.latency).toBeGreaterThanOrEqual(0);
+    expect(decision.usage?.promptTokens).toBeGreaterThan(0);
+  });
+
+  it("records why a response was rejected", async () => {
+    provider.enqueue(
+      respond([...Array(9).fill("generate:water"), "generate:air"]),
+      { fault: "malformed" },
+      { fault: "error" }
+    );
+
+    await agent.getNextPlan(gameState);
+    await agent.getNextPlan(gameState);
+    await agent.getNextPlan(gameState);
+
+    const [partial, malformed, failed] = agent.decisions;
+    expect(partial.usedDefaults).toBe(false);
+    expect(partial.errors).toEqual([
+      "No rationale given",
+      "No risk assessment given",
+      expect.stringContaining('Unknown resource "air"'),
+    ]);
+    expect(malformed.usedDefaults).toBe(true);
+    expect(malformed.errors[0]).toMatch(/^Invalid JSON/);
+    expect(failed.usedDefaults).toBe(true);
+    expect(failed.rawOutput).toBeNull();
+    expect(failed.errors).toEqual(["LLM error: Mock provider error"]);
+    expect(failed.plan).toEqual(DEFAULT_PLAN);
+  });
+
+  it("keeps the last MAX_DECISIONS batches", async () => {
+    for (let i = 0; i < MAX_DECISIONS + 5; i++) {
+      await agent.getNextPlan(gameState);
+    }
+
+    expect(agent.decisions).toHaveLength(MAX_DECISIONS);
+    expect(agent.decisions[0].id).toBe(6);
+  });
+
+  it("tells the model what failed in its last plan", async () => {
+    provider.enqueue(
+      respond([...Array(9).fill("purchase:energy2"), "purchase:warp"])
+    );
+    await agent.getNextPlan(gameState);
+    const rejected = {
+      status: "rejected" as const,
+      reason: "Nuclear Generator requires Solar Array first",
+    };
+    const results: ActionOutcome[] = [
+      ...Array(8).fill({
+        action: { type: "purchase", upgradeId: "energy2" },
+        result: rejected,
+      }),
+      {
+        action: { type: "generate", resource: "energy" },
+        result: { status: "noop", reason: "energy is already at its maximum" },
+      },
+    ];
+
+    await agent.getNextPlan(gameState, { results, interrupt: null });
+
+    const { messages } = provider.requests[1];
+    const prompt = messages[messages.length - 1].content;
+    expect(prompt).toContain(
+      "LAST PLAN: 0 applied, 1 had no effect, 0 skipped, 8 rejected"
+    );
+    expect(prompt).toContain(
+      "- Rejected purchase:energy2: Nuclear Generator requires Solar Array first (8 times)"
+    );
+    expect(prompt).toContain(
+      "- No effect generate:energy: energy is already at its maximum"
+    );
+    expect(prompt).toContain('- Response: Unknown upgrade "warp"');
+    expect(agent.decisions[0].results).toEqual(results);
+    expect(agent.decisions[1].results).toBeNull();
+  });
+
+  it("tells the model why its last plan was cut short", async () => {
+    await agent.getNextPlan(gameState);
+    const interrupt = "Dust Storm hit, 4 steps dropped";
+
+    await agent.getNextPlan(gameState, {
+      results: [
+        {
+          action: { type: "generate", resource: "oxygen" },
+          result: { status: "skipped", reason: "energy > 20 did not hold" },
+        },
+      ],
+      interrupt,
+    });
+
+    const { messages } = provider.requests[1];
+    const prompt = messages[messages.length - 1].content;
+    expect(prompt).toContain("0 applied, 0 had no effect, 1 skipped");
+    expect(prompt).toContain(`INTERRUPTED: ${interrupt}`);
+    expect(agent.decisions[0].interrupt).toBe(interrupt);
+  });
+
+  it("leaves the feedback out of the first request", async () => {
+    await agent.getNextPlan(gameState);
+
+    const { messages } = provider.requests[0];
+    expect(messages[messages.length - 1].content).not.toContain("LAST PLAN");
+  });
+
+  it("sends the rules once and the state every turn", async () => {
+    await agent.getNextPlan(gameState);
+    await agent.getNextPlan(gameState);
+
+    const { messages } = provider.requests[1];
+    expect(messages.filter((m) => m.role === "system")).toHaveLength(1);
+    expect(messages[0].content).toContain(DEFAULT_SCENARIO.name);
+    expect(messages[messages.length - 1].content).toContain("Energy: 100.0%");
+    expect(messages[messages.length - 1].content).toContain("Credits: 30");
+  });
+
+  it("sums up turns older than HISTORY_TURNS", async () => {
+    provider.enqueue({
+      content: JSON.stringify({
+        rationale: "Energy first",
+        risk: "low",
+        actions: ["generate:energy"],
+      }),
+    });
+    for (let i = 0; i < HISTORY_TURNS + 2; i++) {
+      await agent.getNextPlan(gameState);
+    }
+
+    const { messages } = provider.requests[HISTORY_TURNS + 1];
+    // System prompt, summary, the last turns with replies and the new state
+    expect(messages).toHaveLength(2 + HISTORY_TURNS * 2 - 1);
+    const [, summary, oldest] = messages;
+    expect(summary.content).toMatch(/^EARLIER PLANS/);
+    expect(summary.content).toContain(
+      "1 steps, 0 applied, 0 skipped, 0 failed: Energy first"
+    );
+    expect(summary.content).toContain("Plan 2 at oxygen");
+    expect(summary.content).not.toContain("Plan 3");
+    expect(oldest.content).toContain("Current Game State");
+  });
+
+  it("starts a new conversation for a different scenario", async () => {
+    await agent.getNextPlan(gameState);
+    await agent.getNextPlan({
+      ...gameState,
+      scenario: { ...gameState.scenario, id: "other", name: "Other World" },
+    });
+
+    const { messages } = provider.requests[1];
+    expect(messages).toHaveLength(2);
+    expect(messages[0].content).toContain("Other World");
+  });
+
+  it("writes its prompts from the profile and templates", async () => {
+    agent = new GameAgent(provider, undefined, {
+      profile: "cautious",
+      templates: {
+        system: "Play {{scenario}} like this:\n{{strategy}}",
+        state: "Energy {{energy}}, credits {{credits}}\n{{feedback}}",
+      },
+    });
+
+    await agent.getNextPlan(gameState);
+
+    const [system, state] = provider.requests[0].messages;
+    expect(system.content).toContain(
+      `Play ${gameState.scenario.name} like this:\n- Keep energy above 40%`
+    );
+    expect(state.content).toBe(
+      `Energy ${gameState.resources.energy.toFixed(1)}, credits ${
+        gameState.credits
+      }`
+    );
+    expect(agent.decisions[0].profile).toBe("cautious");
+  });
+
+  it("refuses unknown profiles and template variables", () => {
+    expect(
+      () =>
+        new GameAgent(provider, undefined, {
+          ...DEFAULT_PROMPT_SETTINGS,
+          profile: "reckless",
+        })
+    ).toThrow(TemplateError);
+    expect(
+      () =>
+        new GameAgent(provider, undefined, {
+          ...DEFAULT_PROMPT_SETTINGS,
+          templates: { ...DEFAULT_TEMPLATES, state: "{{oxygen}} {{mood}}" },
+        })
+    ).toThrow("Unknown variable {{mood}} in the state template");
+  });
+
+  it("sends the player's goals with every request", async () => {
+    agent.goals = ["Keep energy above 40%"];
+    await agent.getNextPlan(gameState);
+    agent = new GameAgent(provider, undefined, {
+      ...DEFAULT_PROMPT_SETTINGS,
+      templates: { ...DEFAULT_TEMPLATES, state: "Energy {{energy}}" },
+    });
+    agent.goals = ["Keep energy above 40%"];
+    await agent.getNextPlan(gameState);
+
+    const goals =
+      "PLAYER GOALS (follow these unless it would lose the game):\n- Keep energy above 40%";
+    const [first, second] = provider.requests.map(
+      ({ messages }) => messages[messages.length - 1].content
+    );
+    expect(first).toContain(`${goals}\n\nAnalyze`);
+    expect(second).toBe(
+      `Energy ${gameState.resources.energy.toFixed(1)}\n\n${goals}`
+    );
+  });
+});
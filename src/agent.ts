@@ -1,213 +1,394 @@
-import OpenAI from "openai";
-
-interface GameState {
-  resources: {
-    oxygen: number;
-    water: number;
-    temperature: number;
-    energy: number;
-  };
+import {
+  DEFAULT_AGENT_MODEL,
+  type LLMProvider,
+  type Message,
+  type ModelConfig,
+} from "./llm";
+import { isRecord } from "./json";
+import { formatPlanFeedback } from "./prompts";
+import {
+  DEFAULT_PROMPT_SETTINGS,
+  TemplateError,
+  getProfile,
+  renderTemplate,
+  stateVariables,
+  systemVariables,
+  validateTemplates,
+  type PromptSettings,
+  type StrategyProfile,
+} from "./promptTemplates";
+import {
+  MAX_PLAN_LENGTH,
+  parsePlanStep,
+  toPlanStep,
+  type PlanFeedback,
+  type PlanStep,
+} from "./plan";
+import type { TokenUsage } from "./usage";
+import {
+  type ActionOutcome,
+  type GameAction,
+  type GameState,
+  type Resource,
+} from "./schema";
+
+// Anything that can play the game: the LLM agent or a rule-based bot
+export interface Agent {
+  // `feedback` says what each step of the previous plan did and why it was
+  // cut short
+  getNextPlan(
+    gameState: GameState,
+    feedback?: PlanFeedback
+  ): Promise<PlanStep[]>;
+  // Plans so far, oldest first, for agents that explain themselves
+  readonly decisions?: readonly AgentDecision[];
+}
+
+// What the agent saw when it was asked. Catalogs are reduced to levels and
+// counts by id, like in save files.
+export interface DecisionSnapshot {
+  resources: Resource;
   credits: number;
-  upgrades: Array<{
-    id: string;
-    name: string;
-    cost: number;
-    resourceType: string;
-    multiplier: number;
-    purchased: boolean;
-  }>;
-  gameWon: boolean;
-  gameLost: boolean;
   criticalTimer: number | null;
+  upgradeLevels: Record<string, number>;
+  buildingCounts: Record<string, number>;
+  activeEvents: string[];
+  pendingChoice: string | null;
 }
 
-type GameAction = {
-  type: "generate" | "purchase";
-  target: string;
-};
-
-type Message = {
-  role: "system" | "user" | "assistant";
-  content: string;
-};
-
-const SYSTEM_PROMPT = `You are an AI agent playing a Mars terraforming game. Your goal is to terraform Mars by managing resources efficiently.
-
-WIN CONDITIONS:
-- Oxygen: 100%
-- Water: 100%
-- Temperature: 15°C or higher
-
-CRITICAL FAILURE CONDITIONS:
-- Any resource (oxygen, water, energy) drops below 5% for 30 seconds
-- Temperature doesn't affect critical failure
-
-RESOURCE MECHANICS:
-1. Energy:
-   - Required for all actions except energy generation
-   - Each action costs 10 energy
-   - Naturally drains over time
-   - Generate energy without energy cost
-
-2. Resources Generation:
-   - Base gains per action:
-     * Oxygen: 3%
-     * Water: 3%
-     * Temperature: 0.3°C
-     * Energy: 8%
-   - All gains affected by energy efficiency (current energy / 100)
-   - Resources drain over time
-
-3. Upgrades:
-   - Permanently multiply resource generation
-   - Cost credits
-   - Can't be refunded
-   - Stack multiplicatively
-
-STRATEGY TIPS:
-- Keep energy above 20% for safety
-- Prioritize energy upgrades early
-- Buy upgrades when safe
-- Balance resource generation
-
-Respond with a JSON object containing an "actions" array with exactly 10 actions:
-{
-  "actions": [
-    "generate:energy",
-    "generate:oxygen",
-    "purchase:oxygen1",
-    ...
+// One plan and everything that went into it
+export interface AgentDecision {
+  id: number;
+  requestedAt: number;
+  // Milliseconds until the model answered or failed
+  latency: number;
+  model: string;
+  // Strategy profile the prompt was written with
+  profile: string;
+  // As reported by the endpoint, null if it didn't answer or report it
+  usage: TokenUsage | null;
+  state: DecisionSnapshot;
+  rawOutput: string | null;
+  rationale: string | null;
+  risk: string | null;
+  plan: PlanStep[];
+  // Why the response, or parts of it, were rejected
+  errors: string[];
+  usedDefaults: boolean;
+  // What the steps did once run and why the plan was cut short, reported
+  // with the next request
+  results: ActionOutcome[] | null;
+  interrupt: string | null;
+}
+
+// Decisions kept per agent
+export const MAX_DECISIONS = 200;
+
+// Requests sent in full with their replies, including the current one.
+// Older ones are folded into a line each of EARLIER PLANS.
+export const HISTORY_TURNS = 5;
+export const MAX_SUMMARY_LINES = 30;
+
+interface Turn {
+  decisionId: number;
+  messages: Message[];
+}
+
+export const snapshotState = (state: GameState): DecisionSnapshot => ({
+  resources: { ...state.resources },
+  credits: state.credits,
+  criticalTimer: state.criticalTimer,
+  upgradeLevels: Object.fromEntries(
+    state.upgrades.filter((u) => u.level > 0).map((u) => [u.id, u.level])
+  ),
+  buildingCounts: Object.fromEntries(
+    state.buildings.filter((b) => b.count > 0).map((b) => [b.id, b.count])
+  ),
+  activeEvents: state.activeEvents.map((e) => e.id),
+  pendingChoice: state.pendingChoice?.eventId ?? null,
+});
+
+// One line of EARLIER PLANS: what the agent saw, what it planned and how it
+// went
+function summarizeDecision({
+  id,
+  state,
+  plan,
+  results,
+  rationale,
+}: AgentDecision): string {
+  const { oxygen, water, temperature, energy } = state.resources;
+  const count = (status: ActionOutcome["result"]["status"]) =>
+    results?.filter((o) => o.result.status === status).length ?? 0;
+  return [
+    `Plan ${id} at oxygen ${oxygen.toFixed(0)}%, water ${water.toFixed(
+      0
+    )}%, temperature ${temperature.toFixed(0)}°C, energy ${energy.toFixed(
+      0
+    )}%, ${state.credits} credits`,
+    `${plan.length} steps, ${count("applied")} applied, ${count(
+      "skipped"
+    )} skipped, ${count("rejected") + count("noop")} failed`,
+    rationale,
   ]
+    .filter(Boolean)
+    .join(": ");
 }
 
-Available actions:
-- generate:energy
-- generate:oxygen
-- generate:water
-- generate:temperature
-- purchase:[upgradeId]`;
-
-export class GameAgent {
-  private openai: OpenAI;
-  private messageHistory: Message[] = [];
-
-  constructor(apiKey: string) {
-    this.openai = new OpenAI({
-      apiKey: apiKey,
-      dangerouslyAllowBrowser: true,
-    });
-    this.messageHistory = [{ role: "system", content: SYSTEM_PROMPT }];
+interface ParsedReply {
+  rationale: string | null;
+  risk: string | null;
+  // Only the valid ones, empty if there were none
+  plan: PlanStep[];
+}
+
+export class GameAgent implements Agent {
+  private provider: LLMProvider;
+  private model: ModelConfig;
+  private prompt: PromptSettings;
+  private profile: StrategyProfile;
+  private systemMessage: Message | null = null;
+  private turns: Turn[] = [];
+  private summary: string[] = [];
+  private scenarioId: string | null = null;
+  private decisionLog: AgentDecision[] = [];
+  private nextDecisionId = 1;
+  // Standing goals from the player, sent with every request
+  goals: readonly string[] = [];
+
+  // `instructions` are added to the end of the system prompt, e.g. a style
+  // of play to compare in a benchmark. Throws a TemplateError for an unknown
+  // profile or templates using unknown variables.
+  constructor(
+    provider: LLMProvider,
+    model: ModelConfig = DEFAULT_AGENT_MODEL,
+    prompt: PromptSettings = DEFAULT_PROMPT_SETTINGS,
+    private instructions = ""
+  ) {
+    const errors = validateTemplates(prompt.templates);
+    if (errors.length > 0) throw new TemplateError(errors.join("; "));
+    this.provider = provider;
+    this.model = model;
+    this.prompt = prompt;
+    this.profile = getProfile(prompt.profile);
   }
 
-  async getNextActions(gameState: GameState): Promise<GameAction[]> {
-    try {
-      const stateMessage = this.formatGameState(gameState);
+  get decisions(): readonly AgentDecision[] {
+    return this.decisionLog;
+  }
 
-      // Add new state message
-      this.messageHistory.push({ role: "user", content: stateMessage });
+  async getNextPlan(
+    gameState: GameState,
+    feedback: PlanFeedback = { results: [], interrupt: null }
+  ): Promise<PlanStep[]> {
+    // The system prompt describes the scenario's rules, so a different
+    // scenario starts a fresh conversation
+    if (gameState.scenario.id !== this.scenarioId) {
+      this.scenarioId = gameState.scenario.id;
+      const system = renderTemplate(
+        this.prompt.templates.system,
+        systemVariables(gameState.scenario, this.profile)
+      );
+      this.systemMessage = {
+        role: "system",
+        content: this.instructions
+          ? `${system}
 
-      // Keep only last 100 messages
-      if (this.messageHistory.length > 100) {
-        this.messageHistory = [
-          this.messageHistory[0], // Keep system prompt
-          ...this.messageHistory.slice(-99), // Keep last 99 messages
-        ];
-      }
+ADDITIONAL INSTRUCTIONS:
+${this.instructions}`
+          : system,
+      };
+      this.turns = [];
+      this.summary = [];
+    }
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o-2024-11-20",
-        messages: this.messageHistory,
-        temperature: 0.2,
-        max_tokens: 500,
-        response_format: { type: "json_object" },
-      });
+    // The previous plan gets its results, and the model hears what failed
+    const previous = this.decisionLog[this.decisionLog.length - 1];
+    if (previous && (feedback.results.length > 0 || feedback.interrupt)) {
+      this.decisionLog = [
+        ...this.decisionLog.slice(0, -1),
+        {
+          ...previous,
+          results: feedback.results,
+          interrupt: feedback.interrupt,
+        },
+      ];
+    }
+    const feedbackText = previous
+      ? formatPlanFeedback(feedback, previous.errors)
+      : null;
 
-      const actionsText = response.choices[0]?.message?.content;
-      if (!actionsText) {
-        return this.getDefaultActions();
-      }
+    const id = this.nextDecisionId++;
+    const requestedAt = Date.now();
+    const errors: string[] = [];
+    let rawOutput: string | null = null;
+    let usage: TokenUsage | null = null;
+    let reply: ParsedReply | null = null;
+    try {
+      const turn: Turn = {
+        decisionId: id,
+        messages: [
+          {
+            role: "user",
+            content: this.formatGameState(gameState, feedbackText),
+          },
+        ],
+      };
+      this.turns.push(turn);
+      this.compactHistory();
 
-      // Add agent's response to history
-      this.messageHistory.push({
-        role: "assistant",
-        content: actionsText,
+      const response = await this.provider.complete({
+        ...this.model,
+        messages: this.buildMessages(),
+        json: true,
       });
 
-      try {
-        const parsedResponse = JSON.parse(actionsText);
-        if (
-          Array.isArray(parsedResponse.actions) &&
-          parsedResponse.actions.length === 10
-        ) {
-          return parsedResponse.actions.map((action: string) =>
-            this.parseAction(action)
-          );
-        }
-      } catch (e) {
-        console.error("Failed to parse actions:", e);
+      rawOutput = response.content;
+      usage = response.usage ?? null;
+      if (rawOutput) {
+        turn.messages.push({ role: "assistant", content: rawOutput });
+        reply = this.parseReply(rawOutput, gameState, errors);
+      } else {
+        errors.push("The model returned no content");
       }
-
-      return this.getDefaultActions();
     } catch (error) {
-      console.error("OpenAI API error:", error);
-      return this.getDefaultActions();
+      console.error(`LLM error (${this.provider.name}):`, error);
+      errors.push(
+        `LLM error: ${error instanceof Error ? error.message : String(error)}`
+      );
     }
+
+    const plan = reply && reply.plan.length > 0 ? reply.plan : null;
+    const decision: AgentDecision = {
+      id,
+      requestedAt,
+      latency: Date.now() - requestedAt,
+      model: this.model.model,
+      profile: this.prompt.profile,
+      usage,
+      state: snapshotState(gameState),
+      rawOutput,
+      rationale: reply?.rationale ?? null,
+      risk: reply?.risk ?? null,
+      plan: plan ?? this.getDefaultPlan(),
+      errors,
+      usedDefaults: plan === null,
+      results: null,
+      interrupt: null,
+    };
+    this.decisionLog = [...this.decisionLog, decision].slice(-MAX_DECISIONS);
+    return decision.plan;
   }
 
-  private formatGameState(state: GameState): string {
-    const purchasedUpgrades = state.upgrades
-      .filter((u) => u.purchased)
-      .map((u) => `${u.id} (${u.multiplier}x ${u.resourceType})`);
+  // Turns past HISTORY_TURNS become summary lines, so the prompt stays about
+  // the same size however long the game runs
+  private compactHistory() {
+    while (this.turns.length > HISTORY_TURNS) {
+      const [oldest, ...rest] = this.turns;
+      this.turns = rest;
+      const decision = this.decisionLog.find((d) => d.id === oldest.decisionId);
+      if (decision) {
+        this.summary = [...this.summary, summarizeDecision(decision)].slice(
+          -MAX_SUMMARY_LINES
+        );
+      }
+    }
+  }
 
-    return `Current Game State:
+  private buildMessages(): Message[] {
+    const summary: Message[] =
+      this.summary.length > 0
+        ? [
+            {
+              role: "user",
+              content: `EARLIER PLANS (oldest first):\n${this.summary.join(
+                "\n"
+              )}`,
+            },
+          ]
+        : [];
+    return [
+      this.systemMessage!,
+      ...summary,
+      ...this.turns.flatMap((turn) => turn.messages),
+    ];
+  }
 
-RESOURCES:
-- Oxygen: ${state.resources.oxygen.toFixed(1)}%
-- Water: ${state.resources.water.toFixed(1)}%
-- Temperature: ${state.resources.temperature.toFixed(1)}°C
-- Energy: ${state.resources.energy.toFixed(1)}%
+  // Goals go at the end of templates that don't place them, so they reach
+  // the model with any template
+  private formatGameState(state: GameState, feedback: string | null): string {
+    const { state: template } = this.prompt.templates;
+    const variables = stateVariables(state, feedback, this.goals);
+    const text = renderTemplate(template, variables);
+    return /\{\{\s*goals\s*\}\}/.test(template) || !variables.goals
+      ? text
+      : `${text}\n\n${variables.goals}`;
+  }
 
-Credits: ${state.credits}
-Critical Timer: ${
-      state.criticalTimer !== null
-        ? `${state.criticalTimer}s remaining!`
-        : "safe"
+  // Actions naming unknown resources or upgrades, or with conditions that
+  // don't parse, are dropped with the reason recorded rather than replaced by
+  // a guess. Steps past MAX_PLAN_LENGTH are cut off.
+  private parseReply(
+    text: string,
+    state: GameState,
+    errors: string[]
+  ): ParsedReply | null {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (e) {
+      console.error("Failed to parse actions:", e);
+      errors.push(
+        `Invalid JSON: ${e instanceof Error ? e.message : String(e)}`
+      );
+      return null;
     }
 
-AVAILABLE UPGRADES:
-${state.upgrades
-  .filter((u) => !u.purchased)
-  .map(
-    (u) =>
-      `- ${u.id}: ${u.name} (Cost: ${u.cost}, ${u.multiplier}x ${u.resourceType})`
-  )
-  .join("\n")}
+    const readText = (value: unknown) =>
+      typeof value === "string" && value.trim() ? value.trim() : null;
+    const reply = isRecord(parsed) ? parsed : {};
+    const rationale = readText(reply.rationale);
+    const risk = readText(reply.risk);
+    if (!rationale) errors.push("No rationale given");
+    if (!risk) errors.push("No risk assessment given");
 
-PURCHASED UPGRADES:
-${purchasedUpgrades.length > 0 ? purchasedUpgrades.join("\n") : "None"}
-
-Analyze the situation and provide exactly 10 actions to execute in the next 10 seconds.
-Prioritize preventing critical failure and maintaining energy levels.`;
-  }
-
-  private parseAction(actionStr: string): GameAction {
-    const [type, target] = actionStr.split(":");
-    if (type === "generate" || type === "purchase") {
-      return { type, target };
+    const { actions } = reply;
+    if (!Array.isArray(actions)) {
+      errors.push('No "actions" array');
+      return { rationale, risk, plan: [] };
+    }
+    if (actions.length === 0) {
+      errors.push("The plan is empty");
+      return { rationale, risk, plan: [] };
+    }
+    if (actions.length > MAX_PLAN_LENGTH) {
+      errors.push(
+        `Expected at most ${MAX_PLAN_LENGTH} actions, got ${actions.length}, the rest were dropped`
+      );
     }
-    return { type: "generate", target: "energy" }; // Default action
+
+    const plan: PlanStep[] = [];
+    actions.slice(0, MAX_PLAN_LENGTH).forEach((value: unknown) => {
+      const result = parsePlanStep(value, state);
+      if (result.ok) {
+        plan.push(result.step);
+      } else {
+        errors.push(result.reason);
+      }
+    });
+    return { rationale, risk, plan };
   }
 
-  private getDefaultActions(): GameAction[] {
+  private getDefaultPlan(): PlanStep[] {
     // Safe default actions focusing on maintaining energy and oxygen
     return Array(10)
       .fill(null)
-      .map((_, i) =>
-        i % 3 === 0
-          ? { type: "generate", target: "energy" }
-          : i % 3 === 1
-          ? { type: "generate", target: "oxygen" }
-          : { type: "generate", target: "water" }
-      );
+      .map(
+        (_, i): GameAction => ({
+          type: "generate",
+          resource: i % 3 === 0 ? "energy" : i % 3 === 1 ? "oxygen" : "water",
+        })
+      )
+      .map(toPlanStep);
   }
 }
@@ -0,0 +1,230 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  compareResults,
+  formatBenchmarkMarkdown,
+  parseBenchmarkConfig,
+  runBenchmark,
+  summarizeContender,
+  type BenchmarkGame,
+} from "./benchmark";
+import { emptyTotals } from "./usage";
+
+const config = (contenders: unknown[], overrides = {}) =>
+  parseBenchmarkConfig({ count: 2, maxTime: 120, contenders, ...overrides });
+
+const game = (
+  outcome: BenchmarkGame["outcome"],
+  time: number,
+  criticalShare = 0
+): BenchmarkGame => ({
+  seed: 1,
+  outcome,
+  time,
+  criticalShare,
+  usage: emptyTotals(),
+});
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("parseBenchmarkConfig", () => {
+  it("fills in defaults", () => {
+    const parsed = parseBenchmarkConfig({
+      contenders: [
+        { name: "Bot", bot: "threshold" },
+        { name: "LLM", provider: { baseURL: "mock://" } },
+      ],
+    });
+
+    expect(parsed).toMatchObject({
+      difficulty: "normal",
+      seed: 1,
+      count: 10,
+      maxTime: 30 * 60 * 1000,
+      eventsEnabled: true,
+    });
+    expect(parsed.scenario.id).toBe("mars");
+    expect(parsed.contenders[1]).toMatchObject({
+      provider: { baseURL: "mock://", apiKey: "", jsonMode: true },
+      model: { model: "gpt-4o-2024-11-20" },
+      prompt: { profile: "balanced" },
+      instructions: "",
+      planning: { interval: 5000 },
+    });
+  });
+
+  it("reads a contender's strategy profile and templates", () => {
+    const [contender] = config([
+      {
+        name: "LLM",
+        provider: { baseURL: "mock://" },
+        profile: "temperatureRush",
+        templates: { state: "Energy {{energy}}" },
+      },
+    ]).contenders;
+
+    expect(contender).toMatchObject({
+      prompt: {
+        profile: "temperatureRush",
+        templates: { state: "Energy {{energy}}" },
+      },
+    });
+  });
+
+  it("reads API keys from the environment", () => {
+    const contender = {
+      name: "LLM",
+      provider: { baseURL: "https://api.openai.com/v1", apiKeyEnv: "KEY" },
+    };
+
+    expect(
+      parseBenchmarkConfig({ contenders: [contender] }, { KEY: "sk-test" })
+        .contenders[0]
+    ).toMatchObject({ provider: { apiKey: "sk-test" } });
+    expect(() => parseBenchmarkConfig({ contenders: [contender] })).toThrow(
+      "contenders[0].provider.apiKeyEnv: KEY is not set"
+    );
+  });
+
+  it.each([
+    [{ contenders: [] }, "contenders must be a non-empty array"],
+    [{ contenders: [{ name: "A" }] }, 'contenders[0] needs a "bot"'],
+    [
+      { contenders: [{ name: "A", bot: "chess" }] },
+      "contenders[0].bot must be one of",
+    ],
+    [
+      {
+        contenders: [
+          { name: "A", bot: "threshold" },
+          { name: "A", bot: "lookahead" },
+        ],
+      },
+      'Two contenders are named "A"',
+    ],
+    [
+      {
+        contenders: [
+          { name: "A", provider: { baseURL: "mock://" }, profile: "yolo" },
+        ],
+      },
+      "contenders[0].profile must be one of",
+    ],
+    [
+      {
+        contenders: [
+          {
+            name: "A",
+            provider: { baseURL: "mock://" },
+            templates: { system: "{{oxygen}}" },
+          },
+        ],
+      },
+      "Unknown variable {{oxygen}} in the system template",
+    ],
+    [
+      {
+        contenders: [
+          {
+            name: "A",
+            provider: { baseURL: "mock://" },
+            model: { temperature: "0.2" },
+          },
+        ],
+      },
+      "contenders[0].model.temperature must be a number from 0 to 2",
+    ],
+    [
+      {
+        contenders: [
+          {
+            name: "A",
+            provider: { baseURL: "mock://" },
+            model: { max_tokens: 100 },
+          },
+        ],
+      },
+      "contenders[0].model.max_tokens is not a model setting",
+    ],
+    [
+      { count: 0, contenders: [{ name: "A", bot: "threshold" }] },
+      "count must be an integer >= 1",
+    ],
+    [
+      { difficulty: "custom", contenders: [{ name: "A", bot: "threshold" }] },
+      "difficulty must be easy, normal or hard",
+    ],
+  ])("rejects %j", (raw, message) => {
+    expect(() => parseBenchmarkConfig(raw)).toThrow(message);
+  });
+});
+
+describe("leaderboard", () => {
+  it("ranks by win rate, then median time to win, then time critical", () => {
+    const slow = summarizeContender("slow", [
+      game("won", 900),
+      game("won", 800),
+    ]);
+    const fast = summarizeContender("fast", [
+      game("won", 500),
+      game("lost", 100),
+    ]);
+    const risky = summarizeContender("risky", [
+      game("won", 500, 0.5),
+      game("lost", 100, 0.5),
+    ]);
+    const slower = summarizeContender("slower", [
+      game("won", 600),
+      game("timeout", 1000),
+    ]);
+
+    expect(
+      [slower, risky, fast, slow].sort(compareResults).map((r) => r.name)
+    ).toEqual(["slow", "fast", "risky", "slower"]);
+    expect(slow.medianTimeToWin).toBe(800);
+  });
+});
+
+describe("runBenchmark", () => {
+  it("plays every contender on the same seeds", async () => {
+    const report = await runBenchmark(
+      config([
+        { name: "Greedy", bot: "threshold" },
+        { name: "Greedy again", bot: "threshold" },
+      ])
+    );
+
+    const [first, second] = report.leaderboard;
+    expect(first.games.map((g) => g.seed)).toEqual([1, 2]);
+    expect(
+      second.games.map(({ outcome, time }) => ({ outcome, time }))
+    ).toEqual(first.games.map(({ outcome, time }) => ({ outcome, time })));
+  });
+
+  it("counts the tokens of LLM contenders", async () => {
+    const report = await runBenchmark(
+      config(
+        [
+          {
+            name: "Mock",
+            provider: { baseURL: "mock://" },
+            model: { model: "mock" },
+          },
+        ],
+        { count: 1, maxTime: 20 }
+      )
+    );
+
+    const [{ usage, games, profile }] = report.leaderboard;
+    expect(profile).toBe("balanced");
+    expect(usage.calls).toBeGreaterThan(1);
+    expect(usage.promptTokens).toBeGreaterThan(0);
+    expect(usage.unpriced).toBe(usage.calls);
+    expect(games[0].usage).toEqual(usage);
+    expect(formatBenchmarkMarkdown(report)).toContain(
+      "| 1 | Mock | Balanced | 0.0% (0/1) |"
+    );
+  });
+});
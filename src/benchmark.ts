@@ -0,0 +1,485 @@
+import { GameAgent, type Agent } from "./agent";
+import { BOTS } from "./bots";
+import { DIFFICULTY_PRESETS, getPresetSettings } from "./difficulty";
+import {
+  createInitialState,
+  isGameOver,
+  step,
+  toGameState,
+  type EngineState,
+} from "./engine";
+import { formatCost } from "./format";
+import { isRecord } from "./json";
+import {
+  DEFAULT_AGENT_MODEL,
+  createProvider,
+  type ModelConfig,
+  type ProviderConfig,
+} from "./llm";
+import { criticalShare } from "./observer";
+import {
+  DEFAULT_PROMPT_SETTINGS,
+  STRATEGY_PROFILES,
+  validateTemplates,
+  type PromptSettings,
+  type PromptTemplates,
+} from "./promptTemplates";
+import { SCENARIOS } from "./scenario";
+import type { DifficultyPreset, Scenario } from "./schema";
+import {
+  DEFAULT_PLANNING,
+  TICK_INTERVAL,
+  agentFeedback,
+  agentRequestDue,
+  createSession,
+  sessionReducer,
+  type PlanningSettings,
+} from "./session";
+import { DEFAULT_SIMULATION_OPTIONS, percentile } from "./simulation";
+import { UsageMeter, addTotals, emptyTotals, type UsageTotals } from "./usage";
+
+// Agent vs. agent benchmarks: LLM agent configurations and rule-based bots
+// play the same seeds, so every contender meets the same event rolls, through
+// the same session clock as the browser game. Results are ranked into a
+// leaderboard.
+
+export class BenchmarkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BenchmarkError";
+  }
+}
+
+export type ContenderConfig =
+  | { name: string; bot: string; planning: PlanningSettings }
+  | {
+      name: string;
+      provider: ProviderConfig;
+      model: ModelConfig;
+      prompt: PromptSettings;
+      // Added to the end of the agent's system prompt
+      instructions: string;
+      planning: PlanningSettings;
+    };
+
+export interface BenchmarkConfig {
+  scenario: Scenario;
+  difficulty: DifficultyPreset;
+  // Game i of every contender uses seed + i
+  seed: number;
+  count: number;
+  // Game time before a game counts as a timeout
+  maxTime: number;
+  eventsEnabled: boolean;
+  contenders: ContenderConfig[];
+}
+
+export interface BenchmarkGame {
+  seed: number;
+  outcome: "won" | "lost" | "timeout";
+  time: number;
+  // Share of ticks with the critical countdown running
+  criticalShare: number;
+  usage: UsageTotals;
+}
+
+export interface ContenderResult {
+  name: string;
+  // Strategy profile of LLM contenders, null for bots
+  profile: string | null;
+  games: BenchmarkGame[];
+  wins: number;
+  winRate: number;
+  medianTimeToWin: number | null;
+  // Mean over the games
+  criticalShare: number;
+  usage: UsageTotals;
+}
+
+export interface BenchmarkReport {
+  scenario: string;
+  difficulty: DifficultyPreset;
+  seed: number;
+  count: number;
+  maxTime: number;
+  eventsEnabled: boolean;
+  // Best first, see compareResults
+  leaderboard: ContenderResult[];
+}
+
+// Reads a benchmark config file. `apiKeyEnv` names the environment variable
+// holding a contender's API key, so keys stay out of the file.
+export function parseBenchmarkConfig(
+  raw: unknown,
+  env: Record<string, string | undefined> = {}
+): BenchmarkConfig {
+  if (!isRecord(raw)) throw new BenchmarkError("The config must be an object");
+
+  const integer = (key: string, fallback: number, min: number) => {
+    const value = raw[key] ?? fallback;
+    if (typeof value !== "number" || !Number.isInteger(value) || value < min) {
+      throw new BenchmarkError(`${key} must be an integer >= ${min}`);
+    }
+    return value;
+  };
+
+  const scenarioId = raw.scenario ?? "mars";
+  const scenario =
+    typeof scenarioId === "string" ? SCENARIOS[scenarioId] : undefined;
+  if (!scenario) {
+    throw new BenchmarkError(
+      `scenario must be one of ${Object.keys(SCENARIOS).join(", ")}`
+    );
+  }
+  const difficulty = DIFFICULTY_PRESETS.find(
+    (preset) => preset === (raw.difficulty ?? "normal")
+  );
+  if (!difficulty || difficulty === "custom") {
+    throw new BenchmarkError(`difficulty must be easy, normal or hard`);
+  }
+  const eventsEnabled = raw.eventsEnabled ?? true;
+  if (typeof eventsEnabled !== "boolean") {
+    throw new BenchmarkError("eventsEnabled must be true or false");
+  }
+  if (!Array.isArray(raw.contenders) || raw.contenders.length === 0) {
+    throw new BenchmarkError("contenders must be a non-empty array");
+  }
+
+  const contenders = raw.contenders.map((contender: unknown, i: number) =>
+    parseContender(contender, `contenders[${i}]`, env)
+  );
+  const names = contenders.map((c) => c.name);
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  if (duplicate) {
+    throw new BenchmarkError(`Two contenders are named "${duplicate}"`);
+  }
+
+  return {
+    scenario,
+    difficulty,
+    seed: integer("seed", 1, -Infinity),
+    count: integer("count", 10, 1),
+    maxTime:
+      integer("maxTime", DEFAULT_SIMULATION_OPTIONS.maxTime / 1000, 1) * 1000,
+    eventsEnabled,
+    contenders,
+  };
+}
+
+function parseContender(
+  raw: unknown,
+  path: string,
+  env: Record<string, string | undefined>
+): ContenderConfig {
+  if (!isRecord(raw)) throw new BenchmarkError(`${path} must be an object`);
+  const { name } = raw;
+  if (typeof name !== "string" || name === "") {
+    throw new BenchmarkError(`${path}.name must be a non-empty string`);
+  }
+  const planning = parsePlanning(raw.planning, `${path}.planning`);
+
+  const { bot } = raw;
+  if (bot !== undefined) {
+    if (typeof bot !== "string" || !BOTS[bot]) {
+      throw new BenchmarkError(
+        `${path}.bot must be one of ${Object.keys(BOTS).join(", ")}`
+      );
+    }
+    return { name, bot, planning };
+  }
+
+  const { provider } = raw;
+  if (!isRecord(provider) || typeof provider.baseURL !== "string") {
+    throw new BenchmarkError(
+      `${path} needs a "bot" or a "provider" with a baseURL`
+    );
+  }
+  const profile = raw.profile ?? DEFAULT_PROMPT_SETTINGS.profile;
+  if (
+    typeof profile !== "string" ||
+    !Object.keys(STRATEGY_PROFILES).includes(profile)
+  ) {
+    throw new BenchmarkError(
+      `${path}.profile must be one of ${Object.keys(STRATEGY_PROFILES).join(
+        ", "
+      )}`
+    );
+  }
+  const templates = parseTemplates(raw.templates, `${path}.templates`);
+
+  const { apiKeyEnv } = provider;
+  if (apiKeyEnv !== undefined && typeof apiKeyEnv !== "string") {
+    throw new BenchmarkError(`${path}.provider.apiKeyEnv must be a string`);
+  }
+  const apiKey = apiKeyEnv ? env[apiKeyEnv] : "";
+  if (apiKey === undefined) {
+    throw new BenchmarkError(
+      `${path}.provider.apiKeyEnv: ${apiKeyEnv} is not set`
+    );
+  }
+  const jsonMode = provider.jsonMode ?? true;
+  if (typeof jsonMode !== "boolean") {
+    throw new BenchmarkError(`${path}.provider.jsonMode must be true or false`);
+  }
+  return {
+    name,
+    provider: { baseURL: provider.baseURL, apiKey, jsonMode },
+    model: parseModel(raw.model, `${path}.model`),
+    prompt: { profile, templates },
+    instructions: typeof raw.instructions === "string" ? raw.instructions : "",
+    planning,
+  };
+}
+
+// Unset fields keep the defaults, as in the browser game
+function parsePlanning(raw: unknown, path: string): PlanningSettings {
+  if (raw === undefined) return { ...DEFAULT_PLANNING };
+  if (!isRecord(raw)) throw new BenchmarkError(`${path} must be an object`);
+  const { interval, replanOnCritical, replanOnNegativeEvent } = {
+    ...DEFAULT_PLANNING,
+    ...raw,
+  };
+  if (typeof interval !== "number" || !(interval >= TICK_INTERVAL)) {
+    throw new BenchmarkError(
+      `${path}.interval must be at least ${TICK_INTERVAL}`
+    );
+  }
+  if (typeof replanOnCritical !== "boolean") {
+    throw new BenchmarkError(`${path}.replanOnCritical must be true or false`);
+  }
+  if (typeof replanOnNegativeEvent !== "boolean") {
+    throw new BenchmarkError(
+      `${path}.replanOnNegativeEvent must be true or false`
+    );
+  }
+  return { interval, replanOnCritical, replanOnNegativeEvent };
+}
+
+// Templates left out keep the defaults
+function parseTemplates(raw: unknown, path: string): PromptTemplates {
+  if (raw === undefined) return { ...DEFAULT_PROMPT_SETTINGS.templates };
+  if (!isRecord(raw)) throw new BenchmarkError(`${path} must be an object`);
+  const { system, state } = { ...DEFAULT_PROMPT_SETTINGS.templates, ...raw };
+  if (typeof system !== "string" || typeof state !== "string") {
+    throw new BenchmarkError(`${path} must hold strings`);
+  }
+  const templates = { system, state };
+  const errors = validateTemplates(templates);
+  if (errors.length > 0) {
+    throw new BenchmarkError(`${path}: ${errors.join("; ")}`);
+  }
+  return templates;
+}
+
+// Unset fields keep the agent's defaults
+function parseModel(raw: unknown, path: string): ModelConfig {
+  if (raw === undefined) return { ...DEFAULT_AGENT_MODEL };
+  if (!isRecord(raw)) throw new BenchmarkError(`${path} must be an object`);
+  const unknown = Object.keys(raw).find(
+    (key) => !Object.keys(DEFAULT_AGENT_MODEL).includes(key)
+  );
+  if (unknown) {
+    throw new BenchmarkError(
+      `${path}.${unknown} is not a model setting, use model, temperature or maxTokens`
+    );
+  }
+
+  const { model, temperature, maxTokens } = { ...DEFAULT_AGENT_MODEL, ...raw };
+  if (typeof model !== "string" || model === "") {
+    throw new BenchmarkError(`${path}.model must be a non-empty string`);
+  }
+  if (
+    typeof temperature !== "number" ||
+    !(temperature >= 0 && temperature <= 2)
+  ) {
+    throw new BenchmarkError(
+      `${path}.temperature must be a number from 0 to 2`
+    );
+  }
+  if (!Number.isInteger(maxTokens) || maxTokens < 1) {
+    throw new BenchmarkError(`${path}.maxTokens must be an integer >= 1`);
+  }
+  return { model, temperature, maxTokens };
+}
+
+function createContender(config: ContenderConfig, meter: UsageMeter): Agent {
+  if ("bot" in config) return BOTS[config.bot]();
+  return new GameAgent(
+    meter.meter(createProvider(config.provider), "agent"),
+    config.model,
+    config.prompt,
+    config.instructions
+  );
+}
+
+// Plays one game the way the browser does, without waiting for real time.
+// The clock starts with the agent's first request rather than a click.
+export async function playGame(
+  agent: Agent,
+  game: EngineState,
+  planning: PlanningSettings,
+  maxTime: number
+): Promise<Omit<BenchmarkGame, "usage">> {
+  let session = sessionReducer(
+    createSession({ ...game, gameStarted: true }, planning),
+    { type: "agentStart" }
+  );
+  const snapshots: { criticalTimer: number | null }[] = [];
+  let requestId = 0;
+
+  while (!isGameOver(session.game) && session.game.time < maxTime) {
+    if (agentRequestDue(session)) {
+      requestId++;
+      const state = toGameState(session.game);
+      const feedback = agentFeedback(session);
+      session = sessionReducer(session, { type: "agentRequest", requestId });
+      const plan = await agent.getNextPlan(state, feedback);
+      session = sessionReducer(session, { type: "agentPlan", requestId, plan });
+      continue;
+    }
+    session = sessionReducer(session, { type: "tick", count: 1 });
+    snapshots.push({
+      criticalTimer: session.game.critical
+        ? session.game.countdownSeconds
+        : null,
+    });
+  }
+
+  const { game: final } = session;
+  return {
+    seed: game.seed,
+    outcome: final.gameWon ? "won" : final.gameLost ? "lost" : "timeout",
+    time: final.time,
+    criticalShare: criticalShare(snapshots) ?? 0,
+  };
+}
+
+export function summarizeContender(
+  name: string,
+  games: BenchmarkGame[],
+  profile: string | null = null
+): ContenderResult {
+  const winTimes = games
+    .filter((g) => g.outcome === "won")
+    .map((g) => g.time)
+    .sort((a, b) => a - b);
+  return {
+    name,
+    profile,
+    games,
+    wins: winTimes.length,
+    winRate: games.length > 0 ? winTimes.length / games.length : 0,
+    medianTimeToWin: winTimes.length > 0 ? percentile(winTimes, 0.5) : null,
+    criticalShare:
+      games.reduce((sum, g) => sum + g.criticalShare, 0) /
+      Math.max(1, games.length),
+    usage: games.map((g) => g.usage).reduce(addTotals, emptyTotals()),
+  };
+}
+
+// Higher win rate first, then faster median wins, less time critical and
+// lower cost
+export function compareResults(a: ContenderResult, b: ContenderResult) {
+  return (
+    b.winRate - a.winRate ||
+    (a.medianTimeToWin ?? Infinity) - (b.medianTimeToWin ?? Infinity) ||
+    a.criticalShare - b.criticalShare ||
+    a.usage.cost - b.usage.cost
+  );
+}
+
+export async function runBenchmark(
+  config: BenchmarkConfig,
+  // Called after every game, e.g. to show progress
+  onGame: (contender: string, game: BenchmarkGame) => void = () => {}
+): Promise<BenchmarkReport> {
+  const results: ContenderResult[] = [];
+  for (const contender of config.contenders) {
+    const games: BenchmarkGame[] = [];
+    for (let i = 0; i < config.count; i++) {
+      const seed = (config.seed + i) | 0;
+      const meter = new UsageMeter();
+      const game = step(
+        createInitialState(seed, config.scenario, {
+          preset: config.difficulty,
+          settings: getPresetSettings(config.difficulty, config.scenario),
+        }),
+        { type: "setEventsEnabled", enabled: config.eventsEnabled },
+        0
+      );
+      const result = {
+        ...(await playGame(
+          createContender(contender, meter),
+          game,
+          contender.planning,
+          config.maxTime
+        )),
+        usage: meter.totals(),
+      };
+      games.push(result);
+      onGame(contender.name, result);
+    }
+    results.push(
+      summarizeContender(
+        contender.name,
+        games,
+        "prompt" in contender ? contender.prompt.profile : null
+      )
+    );
+  }
+
+  return {
+    scenario: config.scenario.id,
+    difficulty: config.difficulty,
+    seed: config.seed,
+    count: config.count,
+    maxTime: config.maxTime,
+    eventsEnabled: config.eventsEnabled,
+    leaderboard: [...results].sort(compareResults),
+  };
+}
+
+export function formatBenchmarkMarkdown(report: BenchmarkReport): string {
+  const secs = (ms: number | null) =>
+    ms === null ? "–" : `${(ms / 1000).toFixed(1)}s`;
+  const pct = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+  return [
+    "# Benchmark",
+    "",
+    `Scenario ${report.scenario} (${report.difficulty}), ${
+      report.count
+    } games per contender on seeds ${report.seed}..${
+      report.seed + report.count - 1
+    }, timeout after ${secs(report.maxTime)}${
+      report.eventsEnabled ? "" : ", events off"
+    }.`,
+    "",
+    "| # | Contender | Profile | Win rate | Median time to win | Time critical | Tokens | Cost |",
+    "|---|---|---|---|---|---|---|---|",
+    ...report.leaderboard.map(
+      (r, i) =>
+        `| ${i + 1} | ${r.name} | ${
+          r.profile ? STRATEGY_PROFILES[r.profile].name : "–"
+        } | ${pct(r.winRate)} (${r.wins}/${r.games.length}) | ${secs(
+          r.medianTimeToWin
+        )} | ${pct(r.criticalShare)} | ${
+          r.usage.promptTokens + r.usage.completionTokens
+        } | ${r.usage.unpriced > 0 ? "not priced" : formatCost(r.usage.cost)} |`
+    ),
+    "",
+    "## Games",
+    "",
+    "| Contender | Seed | Outcome | Time | Time critical |",
+    "|---|---|---|---|---|",
+    ...report.leaderboard.flatMap((r) =>
+      r.games.map(
+        (g) =>
+          `| ${r.name} | ${g.seed} | ${g.outcome} | ${secs(g.time)} | ${pct(
+            g.criticalShare
+          )} |`
+      )
+    ),
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,249 @@
+import type { Agent } from "./agent";
+import {
+  canChoose,
+  canPurchase,
+  createInitialState,
+  getActionEnergyCost,
+  getEvent,
+  getMultiplier,
+  getUpgradeCost,
+  isCritical,
+  isGameOver,
+  step,
+  winProgress,
+  type EngineState,
+} from "./engine";
+import { toPlanStep, type PlanStep } from "./plan";
+import {
+  RESOURCE_TYPES,
+  type GameAction,
+  type GameState,
+  type ResourceType,
+  type Upgrade,
+} from "./schema";
+
+const ACTIONS_PER_BATCH = 10;
+// Matches the 500ms action loop in the UI
+const ACTION_INTERVAL = 500;
+
+// Rebuilds an engine state from what the agents see, so bots can simulate
+// their own plans with the real rules. Events are left out since they can't
+// be predicted.
+export function toEngineState(gameState: GameState): EngineState {
+  // The scenario is already adjusted, so the difficulty is only carried
+  // along
+  const initial = createInitialState(0, gameState.scenario);
+  return {
+    ...initial,
+    difficulty: gameState.difficulty,
+    resources: { ...gameState.resources },
+    credits: gameState.credits,
+    upgrades: gameState.upgrades.map((u) => ({ ...u })),
+    buildings: gameState.buildings.map((b) => ({ ...b })),
+    gameStarted: true,
+    gameWon: gameState.gameWon,
+    gameLost: gameState.gameLost,
+    critical: gameState.criticalTimer !== null,
+    countdownSeconds: gameState.criticalTimer ?? initial.countdownSeconds,
+    activeEvents: gameState.activeEvents.map(({ id, remaining, scale }) => ({
+      id,
+      endsAt: remaining * 1000,
+      scale,
+    })),
+    pendingChoice: gameState.pendingChoice && {
+      eventId: gameState.pendingChoice.eventId,
+      expiresAt: gameState.pendingChoice.remaining * 1000,
+    },
+  };
+}
+
+// Answers a waiting event: the affordable choice that softens a bad event
+// the most, or makes a good one strongest
+export function chooseResponse(state: EngineState): GameAction | null {
+  const event =
+    state.pendingChoice &&
+    getEvent(state.scenario, state.pendingChoice.eventId);
+  if (!event) return null;
+  const sign = event.severity === "negative" ? 1 : -1;
+  const [best] = event.choices
+    .filter((c) => canChoose(state, c.id))
+    .sort((a, b) => sign * (a.scale - b.scale) || a.cost - b.cost);
+  return best ? { type: "choose", choiceId: best.id } : null;
+}
+
+const generate = (resource: ResourceType): GameAction => ({
+  type: "generate",
+  resource,
+});
+
+const purchase = (upgrade: Upgrade): GameAction => ({
+  type: "purchase",
+  upgradeId: upgrade.id,
+});
+
+const cheapestAffordable = (
+  state: EngineState,
+  filter: (u: Upgrade) => boolean = () => true
+) =>
+  state.upgrades
+    .filter((u) => filter(u) && canPurchase(state, u.id))
+    .sort((a, b) => getUpgradeCost(a) - getUpgradeCost(b))[0];
+
+const furthestBehind = (state: EngineState) => {
+  const progress = (type: ResourceType) =>
+    winProgress(state.resources, state.scenario, type);
+  return (Object.keys(state.scenario.winThresholds) as ResourceType[]).reduce(
+    (lowest, type) => (progress(type) < progress(lowest) ? type : lowest)
+  );
+};
+
+// Base for bots that pick one action at a time. Each batch is planned by
+// simulating the previous picks, so a batch adapts as energy is spent.
+export abstract class RuleBasedAgent implements Agent {
+  abstract readonly name: string;
+
+  abstract chooseAction(state: EngineState): GameAction;
+
+  plan(gameState: GameState): GameAction[] {
+    let state = toEngineState(gameState);
+    const actions: GameAction[] = [];
+    for (let i = 0; i < ACTIONS_PER_BATCH; i++) {
+      const action = chooseResponse(state) ?? this.chooseAction(state);
+      actions.push(action);
+      state = step(state, action, ACTION_INTERVAL);
+    }
+    return actions;
+  }
+
+  async getNextPlan(gameState: GameState): Promise<PlanStep[]> {
+    return this.plan(gameState).map(toPlanStep);
+  }
+}
+
+// Tops up energy and life support below fixed thresholds, buys the cheapest
+// upgrade it can afford, otherwise works on the resource furthest behind
+export class ThresholdGreedyBot extends RuleBasedAgent {
+  readonly name: string = "Threshold Greedy";
+
+  constructor(private energyThreshold = 70, private lifeSupportThreshold = 20) {
+    super();
+  }
+
+  chooseAction(state: EngineState): GameAction {
+    const { resources } = state;
+    if (resources.energy < this.energyThreshold) {
+      return generate("energy");
+    }
+    if (
+      Math.min(resources.oxygen, resources.water) < this.lifeSupportThreshold
+    ) {
+      return generate(resources.oxygen <= resources.water ? "oxygen" : "water");
+    }
+    const upgrade = cheapestAffordable(state);
+    if (upgrade) {
+      return purchase(upgrade);
+    }
+    return generate(furthestBehind(state));
+  }
+}
+
+// Saves credits for the energy upgrades before buying anything else
+export class EnergyFirstBot extends ThresholdGreedyBot {
+  readonly name = "Energy Upgrades First";
+
+  chooseAction(state: EngineState): GameAction {
+    const energyUpgrades = state.upgrades.filter(
+      (u) => u.resourceType === "energy" && u.level === 0
+    );
+    const energyUpgrade = cheapestAffordable(
+      state,
+      (u) => u.resourceType === "energy"
+    );
+    if (energyUpgrade) {
+      return purchase(energyUpgrade);
+    }
+
+    const action = super.chooseAction(state);
+    // Don't spend on other upgrades while energy ones are still missing
+    if (action.type === "purchase" && energyUpgrades.length > 0) {
+      return generate(furthestBehind(state));
+    }
+    return action;
+  }
+}
+
+// Tries every possible action, simulates the next few seconds of drain with
+// the engine (following the threshold bot afterwards) and keeps the one with
+// the best resulting score
+export class LookaheadPlanner extends RuleBasedAgent {
+  readonly name = "Lookahead Planner";
+  private policy = new ThresholdGreedyBot();
+
+  constructor(private horizon = 6000) {
+    super();
+  }
+
+  chooseAction(state: EngineState): GameAction {
+    const energyCost = getActionEnergyCost(state.upgrades, state.scenario);
+    const candidates: GameAction[] = [
+      ...RESOURCE_TYPES.filter(
+        (type) => type === "energy" || state.resources.energy >= energyCost
+      ).map(generate),
+      ...state.upgrades.filter((u) => canPurchase(state, u.id)).map(purchase),
+    ];
+
+    let best = candidates[0];
+    let bestScore = -Infinity;
+    candidates.forEach((candidate) => {
+      const score = this.score(this.rollout(state, candidate));
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    });
+    return best;
+  }
+
+  private rollout(state: EngineState, action: GameAction): EngineState {
+    let next = step(state, action, ACTION_INTERVAL);
+    for (let t = ACTION_INTERVAL; t < this.horizon; t += ACTION_INTERVAL) {
+      if (isGameOver(next)) break;
+      next = step(next, this.policy.chooseAction(next), ACTION_INTERVAL);
+    }
+    return next;
+  }
+
+  // Higher is better: roughly minus the number of actions still needed to
+  // win, which values upgrades through their multipliers, plus safety
+  // margins. Energy past 60 barely changes efficiency, so it counts for
+  // nothing and the planner is free to spend it.
+  private score(state: EngineState): number {
+    if (state.gameWon) return Infinity;
+    if (state.gameLost) return -Infinity;
+
+    const { resources, upgrades, scenario } = state;
+    const actionsLeft = (
+      Object.entries(scenario.winThresholds) as [ResourceType, number][]
+    ).reduce(
+      (total, [type, target]) =>
+        total +
+        Math.max(0, target - resources[type]) /
+          (scenario.baseGain[type] * getMultiplier(upgrades, type)),
+      0
+    );
+
+    return (
+      -actionsLeft +
+      Math.min(resources.energy, 60) * 0.15 -
+      Math.max(0, 20 - resources.oxygen) -
+      Math.max(0, 20 - resources.water) -
+      (isCritical(resources, scenario) ? 50 : 0)
+    );
+  }
+}
+
+export const BOTS: Record<string, () => RuleBasedAgent> = {
+  threshold: () => new ThresholdGreedyBot(),
+  energyFirst: () => new EnergyFirstBot(),
+  lookahead: () => new LookaheadPlanner(),
+};
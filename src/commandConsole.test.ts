@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { CommandConsole, MAX_GOALS } from "./commandConsole";
+import { createInitialState, toGameState } from "./engine";
+import { MockProvider } from "./mockProvider";
+import { GameObserver } from "./observer";
+
+const gameState = toGameState(createInitialState(1));
+const metrics = new GameObserver(null).getMetrics();
+
+const reply = (content: object) => ({ content: JSON.stringify(content) });
+
+describe("CommandConsole", () => {
+  let provider: MockProvider;
+  let agent: { goals: readonly string[] };
+  let commands: CommandConsole;
+
+  beforeEach(() => {
+    provider = new MockProvider();
+    agent = { goals: [] };
+    commands = new CommandConsole(provider, undefined, agent);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("turns instructions into standing goals for the agent", async () => {
+    provider.enqueue(
+      reply({
+        reply: "Will do",
+        addGoals: ["Keep energy above 40%", "Save for the Nuclear Generator"],
+      })
+    );
+
+    const result = await commands.send(
+      "keep energy above 40 and save for the Nuclear Generator",
+      gameState,
+      metrics
+    );
+
+    expect(result.text).toBe("Will do");
+    expect(commands.goals.map((g) => g.id)).toEqual([1, 2]);
+    expect(agent.goals).toEqual([
+      "Keep energy above 40%",
+      "Save for the Nuclear Generator",
+    ]);
+    expect(commands.messages.map((m) => m.from)).toEqual(["player", "console"]);
+  });
+
+  it("removes goals by number and lists the rest in the next request", async () => {
+    provider.enqueue(
+      reply({ reply: "Ok", addGoals: ["Goal A", "Goal B"] }),
+      reply({ reply: "Dropped A", removeGoals: [1] }),
+      reply({ reply: "Ok" })
+    );
+
+    await commands.send("a and b", gameState, metrics);
+    const { removed } = await commands.send("forget a", gameState, metrics);
+    await commands.send("what now?", gameState, metrics);
+
+    expect(removed.map((g) => g.text)).toEqual(["Goal A"]);
+    expect(agent.goals).toEqual(["Goal B"]);
+    const { messages } = provider.requests[2];
+    const last = messages[messages.length - 1].content;
+    expect(last).toContain("STANDING GOALS:\n2. Goal B");
+    expect(last).toContain("OBSERVER METRICS");
+    expect(last).toContain(`Resource Stability: ${metrics.stability}`);
+    expect(last).toMatch(/PLAYER: what now\?$/);
+  });
+
+  it("takes quoted goal numbers and reports ones it doesn't have", async () => {
+    provider.enqueue(
+      reply({ reply: "Ok", addGoals: ["Goal A", "Goal B"] }),
+      reply({ reply: "Dropped them", removeGoals: ["2", 7, "x", 1.5] })
+    );
+
+    await commands.send("a and b", gameState, metrics);
+    const result = await commands.send("forget b and 7", gameState, metrics);
+
+    expect(result.removed.map((g) => g.text)).toEqual(["Goal B"]);
+    expect(agent.goals).toEqual(["Goal A"]);
+    expect(result.text).toBe("Dropped them (No goal #7 to remove.)");
+  });
+
+  it("keeps at most MAX_GOALS goals", async () => {
+    provider.enqueue(
+      reply({
+        reply: "Ok",
+        addGoals: Array.from({ length: MAX_GOALS + 3 }, (_, i) => `Goal ${i}`),
+      })
+    );
+
+    await commands.send("lots", gameState, metrics);
+
+    expect(commands.goals).toHaveLength(MAX_GOALS);
+  });
+
+  it("passes on requests to start or stop the agent", async () => {
+    expect(
+      (await commands.send("stop the agent", gameState, metrics)).agent
+    ).toBe("stop");
+    expect(agent.goals).toEqual([]);
+  });
+
+  it.each([
+    [{ fault: "error" as const }, "Couldn't reach the model"],
+    [{ content: "not json" }, "Couldn't understand the model's reply"],
+    [{ content: '{"addGoals":["x"]}' }, "The model's reply had no text"],
+  ])("reports %j without changing the goals", async (step, message) => {
+    provider.enqueue(step);
+
+    const result = await commands.send("do x", gameState, metrics);
+
+    expect(result.text).toContain(message);
+    expect(commands.goals).toEqual([]);
+    expect(commands.messages[1]).toMatchObject({ error: true });
+  });
+});
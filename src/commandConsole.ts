@@ -0,0 +1,268 @@
+import {
+  DEFAULT_OBSERVER_MODEL,
+  type LLMProvider,
+  type Message,
+  type ModelConfig,
+} from "./llm";
+import { isRecord } from "./json";
+import type { ObserverMetrics } from "./observer";
+import {
+  describeDifficulty,
+  describeRules,
+  formatBuildings,
+  formatEvents,
+  formatUpgradeTree,
+} from "./prompts";
+import type { GameState, Scenario } from "./schema";
+
+// The player's chat with the game: instructions become standing goals that
+// the agent is given with every request, and questions are answered from the
+// game state and the observer's metrics.
+
+export interface StandingGoal {
+  id: number;
+  text: string;
+}
+
+export interface ConsoleMessage {
+  from: "player" | "console";
+  text: string;
+  at: number;
+  // The console couldn't answer, e.g. the LLM call failed
+  error: boolean;
+}
+
+export type AgentCommand = "start" | "stop";
+
+export interface ConsoleReply {
+  text: string;
+  added: StandingGoal[];
+  removed: StandingGoal[];
+  // Set when the player asked to start or stop the agent
+  agent: AgentCommand | null;
+}
+
+// Anything whose requests should carry the goals, i.e. the LLM agent
+export interface GoalTarget {
+  goals: readonly string[];
+}
+
+export const MAX_GOALS = 10;
+// Messages shown and kept
+export const MAX_CONSOLE_MESSAGES = 100;
+// Requests sent with their replies, including the current one
+export const HISTORY_TURNS = 4;
+
+const systemPrompt = (
+  scenario: Scenario
+) => `You are the command console of a terraforming game (scenario: ${
+  scenario.name
+}). The player plays alongside an AI agent and talks to you in plain language.
+
+${describeRules(scenario)}
+
+For each player message:
+- Instructions for the agent ("keep energy above 40", "save for the Nuclear Generator") become standing goals. Write each as one short, concrete sentence the agent can check against the game state.
+- Goals the player cancels or that a new instruction replaces are removed by their number.
+- Questions about the game are answered from the current state and the observer metrics. Be brief and use the numbers.
+- "start" or "stop" the agent only when the player asks for it.
+
+Respond with a JSON object:
+{
+  "reply": "What you tell the player",
+  "addGoals": ["Keep energy above 40%"],
+  "removeGoals": [2],
+  "agent": null
+}
+
+"agent" is "start", "stop" or null. Leave "addGoals" and "removeGoals" empty when the message is only a question.`;
+
+export class CommandConsole {
+  private provider: LLMProvider;
+  private model: ModelConfig;
+  private target: GoalTarget | null;
+  private messageHistory: Message[] = [];
+  private scenarioId: string | null = null;
+  private goalList: StandingGoal[] = [];
+  private nextGoalId = 1;
+  private transcript: ConsoleMessage[] = [];
+
+  // `target` gets the goals whenever they change
+  constructor(
+    provider: LLMProvider,
+    model: ModelConfig = DEFAULT_OBSERVER_MODEL,
+    target: GoalTarget | null = null
+  ) {
+    this.provider = provider;
+    this.model = model;
+    this.target = target;
+  }
+
+  get goals(): readonly StandingGoal[] {
+    return this.goalList;
+  }
+
+  get messages(): readonly ConsoleMessage[] {
+    return this.transcript;
+  }
+
+  removeGoal(id: number) {
+    this.setGoals(this.goalList.filter((goal) => goal.id !== id));
+  }
+
+  // Goals and the agent command only change when the reply parses. Failures
+  // come back as an error message rather than a rejection.
+  async send(
+    text: string,
+    gameState: GameState,
+    metrics: ObserverMetrics
+  ): Promise<ConsoleReply> {
+    this.log("player", text, false);
+
+    // The system prompt describes the scenario's rules
+    if (gameState.scenario.id !== this.scenarioId) {
+      this.scenarioId = gameState.scenario.id;
+      this.messageHistory = [
+        { role: "system", content: systemPrompt(gameState.scenario) },
+      ];
+    }
+    this.messageHistory.push({
+      role: "user",
+      content: this.formatRequest(text, gameState, metrics),
+    });
+    const kept = HISTORY_TURNS * 2 - 1;
+    if (this.messageHistory.length > kept + 1) {
+      this.messageHistory = [
+        this.messageHistory[0],
+        ...this.messageHistory.slice(-kept),
+      ];
+    }
+
+    let content: string | null;
+    try {
+      const response = await this.provider.complete({
+        ...this.model,
+        messages: [...this.messageHistory],
+        json: true,
+      });
+      content = response.content;
+    } catch (error) {
+      console.error(`LLM error (${this.provider.name}):`, error);
+      return this.fail(
+        `Couldn't reach the model: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+    if (!content) return this.fail("The model returned no content");
+    this.messageHistory.push({ role: "assistant", content });
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      return this.fail("Couldn't understand the model's reply");
+    }
+    const answer = isRecord(parsed) ? parsed : {};
+    const { reply: replyText, removeGoals, addGoals, agent } = answer;
+    if (typeof replyText !== "string" || replyText.trim() === "") {
+      return this.fail("The model's reply had no text");
+    }
+
+    // Models sometimes quote the numbers
+    const removeIds = (Array.isArray(removeGoals) ? removeGoals : [])
+      .filter((id) => typeof id === "number" || typeof id === "string")
+      .map(Number)
+      .filter(Number.isInteger);
+    const removed = this.goalList.filter((goal) => removeIds.includes(goal.id));
+    const unmatched = removeIds.filter(
+      (id) => !removed.some((goal) => goal.id === id)
+    );
+    const remaining = this.goalList.filter((goal) => !removed.includes(goal));
+    const added = (Array.isArray(addGoals) ? addGoals : [])
+      .filter((goal): goal is string => typeof goal === "string")
+      .map((goal) => goal.trim())
+      .filter(Boolean)
+      .slice(0, MAX_GOALS - remaining.length)
+      .map((goal) => ({ id: this.nextGoalId++, text: goal }));
+    this.setGoals([...remaining, ...added]);
+
+    // The model's text may claim goals were removed that don't exist
+    const note =
+      unmatched.length > 0
+        ? ` (No goal ${unmatched.map((id) => `#${id}`).join(", ")} to remove.)`
+        : "";
+    const reply: ConsoleReply = {
+      text: `${replyText.trim()}${note}`,
+      added,
+      removed,
+      agent: agent === "start" || agent === "stop" ? agent : null,
+    };
+    this.log("console", reply.text, false);
+    return reply;
+  }
+
+  private setGoals(goals: StandingGoal[]) {
+    this.goalList = goals;
+    if (this.target) this.target.goals = goals.map((goal) => goal.text);
+  }
+
+  private fail(text: string): ConsoleReply {
+    this.log("console", text, true);
+    return { text, added: [], removed: [], agent: null };
+  }
+
+  private log(from: ConsoleMessage["from"], text: string, error: boolean) {
+    this.transcript = [
+      ...this.transcript,
+      { from, text, at: Date.now(), error },
+    ].slice(-MAX_CONSOLE_MESSAGES);
+  }
+
+  private formatRequest(
+    text: string,
+    state: GameState,
+    metrics: ObserverMetrics
+  ): string {
+    const trend = (key: string) =>
+      metrics.trends[key] ? ` ${metrics.trends[key]}` : "";
+
+    return `Current Game State:
+
+RESOURCES:
+- Oxygen: ${state.resources.oxygen.toFixed(1)}%${trend("oxygen")}
+- Water: ${state.resources.water.toFixed(1)}%${trend("water")}
+- Temperature: ${state.resources.temperature.toFixed(1)}°C${trend(
+      "temperature"
+    )}
+- Energy: ${state.resources.energy.toFixed(1)}%${trend("energy")}
+
+Difficulty: ${describeDifficulty(state.difficulty)}
+Credits: ${state.credits}${trend("credits")}
+Critical Timer: ${
+      state.criticalTimer !== null
+        ? `${state.criticalTimer}s remaining!`
+        : "safe"
+    }
+
+OBSERVER METRICS (last 5 minutes):
+- Critical: ${metrics.criticalTime}
+- Upgrade Pace: ${metrics.upgradePace}
+- Resource Stability: ${metrics.stability}
+
+${formatUpgradeTree(state.upgrades)}
+
+${formatBuildings(state.buildings, state.upgrades)}
+
+${formatEvents(state)}
+
+STANDING GOALS:
+${
+  this.goalList.length > 0
+    ? this.goalList.map((goal) => `${goal.id}. ${goal.text}`).join("\n")
+    : "None"
+}
+
+PLAYER: ${text}`;
+  }
+}
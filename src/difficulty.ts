@@ -0,0 +1,212 @@
+import { isFiniteNumber, isRecord } from "./json";
+import {
+  RESOURCE_TYPES,
+  type Difficulty,
+  type DifficultyPreset,
+  type DifficultySettings,
+  type Resource,
+  type ResourceType,
+  type Scenario,
+} from "./schema";
+
+// Difficulty presets are relative to the scenario, so they work for any
+// scenario pack. Normal plays the scenario as written.
+
+interface PresetAdjustment {
+  label: string;
+  // Fraction of the way to the win threshold (or the maximum) each resource
+  // starts ahead
+  headStart: number;
+  creditsMultiplier: number;
+  drainMultiplier: number;
+  // Added to the critical threshold
+  criticalThreshold: number;
+  countdownMultiplier: number;
+  eventChanceMultiplier: number;
+  // Fraction of the way from the minimum to each win threshold
+  winThreshold: number;
+}
+
+const PRESETS: Record<Exclude<DifficultyPreset, "custom">, PresetAdjustment> = {
+  easy: {
+    label: "Easy",
+    headStart: 0.1,
+    creditsMultiplier: 3,
+    drainMultiplier: 0.75,
+    criticalThreshold: 0,
+    countdownMultiplier: 1.5,
+    eventChanceMultiplier: 0.6,
+    winThreshold: 0.9,
+  },
+  normal: {
+    label: "Normal",
+    headStart: 0,
+    creditsMultiplier: 1,
+    drainMultiplier: 1,
+    criticalThreshold: 0,
+    countdownMultiplier: 1,
+    eventChanceMultiplier: 1,
+    winThreshold: 1,
+  },
+  hard: {
+    label: "Hard",
+    headStart: 0,
+    creditsMultiplier: 0.5,
+    drainMultiplier: 1.25,
+    criticalThreshold: 5,
+    countdownMultiplier: 2 / 3,
+    eventChanceMultiplier: 1.4,
+    winThreshold: 1,
+  },
+};
+
+export const DIFFICULTY_PRESETS: DifficultyPreset[] = [
+  "easy",
+  "normal",
+  "hard",
+  "custom",
+];
+
+export const difficultyLabel = (preset: DifficultyPreset) =>
+  preset === "custom" ? "Custom" : PRESETS[preset].label;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Settings a preset gives on this scenario. Custom starts out as normal.
+export function getPresetSettings(
+  preset: DifficultyPreset,
+  scenario: Scenario
+): DifficultySettings {
+  const adjustment = PRESETS[preset === "custom" ? "normal" : preset];
+  const { limits } = scenario;
+  const target = (type: ResourceType) =>
+    scenario.winThresholds[type] ?? limits[type].max;
+
+  const initialResources = { ...scenario.initialResources };
+  RESOURCE_TYPES.forEach((type) => {
+    initialResources[type] = round(
+      Math.min(
+        limits[type].max,
+        initialResources[type] +
+          adjustment.headStart * (target(type) - limits[type].min)
+      )
+    );
+  });
+
+  const winThresholds: Partial<Resource> = {};
+  Object.entries(scenario.winThresholds).forEach(([type, threshold]) => {
+    const { min } = limits[type as ResourceType];
+    winThresholds[type as ResourceType] = round(
+      min + (threshold - min) * adjustment.winThreshold
+    );
+  });
+
+  return {
+    initialResources,
+    initialCredits: Math.round(
+      scenario.initialCredits * adjustment.creditsMultiplier
+    ),
+    drainMultiplier: adjustment.drainMultiplier,
+    criticalThreshold:
+      scenario.criticalThreshold + adjustment.criticalThreshold,
+    criticalCountdown: Math.max(
+      1,
+      Math.round(scenario.criticalCountdown * adjustment.countdownMultiplier)
+    ),
+    eventChance: round(
+      Math.min(1, scenario.eventChance * adjustment.eventChanceMultiplier)
+    ),
+    winThresholds,
+  };
+}
+
+export const defaultDifficulty = (scenario: Scenario): Difficulty => ({
+  preset: "normal",
+  settings: getPresetSettings("normal", scenario),
+});
+
+// The scenario a game with these settings is played on
+export function applyDifficulty(
+  scenario: Scenario,
+  settings: DifficultySettings
+): Scenario {
+  const baseDrain = { ...scenario.baseDrain };
+  RESOURCE_TYPES.forEach((type) => {
+    baseDrain[type] *= settings.drainMultiplier;
+  });
+  return {
+    ...scenario,
+    initialResources: { ...settings.initialResources },
+    initialCredits: settings.initialCredits,
+    baseDrain,
+    criticalThreshold: settings.criticalThreshold,
+    criticalCountdown: settings.criticalCountdown,
+    eventChance: settings.eventChance,
+    winThresholds: { ...settings.winThresholds },
+  };
+}
+
+// Brings custom settings from a form or a save file into range, falling back
+// to the scenario's normal settings for anything missing or invalid. Win
+// thresholds can only be set for resources the scenario already has them for.
+export function sanitizeSettings(
+  input: unknown,
+  scenario: Scenario
+): DifficultySettings {
+  const normal = getPresetSettings("normal", scenario);
+  const raw = isRecord(input) ? input : {};
+  const value = (
+    source: unknown,
+    key: string,
+    fallback: number,
+    min: number,
+    max: number
+  ) => {
+    const n = isRecord(source) ? source[key] : undefined;
+    return isFiniteNumber(n) ? Math.min(max, Math.max(min, n)) : fallback;
+  };
+
+  const initialResources = { ...normal.initialResources };
+  RESOURCE_TYPES.forEach((type) => {
+    const { min, max } = scenario.limits[type];
+    initialResources[type] = value(
+      raw.initialResources,
+      type,
+      normal.initialResources[type],
+      min,
+      max
+    );
+  });
+
+  const winThresholds: Partial<Resource> = {};
+  Object.entries(normal.winThresholds).forEach(([type, threshold]) => {
+    const { min, max } = scenario.limits[type as ResourceType];
+    winThresholds[type as ResourceType] = value(
+      raw.winThresholds,
+      type,
+      threshold,
+      min,
+      max
+    );
+  });
+
+  return {
+    initialResources,
+    initialCredits: Math.round(
+      value(raw, "initialCredits", normal.initialCredits, 0, Infinity)
+    ),
+    drainMultiplier: value(raw, "drainMultiplier", 1, 0, 10),
+    criticalThreshold: value(
+      raw,
+      "criticalThreshold",
+      normal.criticalThreshold,
+      0,
+      100
+    ),
+    criticalCountdown: Math.round(
+      value(raw, "criticalCountdown", normal.criticalCountdown, 1, 600)
+    ),
+    eventChance: value(raw, "eventChance", normal.eventChance, 0, 1),
+    winThresholds,
+  };
+}
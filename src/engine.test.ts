@@ -0,0 +1,455 @@
+import { describe, expect, it } from "vitest";
+import {
+  COUNTDOWN_INTERVAL,
+  DRAIN_INTERVAL,
+  EVENT_DECISION_TIME,
+  EVENT_INTERVAL,
+  clampResources,
+  createInitialState,
+  getActionResult,
+  getEventScale,
+  getMultiplier,
+  isWon,
+  step,
+  type EngineState,
+} from "./engine";
+import { DEFAULT_SCENARIO } from "./scenario";
+import type { EventDefinition, GameAction, Resource, Scenario } from "./schema";
+
+const scenario = DEFAULT_SCENARIO;
+
+// A started game with the given resources and none of the critical ones low
+const startedState = (
+  resources: Partial<Resource> = {},
+  base: Scenario = scenario
+): EngineState => ({
+  ...createInitialState(1, base),
+  gameStarted: true,
+  resources: {
+    oxygen: 50,
+    water: 50,
+    temperature: 0,
+    energy: 100,
+    ...resources,
+  },
+});
+
+const withLevels = (state: EngineState, levels: Record<string, number>) => ({
+  ...state,
+  upgrades: state.upgrades.map((u) => ({ ...u, level: levels[u.id] ?? 0 })),
+});
+
+// The Mars scenario with a single event that fires on every roll
+const eventScenario = (event: Partial<EventDefinition>): Scenario => ({
+  ...scenario,
+  eventChance: 1,
+  events: [
+    {
+      id: "test_event",
+      title: "Test Event",
+      description: "",
+      severity: "negative",
+      effect: {},
+      duration: 0,
+      ongoing: {},
+      choices: [],
+      followUps: [],
+      weights: { early: 1, mid: 1, late: 1 },
+      cooldown: 0,
+      ...event,
+    },
+  ],
+});
+
+const withEvents = (state: EngineState) =>
+  step(state, { type: "setEventsEnabled", enabled: true }, 0);
+
+describe("generate", () => {
+  it("scales gains by the energy level", () => {
+    const full = step(
+      startedState({ energy: 100 }),
+      { type: "generate", resource: "oxygen" },
+      0
+    );
+    const half = step(
+      startedState({ energy: 50 }),
+      { type: "generate", resource: "oxygen" },
+      0
+    );
+
+    expect(full.resources.oxygen).toBeCloseTo(50 + scenario.baseGain.oxygen);
+    expect(half.resources.oxygen).toBeCloseTo(
+      50 + scenario.baseGain.oxygen / 2
+    );
+  });
+
+  it("spends energy on everything but energy", () => {
+    const water = step(
+      startedState({ energy: 60 }),
+      { type: "generate", resource: "water" },
+      0
+    );
+    const energy = step(
+      startedState({ energy: 60 }),
+      { type: "generate", resource: "energy" },
+      0
+    );
+
+    expect(water.resources.energy).toBe(60 - scenario.actionEnergyCost);
+    expect(energy.resources.energy).toBe(60 + scenario.baseGain.energy);
+  });
+
+  it("does nothing without the energy to pay for it", () => {
+    const state = startedState({ energy: scenario.actionEnergyCost - 1 });
+    const next = step(state, { type: "generate", resource: "oxygen" }, 0);
+
+    expect(next.resources).toEqual(state.resources);
+  });
+
+  it("earns credits per action", () => {
+    const next = step(
+      startedState(),
+      { type: "generate", resource: "energy" },
+      0
+    );
+
+    expect(next.credits).toBe(scenario.initialCredits + scenario.actionCredits);
+  });
+});
+
+describe("clampResources", () => {
+  it("keeps percentages within 0-100 and temperature within -60-50", () => {
+    expect(
+      clampResources(
+        { oxygen: 120, water: -5, temperature: 80, energy: 101 },
+        scenario
+      )
+    ).toEqual({ oxygen: 100, water: 0, temperature: 50, energy: 100 });
+    expect(
+      clampResources(
+        { oxygen: 0, water: 100, temperature: -90, energy: -1 },
+        scenario
+      )
+    ).toEqual({ oxygen: 0, water: 100, temperature: -60, energy: 0 });
+  });
+
+  it("applies to generated resources", () => {
+    const next = step(
+      startedState({ oxygen: 99, energy: 100 }),
+      { type: "generate", resource: "oxygen" },
+      0
+    );
+
+    expect(next.resources.oxygen).toBe(100);
+  });
+});
+
+describe("critical countdown", () => {
+  it("starts when a critical resource reaches 5%", () => {
+    const next = step(
+      startedState({ oxygen: 5 }),
+      { type: "generate", resource: "energy" },
+      0
+    );
+
+    expect(next.critical).toBe(true);
+    expect(next.countdownSeconds).toBe(30);
+  });
+
+  it("ignores temperature", () => {
+    const next = step(
+      startedState({ temperature: -60 }),
+      { type: "generate", resource: "energy" },
+      0
+    );
+
+    expect(next.critical).toBe(false);
+  });
+
+  it("loses the game after 30 seconds", () => {
+    const critical = step(
+      startedState({ oxygen: 2 }),
+      { type: "generate", resource: "energy" },
+      0
+    );
+
+    const almost = step(critical, null, 29 * COUNTDOWN_INTERVAL);
+    expect(almost.gameLost).toBe(false);
+    expect(almost.countdownSeconds).toBe(1);
+
+    const lost = step(almost, null, COUNTDOWN_INTERVAL);
+    expect(lost.gameLost).toBe(true);
+  });
+
+  it("resets once the resource recovers", () => {
+    const critical = step(
+      startedState({ water: 4 }),
+      { type: "generate", resource: "energy" },
+      0
+    );
+    const waiting = step(critical, null, 10 * COUNTDOWN_INTERVAL);
+    expect(waiting.countdownSeconds).toBe(20);
+
+    const recovered = step(
+      { ...waiting, resources: { ...waiting.resources, water: 50 } },
+      { type: "generate", resource: "energy" },
+      0
+    );
+    expect(recovered.critical).toBe(false);
+    expect(recovered.countdownSeconds).toBe(30);
+  });
+});
+
+describe("win check", () => {
+  it("needs every threshold", () => {
+    expect(
+      isWon({ oxygen: 100, water: 100, temperature: 15, energy: 0 }, scenario)
+    ).toBe(true);
+    expect(
+      isWon(
+        { oxygen: 100, water: 99.9, temperature: 50, energy: 100 },
+        scenario
+      )
+    ).toBe(false);
+  });
+
+  it("ends the game on the action that reaches the thresholds", () => {
+    const next = step(
+      startedState({ oxygen: 100, water: 99, temperature: 15, energy: 100 }),
+      { type: "generate", resource: "water" },
+      0
+    );
+
+    expect(next.gameWon).toBe(true);
+    expect(step(next, null, DRAIN_INTERVAL)).toEqual(next);
+  });
+});
+
+describe("getMultiplier", () => {
+  it("is 1 without upgrades", () => {
+    expect(getMultiplier(startedState().upgrades, "oxygen")).toBe(1);
+  });
+
+  it("multiplies the upgrades for a resource", () => {
+    const { upgrades } = withLevels(startedState(), {
+      oxygen1: 1,
+      oxygen2: 1,
+      water1: 1,
+    });
+
+    expect(getMultiplier(upgrades, "oxygen")).toBeCloseTo(1.2 * 1.5);
+    expect(getMultiplier(upgrades, "water")).toBeCloseTo(1.2);
+    expect(getMultiplier(upgrades, "temperature")).toBe(1);
+  });
+
+  it("compounds repeatable upgrades per level", () => {
+    const { upgrades } = withLevels(startedState(), {
+      oxygen1: 1,
+      processor: 3,
+    });
+
+    expect(getMultiplier(upgrades, "oxygen")).toBeCloseTo(1.2 * 1.15 ** 3);
+  });
+
+  it("applies to generated resources", () => {
+    const state = withLevels(startedState({ energy: 100 }), { oxygen1: 1 });
+    const next = step(state, { type: "generate", resource: "oxygen" }, 0);
+
+    expect(next.resources.oxygen).toBeCloseTo(
+      50 + scenario.baseGain.oxygen * 1.2
+    );
+  });
+});
+
+describe("events", () => {
+  it("applies the effect when the event fires", () => {
+    const state = withEvents(
+      startedState({}, eventScenario({ effect: { water: 12 } }))
+    );
+    const next = step(state, null, EVENT_INTERVAL);
+
+    expect(next.currentEvent?.id).toBe("test_event");
+    // One drain tick ran before the event, at full energy
+    expect(next.resources.water).toBeCloseTo(
+      50 + 12 - 2 * scenario.baseDrain.water
+    );
+  });
+
+  it("applies the ongoing effect every drain tick while it lasts", () => {
+    const play = (ongoing: Partial<Resource>) =>
+      step(
+        withEvents(
+          startedState(
+            {},
+            eventScenario({ duration: 7, ongoing, cooldown: 60 })
+          )
+        ),
+        null,
+        EVENT_INTERVAL
+      );
+    const fired = play({ oxygen: 1 });
+    expect(fired.activeEvents).toHaveLength(1);
+
+    // Drain ticks at 9s and 12s fall within the 7 seconds
+    const over = step(fired, null, 3 * DRAIN_INTERVAL);
+    const plain = step(play({}), null, 3 * DRAIN_INTERVAL);
+    expect(over.activeEvents).toHaveLength(0);
+    expect(over.resources.oxygen - plain.resources.oxygen).toBeCloseTo(2);
+  });
+
+  it("is softened by mitigating upgrades", () => {
+    const mitigated = eventScenario({ effect: { oxygen: -10 } });
+    mitigated.upgrades = mitigated.upgrades.map((u) =>
+      u.id === "oxygen1"
+        ? { ...u, effects: { ...u.effects, events: { test_event: 0.5 } } }
+        : u
+    );
+    const state = withEvents(
+      withLevels(startedState({}, mitigated), { oxygen1: 1 })
+    );
+
+    expect(getEventScale(state.upgrades, "test_event")).toBe(0.5);
+    const plain = step(
+      withEvents(startedState({}, eventScenario({ effect: { oxygen: -10 } }))),
+      null,
+      EVENT_INTERVAL
+    );
+    const softened = step(state, null, EVENT_INTERVAL);
+    expect(softened.resources.oxygen - plain.resources.oxygen).toBeCloseTo(5);
+  });
+
+  it("waits for a choice and hits at full strength without one", () => {
+    const choiceScenario = eventScenario({
+      effect: { energy: -40 },
+      choices: [{ id: "shield", label: "Shield", cost: 10, scale: 0.25 }],
+    });
+    const state = withEvents(startedState({ energy: 100 }, choiceScenario));
+    const pending = step(state, null, EVENT_INTERVAL);
+    expect(pending.pendingChoice?.eventId).toBe("test_event");
+
+    const chosen = step(pending, { type: "choose", choiceId: "shield" }, 0);
+    expect(chosen.pendingChoice).toBeNull();
+    expect(chosen.credits).toBe(pending.credits - 10);
+    expect(chosen.resources.energy).toBeCloseTo(pending.resources.energy - 10);
+
+    const ignored = step(pending, null, EVENT_DECISION_TIME);
+    expect(ignored.pendingChoice).toBeNull();
+    expect(ignored.resources.energy).toBeLessThanOrEqual(
+      pending.resources.energy - 40
+    );
+  });
+
+  it("never fires while disabled", () => {
+    const state = startedState({}, eventScenario({ effect: { water: 12 } }));
+    const next = step(state, null, 10 * EVENT_INTERVAL);
+
+    expect(next.eventCooldowns).toEqual({});
+    expect(next.currentEvent).toBeNull();
+  });
+});
+
+describe("action results", () => {
+  const result = (state: EngineState, action: GameAction) =>
+    getActionResult(state, action, step(state, action, 0));
+
+  it("applies allowed actions", () => {
+    expect(
+      result(startedState(), { type: "generate", resource: "oxygen" })
+    ).toEqual({ status: "applied" });
+    expect(
+      result(
+        { ...startedState(), credits: 150 },
+        { type: "purchase", upgradeId: "energy1" }
+      )
+    ).toEqual({ status: "applied" });
+  });
+
+  it.each<[string, Partial<EngineState>, GameAction, string]>([
+    [
+      "low energy",
+      { resources: { oxygen: 50, water: 50, temperature: 0, energy: 4 } },
+      { type: "generate", resource: "water" },
+      "Generating water needs 10% energy, only 4.0% available",
+    ],
+    [
+      "low credits",
+      { credits: 5 },
+      { type: "purchase", upgradeId: "energy1" },
+      "Solar Array costs 150 credits, only 5 available",
+    ],
+    [
+      "missing prerequisites",
+      { credits: 1000 },
+      { type: "purchase", upgradeId: "energy2" },
+      "Nuclear Generator requires Solar Array first",
+    ],
+    [
+      "an unknown upgrade",
+      {},
+      { type: "purchase", upgradeId: "warp_drive" },
+      'Unknown upgrade "warp_drive"',
+    ],
+    [
+      "no pending event",
+      {},
+      { type: "choose", choiceId: "shield" },
+      "No event is waiting for a choice",
+    ],
+    [
+      "a finished game",
+      { gameLost: true },
+      { type: "generate", resource: "energy" },
+      "The game is over",
+    ],
+  ])("rejects actions on %s", (_, changes, action, reason) => {
+    const outcome = result({ ...startedState(), ...changes }, action);
+
+    expect(outcome.status).toBe("rejected");
+    expect(outcome.status !== "applied" && outcome.reason).toContain(reason);
+  });
+
+  it("rejects a second purchase of a one-level upgrade", () => {
+    const state = withLevels(
+      { ...startedState(), credits: 1000 },
+      {
+        energy1: 1,
+      }
+    );
+
+    expect(result(state, { type: "purchase", upgradeId: "energy1" })).toEqual({
+      status: "rejected",
+      reason: expect.stringContaining("is already purchased"),
+    });
+  });
+
+  it("reports generating a full resource as a no-op", () => {
+    expect(
+      result(startedState({ energy: 100 }), {
+        type: "generate",
+        resource: "energy",
+      })
+    ).toEqual({ status: "noop", reason: "energy is already at its maximum" });
+  });
+});
+
+describe("step", () => {
+  it("is deterministic for a seed", () => {
+    const play = () => {
+      let state = withEvents(createInitialState(42));
+      for (let i = 0; i < 50; i++) {
+        state = step(state, { type: "generate", resource: "energy" }, 1000);
+      }
+      return state;
+    };
+
+    expect(play()).toEqual(play());
+  });
+
+  it("does not mutate the state it is given", () => {
+    const state = startedState();
+    const copy = structuredClone(state);
+    step(state, { type: "generate", resource: "oxygen" }, 10_000);
+
+    expect(state).toEqual(copy);
+  });
+});
@@ -0,0 +1,926 @@
+import { applyDifficulty, defaultDifficulty } from "./difficulty";
+import { nextRandom } from "./rng";
+import { DEFAULT_SCENARIO } from "./scenario";
+import {
+  RESOURCE_TYPES,
+  isResourceType,
+  type ActionResult,
+  type Building,
+  type Difficulty,
+  type EventDefinition,
+  type GameAction,
+  type GamePhase,
+  type GameState,
+  type Resource,
+  type ResourceType,
+  type Scenario,
+  type Upgrade,
+  type UpgradeStatus,
+} from "./schema";
+
+// Player actions plus the settings that are part of a recorded game
+export type EngineAction =
+  | GameAction
+  | { type: "setEventsEnabled"; enabled: boolean };
+
+// What happened during a step, in order. Used for replays and debugging.
+export type EngineLogEntry =
+  | { type: "action"; time: number; action: EngineAction }
+  | { type: "drain"; time: number }
+  | { type: "event"; time: number; eventId: string }
+  | { type: "gameWon"; time: number }
+  | { type: "gameLost"; time: number };
+
+export interface EngineState {
+  // Already adjusted for the difficulty
+  scenario: Scenario;
+  difficulty: Difficulty;
+  resources: Resource;
+  credits: number;
+  upgrades: Upgrade[];
+  buildings: Building[];
+  gameStarted: boolean;
+  gameWon: boolean;
+  gameLost: boolean;
+  eventsEnabled: boolean;
+  // Critical countdown, only meaningful while `critical` is true
+  critical: boolean;
+  countdownSeconds: number;
+  // Event id -> game time (ms) it last fired
+  eventCooldowns: Record<string, number>;
+  currentEvent: { id: string; expiresAt: number } | null;
+  // Events with a duration, their ongoing effect hits on every drain tick
+  // until `endsAt`. `scale` includes the choice made and upgrade mitigation.
+  activeEvents: { id: string; endsAt: number; scale: number }[];
+  // Event waiting for a choice, resolved at full strength at `expiresAt`
+  pendingChoice: { eventId: string; expiresAt: number } | null;
+  // Follow-up events waiting to fire
+  scheduledEvents: { eventId: string; at: number }[];
+  // Game time in ms since the first action
+  time: number;
+  timers: {
+    drain: number;
+    event: number;
+    countdown: number;
+  };
+  seed: number;
+  rngState: number;
+}
+
+export const DRAIN_INTERVAL = 3000;
+export const EVENT_INTERVAL = 6000;
+export const EVENT_DISPLAY_TIME = 3000;
+// Time to pick a response before an event hits at full strength
+export const EVENT_DECISION_TIME = 10000;
+export const COUNTDOWN_INTERVAL = 1000;
+// Longest absence that still earns offline progress
+export const OFFLINE_PROGRESS_CAP = 60 * 60 * 1000;
+
+// What the buildings produced while the game was closed
+export interface OfflineProgress {
+  // Time away in ms, before the cap
+  elapsed: number;
+  ticks: number;
+  resources: Resource;
+  credits: number;
+}
+export function getEvent(
+  scenario: Scenario,
+  id: string
+): EventDefinition | undefined {
+  return scenario.events.find((e) => e.id === id);
+}
+
+export function createInitialState(
+  seed: number,
+  baseScenario: Scenario = DEFAULT_SCENARIO,
+  difficulty: Difficulty = defaultDifficulty(baseScenario)
+): EngineState {
+  const scenario = applyDifficulty(baseScenario, difficulty.settings);
+  return {
+    scenario,
+    difficulty,
+    resources: { ...scenario.initialResources },
+    credits: scenario.initialCredits,
+    upgrades: scenario.upgrades.map((u) => ({ ...u, level: 0 })),
+    buildings: scenario.buildings.map((b) => ({ ...b, count: 0 })),
+    gameStarted: false,
+    gameWon: false,
+    gameLost: false,
+    eventsEnabled: false,
+    critical: false,
+    countdownSeconds: scenario.criticalCountdown,
+    eventCooldowns: {},
+    currentEvent: null,
+    activeEvents: [],
+    pendingChoice: null,
+    scheduledEvents: [],
+    time: 0,
+    timers: { drain: 0, event: 0, countdown: 0 },
+    seed,
+    rngState: seed,
+  };
+}
+
+export function isGameOver(state: EngineState): boolean {
+  return state.gameWon || state.gameLost;
+}
+
+// The part of the state agents and the observer get to see
+export function toGameState(state: EngineState): GameState {
+  return {
+    scenario: state.scenario,
+    difficulty: state.difficulty,
+    resources: { ...state.resources },
+    credits: state.credits,
+    upgrades: state.upgrades.map((u) => ({ ...u })),
+    buildings: state.buildings.map((b) => ({ ...b })),
+    gameWon: state.gameWon,
+    gameLost: state.gameLost,
+    criticalTimer: state.critical ? state.countdownSeconds : null,
+    activeEvents: state.activeEvents.map(({ id, endsAt, scale }) => ({
+      id,
+      remaining: Math.ceil((endsAt - state.time) / 1000),
+      scale,
+    })),
+    pendingChoice: state.pendingChoice && {
+      eventId: state.pendingChoice.eventId,
+      remaining: Math.ceil((state.pendingChoice.expiresAt - state.time) / 1000),
+    },
+  };
+}
+
+export function getMultiplier(
+  upgrades: Upgrade[],
+  resourceType: ResourceType
+): number {
+  return upgrades
+    .filter((u) => u.resourceType === resourceType)
+    .reduce((mult, upgrade) => mult * upgrade.multiplier ** upgrade.level, 1);
+}
+
+// Combined drain multiplier from upgrade side effects
+export function getDrainMultiplier(
+  upgrades: Upgrade[],
+  resourceType: ResourceType
+): number {
+  return upgrades.reduce(
+    (mult, upgrade) =>
+      mult * (upgrade.effects.drain?.[resourceType] ?? 1) ** upgrade.level,
+    1
+  );
+}
+
+// How hard an event hits after upgrade mitigation, 1 for full strength
+export function getEventScale(upgrades: Upgrade[], eventId: string): number {
+  return upgrades.reduce(
+    (scale, upgrade) =>
+      scale * (upgrade.effects.events?.[eventId] ?? 1) ** upgrade.level,
+    1
+  );
+}
+
+// Energy spent per non-energy action, after upgrade side effects
+export function getActionEnergyCost(
+  upgrades: Upgrade[],
+  scenario: Scenario
+): number {
+  return Math.max(
+    0,
+    upgrades.reduce(
+      (cost, upgrade) =>
+        cost + (upgrade.effects.actionEnergyCost ?? 0) * upgrade.level,
+      scenario.actionEnergyCost
+    )
+  );
+}
+
+// Price of the next level
+export function getUpgradeCost(upgrade: Upgrade): number {
+  return Math.round(upgrade.cost * upgrade.costGrowth ** upgrade.level);
+}
+
+export function getUpgradeStatus(
+  upgrades: Upgrade[],
+  upgrade: Upgrade
+): UpgradeStatus {
+  if (upgrade.level >= upgrade.maxLevel) return "purchased";
+  const unlocked = upgrade.requires.every((id) =>
+    upgrades.some((u) => u.id === id && u.level > 0)
+  );
+  return unlocked ? "available" : "locked";
+}
+
+// Price of the next copy
+export function getBuildingCost(building: Building): number {
+  return Math.round(building.cost * building.costGrowth ** building.count);
+}
+
+export function isBuildingUnlocked(
+  upgrades: Upgrade[],
+  building: Building
+): boolean {
+  return building.requires.every((id) =>
+    upgrades.some((u) => u.id === id && u.level > 0)
+  );
+}
+
+// Why the engine would refuse `action` right now, null if it would run it
+export function actionRejection(
+  state: EngineState,
+  action: GameAction
+): string | null {
+  if (isGameOver(state)) return "The game is over";
+  const { upgrades, credits } = state;
+  const missing = (requires: string[]) =>
+    requires
+      .filter((id) => !upgrades.some((u) => u.id === id && u.level > 0))
+      .map((id) => upgrades.find((u) => u.id === id)?.name ?? id);
+  const afford = (name: string, cost: number) =>
+    credits >= cost
+      ? null
+      : `${name} costs ${cost} credits, only ${credits} available`;
+
+  switch (action.type) {
+    case "generate": {
+      if (!isResourceType(action.resource)) {
+        return `Unknown resource "${action.resource}"`;
+      }
+      const cost = getActionEnergyCost(upgrades, state.scenario);
+      return action.resource === "energy" || state.resources.energy >= cost
+        ? null
+        : `Generating ${
+            action.resource
+          } needs ${cost}% energy, only ${state.resources.energy.toFixed(
+            1
+          )}% available`;
+    }
+    case "purchase": {
+      const upgrade = upgrades.find((u) => u.id === action.upgradeId);
+      if (!upgrade) return `Unknown upgrade "${action.upgradeId}"`;
+      if (upgrade.level >= upgrade.maxLevel) {
+        return upgrade.maxLevel === 1
+          ? `${upgrade.name} is already purchased`
+          : `${upgrade.name} is already at its maximum level ${upgrade.maxLevel}`;
+      }
+      const locked = missing(upgrade.requires);
+      if (locked.length > 0) {
+        return `${upgrade.name} requires ${locked.join(", ")} first`;
+      }
+      return afford(upgrade.name, getUpgradeCost(upgrade));
+    }
+    case "build": {
+      const building = state.buildings.find((b) => b.id === action.buildingId);
+      if (!building) return `Unknown building "${action.buildingId}"`;
+      if (building.count >= building.maxCount) {
+        return `${building.name} is already built ${building.maxCount} times, the maximum`;
+      }
+      const locked = missing(building.requires);
+      if (locked.length > 0) {
+        return `${building.name} requires ${locked.join(", ")} first`;
+      }
+      return afford(building.name, getBuildingCost(building));
+    }
+    case "choose": {
+      if (!state.pendingChoice) return "No event is waiting for a choice";
+      const event = getEvent(state.scenario, state.pendingChoice.eventId);
+      const choice = event?.choices.find((c) => c.id === action.choiceId);
+      if (!event || !choice) {
+        return `"${action.choiceId}" is not a choice for the current event`;
+      }
+      return afford(choice.label, choice.cost);
+    }
+  }
+}
+
+// What `action` did going from `prev` to `next`
+export function getActionResult(
+  prev: EngineState,
+  action: GameAction,
+  next: EngineState
+): ActionResult {
+  const reason = actionRejection(prev, action);
+  if (reason) return { status: "rejected", reason };
+  if (
+    action.type === "generate" &&
+    next.resources[action.resource] === prev.resources[action.resource]
+  ) {
+    return {
+      status: "noop",
+      reason: `${action.resource} is already at its maximum`,
+    };
+  }
+  return { status: "applied" };
+}
+
+export const canBuild = (state: EngineState, buildingId: string) =>
+  actionRejection(state, { type: "build", buildingId }) === null;
+
+export const canGenerate = (state: EngineState, resource: ResourceType) =>
+  actionRejection(state, { type: "generate", resource }) === null;
+
+// Whether the event waiting for a decision offers this choice and it's
+// affordable
+export const canChoose = (state: EngineState, choiceId: string) =>
+  actionRejection(state, { type: "choose", choiceId }) === null;
+
+export const canPurchase = (state: EngineState, upgradeId: string) =>
+  actionRejection(state, { type: "purchase", upgradeId }) === null;
+
+// Advances the game by applying `action` (if any) and then simulating `dt`
+// milliseconds. Never mutates `state`.
+export function step(
+  state: EngineState,
+  action: EngineAction | null,
+  dt: number
+): EngineState {
+  return stepWithLog(state, action, dt).state;
+}
+
+// Same as `step`, but also reports what happened along the way
+export function stepWithLog(
+  state: EngineState,
+  action: EngineAction | null,
+  dt: number
+): { state: EngineState; log: EngineLogEntry[] } {
+  const log: EngineLogEntry[] = [];
+  let next = state;
+  if (action) {
+    log.push({ type: "action", time: state.time, action });
+    next = applyAction(next, action);
+    logGameOver(state, next, log);
+  }
+  if (dt > 0) {
+    next = advance(next, dt, log);
+  }
+  return { state: next, log };
+}
+
+function logGameOver(
+  prev: EngineState,
+  next: EngineState,
+  log: EngineLogEntry[]
+) {
+  if (next.gameWon && !prev.gameWon) {
+    log.push({ type: "gameWon", time: next.time });
+  }
+  if (next.gameLost && !prev.gameLost) {
+    log.push({ type: "gameLost", time: next.time });
+  }
+}
+
+function applyAction(state: EngineState, action: EngineAction): EngineState {
+  if (action.type === "setEventsEnabled") {
+    // Pending follow-ups are dropped along with random events
+    return {
+      ...state,
+      eventsEnabled: action.enabled,
+      scheduledEvents: action.enabled ? state.scheduledEvents : [],
+    };
+  }
+
+  const started = state.gameStarted ? state : { ...state, gameStarted: true };
+  if (isGameOver(started)) return started;
+
+  if (action.type === "generate") {
+    if (!canGenerate(started, action.resource)) return started;
+    return checkRules({
+      ...started,
+      resources: generate(started, action.resource),
+      credits: started.credits + started.scenario.actionCredits,
+    });
+  }
+
+  if (action.type === "build") {
+    if (!canBuild(started, action.buildingId)) return started;
+    const building = started.buildings.find((b) => b.id === action.buildingId)!;
+    return checkRules({
+      ...started,
+      credits: started.credits - getBuildingCost(building),
+      buildings: started.buildings.map((b) =>
+        b.id === building.id ? { ...b, count: b.count + 1 } : b
+      ),
+    });
+  }
+
+  if (action.type === "choose") {
+    if (!canChoose(started, action.choiceId)) return started;
+    const event = getEvent(started.scenario, started.pendingChoice!.eventId)!;
+    const choice = event.choices.find((c) => c.id === action.choiceId)!;
+    return checkRules(
+      resolveEvent(
+        {
+          ...started,
+          credits: started.credits - choice.cost,
+          currentEvent: {
+            id: event.id,
+            expiresAt: started.time + EVENT_DISPLAY_TIME,
+          },
+        },
+        event,
+        choice.scale
+      )
+    );
+  }
+
+  if (!canPurchase(started, action.upgradeId)) return started;
+  const upgrade = started.upgrades.find((u) => u.id === action.upgradeId)!;
+  return checkRules({
+    ...started,
+    credits: started.credits - getUpgradeCost(upgrade),
+    upgrades: started.upgrades.map((u) =>
+      u.id === upgrade.id ? { ...u, level: u.level + 1 } : u
+    ),
+  });
+}
+
+// Keeps every resource within the scenario's limits
+export function clampResources(
+  resources: Resource,
+  scenario: Scenario
+): Resource {
+  const clamp = (type: ResourceType) =>
+    Math.min(
+      scenario.limits[type].max,
+      Math.max(scenario.limits[type].min, resources[type])
+    );
+  return {
+    oxygen: clamp("oxygen"),
+    water: clamp("water"),
+    temperature: clamp("temperature"),
+    energy: clamp("energy"),
+  };
+}
+
+export function applyEffect(
+  resources: Resource,
+  effect: Partial<Resource>,
+  scenario: Scenario
+): Resource {
+  const next = { ...resources };
+  RESOURCE_TYPES.forEach((type) => {
+    next[type] += effect[type] ?? 0;
+  });
+  return clampResources(next, scenario);
+}
+
+const scaleEffect = (
+  effect: Partial<Resource>,
+  scale: number
+): Partial<Resource> =>
+  Object.fromEntries(
+    Object.entries(effect).map(([type, amount]) => [type, amount * scale])
+  );
+
+function generate(state: EngineState, type: ResourceType): Resource {
+  const { scenario } = state;
+  const prev = state.resources;
+  const multiplier = getMultiplier(state.upgrades, type);
+
+  // Energy doesn't require energy to generate
+  if (type === "energy") {
+    return clampResources(
+      { ...prev, energy: prev.energy + scenario.baseGain.energy * multiplier },
+      scenario
+    );
+  }
+
+  const energyEfficiency = prev.energy / 100; // 0 to 1
+  const gain = scenario.baseGain[type] * multiplier * energyEfficiency;
+  return clampResources(
+    {
+      ...prev,
+      [type]: prev[type] + gain,
+      energy: prev.energy - getActionEnergyCost(state.upgrades, scenario),
+    },
+    scenario
+  );
+}
+
+export function drain(
+  resources: Resource,
+  scenario: Scenario,
+  upgrades: Upgrade[]
+): Resource {
+  const energyEfficiency = resources.energy / 100;
+  const loss = (type: ResourceType) =>
+    scenario.baseDrain[type] * getDrainMultiplier(upgrades, type);
+  return clampResources(
+    {
+      oxygen: resources.oxygen - loss("oxygen") * (2 - energyEfficiency),
+      water: resources.water - loss("water") * (2 - energyEfficiency),
+      temperature:
+        resources.temperature - loss("temperature") * (2 - energyEfficiency),
+      energy: resources.energy - loss("energy"),
+    },
+    scenario
+  );
+}
+
+// One production tick. Buildings run in scenario order, each one only if
+// the resources cover the upkeep of all its copies.
+export function runBuildings<
+  T extends Pick<
+    EngineState,
+    "resources" | "credits" | "buildings" | "scenario"
+  >
+>(state: T): T {
+  let { resources, credits } = state;
+  state.buildings.forEach((building) => {
+    if (building.count === 0) return;
+    const affordable = Object.entries(building.upkeep).every(
+      ([type, amount]) =>
+        resources[type as ResourceType] >= amount * building.count
+    );
+    if (!affordable) return;
+
+    const change: Partial<Resource> = {};
+    RESOURCE_TYPES.forEach((type) => {
+      change[type] =
+        ((building.production[type] ?? 0) - (building.upkeep[type] ?? 0)) *
+        building.count;
+    });
+    resources = applyEffect(resources, change, state.scenario);
+    credits += building.credits * building.count;
+  });
+  return { ...state, resources, credits };
+}
+
+// Catches up on the buildings' production for the time the game was closed,
+// up to OFFLINE_PROGRESS_CAP. Only buildings run: no drain, events or
+// countdown, so being away can't lose the game.
+export function applyOfflineProgress(
+  state: EngineState,
+  elapsed: number
+): { state: EngineState; progress: OfflineProgress | null } {
+  if (!state.gameStarted || isGameOver(state) || elapsed <= 0) {
+    return { state, progress: null };
+  }
+  if (state.buildings.every((b) => b.count === 0)) {
+    return { state, progress: null };
+  }
+
+  const ticks = Math.floor(
+    Math.min(elapsed, OFFLINE_PROGRESS_CAP) / DRAIN_INTERVAL
+  );
+  let next = state;
+  for (let i = 0; i < ticks && !isGameOver(next); i++) {
+    next = checkRules(runBuildings(next));
+  }
+
+  const resources = { ...next.resources };
+  RESOURCE_TYPES.forEach((type) => {
+    resources[type] -= state.resources[type];
+  });
+  return {
+    state: next,
+    progress: {
+      elapsed,
+      ticks,
+      resources,
+      credits: next.credits - state.credits,
+    },
+  };
+}
+
+// Whether this one resource is holding the critical countdown open
+export function isCriticalResource(
+  resources: Resource,
+  scenario: Scenario,
+  type: ResourceType
+): boolean {
+  return (
+    scenario.criticalResources.includes(type) &&
+    resources[type] <= scenario.criticalThreshold
+  );
+}
+
+export function isCritical(resources: Resource, scenario: Scenario): boolean {
+  return RESOURCE_TYPES.some((type) =>
+    isCriticalResource(resources, scenario, type)
+  );
+}
+
+export function isWon(resources: Resource, scenario: Scenario): boolean {
+  return Object.entries(scenario.winThresholds).every(
+    ([type, threshold]) => resources[type as ResourceType] >= threshold
+  );
+}
+
+// Progress of one resource towards its win threshold, 0-100. Resources
+// without a threshold count as done.
+export function winProgress(
+  resources: Resource,
+  scenario: Scenario,
+  type: ResourceType
+): number {
+  const threshold = scenario.winThresholds[type];
+  if (threshold === undefined) return 100;
+  const { min } = scenario.limits[type];
+  return ((resources[type] - min) / (threshold - min)) * 100;
+}
+
+// Average progress towards the win thresholds: early below a third, late
+// from two thirds
+export function getGamePhase(
+  resources: Resource,
+  scenario: Scenario
+): GamePhase {
+  const types = Object.keys(scenario.winThresholds) as ResourceType[];
+  const progress =
+    types.reduce(
+      (total, type) =>
+        total +
+        Math.min(100, Math.max(0, winProgress(resources, scenario, type))),
+      0
+    ) / types.length;
+  return progress < 100 / 3 ? "early" : progress < 200 / 3 ? "mid" : "late";
+}
+
+// Re-evaluates the critical countdown and the win condition after resources
+// change.
+function checkRules(state: EngineState): EngineState {
+  if (isGameOver(state)) return state;
+
+  const { scenario } = state;
+  if (isWon(state.resources, scenario)) {
+    return { ...state, gameWon: true };
+  }
+
+  const critical = isCritical(state.resources, scenario);
+  if (critical && !state.critical) {
+    return {
+      ...state,
+      critical: true,
+      countdownSeconds: scenario.criticalCountdown,
+      timers: { ...state.timers, countdown: 0 },
+    };
+  }
+  if (!critical && state.critical) {
+    return {
+      ...state,
+      critical: false,
+      countdownSeconds: scenario.criticalCountdown,
+    };
+  }
+  return state;
+}
+
+function advance(
+  state: EngineState,
+  dt: number,
+  log: EngineLogEntry[]
+): EngineState {
+  let next = state;
+  let remaining = dt;
+
+  while (remaining > 0 && next.gameStarted && !isGameOver(next)) {
+    const untilDrain = DRAIN_INTERVAL - next.timers.drain;
+    const untilEvent = next.eventsEnabled
+      ? EVENT_INTERVAL - next.timers.event
+      : Infinity;
+    const untilCountdown = next.critical
+      ? COUNTDOWN_INTERVAL - next.timers.countdown
+      : Infinity;
+    const untilEventChange = Math.max(
+      0,
+      Math.min(
+        ...next.activeEvents.map((e) => e.endsAt),
+        ...next.scheduledEvents.map((e) => e.at),
+        next.pendingChoice?.expiresAt ?? Infinity
+      ) - next.time
+    );
+    const delta = Math.min(
+      remaining,
+      untilDrain,
+      untilEvent,
+      untilCountdown,
+      untilEventChange
+    );
+
+    remaining -= delta;
+    next = {
+      ...next,
+      time: next.time + delta,
+      timers: {
+        drain: next.timers.drain + delta,
+        event: next.eventsEnabled ? next.timers.event + delta : 0,
+        countdown: next.critical ? next.timers.countdown + delta : 0,
+      },
+    };
+
+    if (next.currentEvent && next.time >= next.currentEvent.expiresAt) {
+      next = { ...next, currentEvent: null };
+    }
+    next = updateEvents(next, log);
+    if (isGameOver(next)) break;
+    if (next.timers.drain >= DRAIN_INTERVAL) {
+      log.push({ type: "drain", time: next.time });
+      next = checkRules({
+        ...runBuildings({
+          ...next,
+          resources: applyOngoingEvents(
+            drain(next.resources, next.scenario, next.upgrades),
+            next
+          ),
+        }),
+        timers: { ...next.timers, drain: 0 },
+      });
+    }
+    if (next.timers.event >= EVENT_INTERVAL) {
+      next = checkRules(rollEvent(next, log));
+    }
+    if (next.critical && next.timers.countdown >= COUNTDOWN_INTERVAL) {
+      next = countdown(next);
+    }
+  }
+
+  logGameOver(state, next, log);
+
+  // Game over cleanup
+  if (next.gameLost && !state.gameLost) {
+    next = {
+      ...next,
+      currentEvent: null,
+      eventCooldowns: {},
+      activeEvents: [],
+      pendingChoice: null,
+      scheduledEvents: [],
+    };
+  }
+  return next;
+}
+
+function countdown(state: EngineState): EngineState {
+  const countdownSeconds = state.countdownSeconds - 1;
+  return {
+    ...state,
+    countdownSeconds: Math.max(0, countdownSeconds),
+    gameLost: countdownSeconds <= 0,
+    timers: { ...state.timers, countdown: 0 },
+  };
+}
+
+function rollEvent(state: EngineState, log: EngineLogEntry[]): EngineState {
+  const now = state.time;
+  const cooldownOf = (id: string) =>
+    (getEvent(state.scenario, id)?.cooldown ?? 0) * 1000;
+
+  // Clean up expired cooldowns
+  const eventCooldowns = Object.fromEntries(
+    Object.entries(state.eventCooldowns).filter(
+      ([id, firedAt]) => now - firedAt <= cooldownOf(id)
+    )
+  );
+
+  const [roll, rngState] = nextRandom(state.rngState);
+  const base = {
+    ...state,
+    eventCooldowns,
+    rngState,
+    timers: { ...state.timers, event: 0 },
+  };
+  if (roll >= state.scenario.eventChance) return base;
+
+  // Only one choice can wait at a time
+  const phase = getGamePhase(state.resources, state.scenario);
+  const availableEvents = state.scenario.events.filter(
+    (event) =>
+      event.weights[phase] > 0 &&
+      !(event.choices.length > 0 && state.pendingChoice) &&
+      (eventCooldowns[event.id] === undefined ||
+        now - eventCooldowns[event.id] > cooldownOf(event.id))
+  );
+  if (availableEvents.length === 0) return base;
+
+  const [pick, pickRngState] = nextRandom(rngState);
+  let target =
+    pick * availableEvents.reduce((total, e) => total + e.weights[phase], 0);
+  const event =
+    availableEvents.find((e) => (target -= e.weights[phase]) < 0) ??
+    availableEvents[availableEvents.length - 1];
+
+  return fireEvent({ ...base, rngState: pickRngState }, event, log);
+}
+
+// Events with choices wait for the player, the rest hit right away
+function fireEvent(
+  state: EngineState,
+  event: EventDefinition,
+  log: EngineLogEntry[]
+): EngineState {
+  const now = state.time;
+  log.push({ type: "event", time: now, eventId: event.id });
+  const fired = {
+    ...state,
+    eventCooldowns: { ...state.eventCooldowns, [event.id]: now },
+    currentEvent: { id: event.id, expiresAt: now + EVENT_DISPLAY_TIME },
+  };
+  if (event.choices.length === 0) {
+    return resolveEvent(fired, event, 1);
+  }
+  const expiresAt = now + EVENT_DECISION_TIME;
+  return {
+    ...fired,
+    pendingChoice: { eventId: event.id, expiresAt },
+    currentEvent: { id: event.id, expiresAt },
+  };
+}
+
+// Applies the event at `scale` times its strength, further reduced by
+// upgrades, starts its duration and rolls for its follow-ups
+function resolveEvent(
+  state: EngineState,
+  event: EventDefinition,
+  scale: number
+): EngineState {
+  const now = state.time;
+  const total = scale * getEventScale(state.upgrades, event.id);
+
+  let { rngState } = state;
+  const scheduledEvents = [...state.scheduledEvents];
+  event.followUps.forEach((followUp) => {
+    const [roll, next] = nextRandom(rngState);
+    rngState = next;
+    if (roll < followUp.chance) {
+      scheduledEvents.push({
+        eventId: followUp.eventId,
+        at: now + followUp.delay * 1000,
+      });
+    }
+  });
+
+  return {
+    ...state,
+    rngState,
+    resources: applyEffect(
+      state.resources,
+      scaleEffect(event.effect, total),
+      state.scenario
+    ),
+    activeEvents:
+      event.duration > 0
+        ? [
+            ...state.activeEvents,
+            { id: event.id, endsAt: now + event.duration * 1000, scale: total },
+          ]
+        : state.activeEvents,
+    pendingChoice: null,
+    scheduledEvents,
+  };
+}
+
+// Ends finished events, lets an unanswered choice hit at full strength and
+// fires follow-ups that are due
+function updateEvents(state: EngineState, log: EngineLogEntry[]): EngineState {
+  const now = state.time;
+  let next = state;
+
+  if (next.activeEvents.some((e) => e.endsAt <= now)) {
+    next = {
+      ...next,
+      activeEvents: next.activeEvents.filter((e) => e.endsAt > now),
+    };
+  }
+
+  if (next.pendingChoice && next.pendingChoice.expiresAt <= now) {
+    const event = getEvent(next.scenario, next.pendingChoice.eventId);
+    next = event
+      ? checkRules(resolveEvent(next, event, 1))
+      : { ...next, pendingChoice: null };
+  }
+
+  const due = next.scheduledEvents.filter((e) => e.at <= now);
+  if (due.length > 0) {
+    next = {
+      ...next,
+      scheduledEvents: next.scheduledEvents.filter((e) => e.at > now),
+    };
+    due.forEach(({ eventId }) => {
+      const event = getEvent(next.scenario, eventId);
+      if (
+        !event ||
+        isGameOver(next) ||
+        (event.choices.length > 0 && next.pendingChoice)
+      ) {
+        return;
+      }
+      next = checkRules(fireEvent(next, event, log));
+    });
+  }
+  return next;
+}
+
+// Ongoing effects of the running events, applied on each drain tick
+function applyOngoingEvents(resources: Resource, state: EngineState): Resource {
+  return state.activeEvents.reduce((current, active) => {
+    const event = getEvent(state.scenario, active.id);
+    return event
+      ? applyEffect(
+          current,
+          scaleEffect(event.ongoing, active.scale),
+          state.scenario
+        )
+      : current;
+  }, resources);
+}
@@ -0,0 +1,9 @@
+// Formats game time in ms as m:ss
+export const formatGameTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+// Formats USD, with more digits for the fractions of a cent single calls cost
+export const formatCost = (usd: number) =>
+  `$${usd.toFixed(usd > 0 && usd < 0.01 ? 4 : 2)}`;
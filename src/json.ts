@@ -0,0 +1,10 @@
+// Parsed JSON comes in as `unknown` and is narrowed field by field before
+// use. A record's fields are `unknown` too, so each needs its own check.
+
+export type JsonRecord = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is JsonRecord =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+export const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
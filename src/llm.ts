@@ -0,0 +1,146 @@
+import OpenAI from "openai";
+import { createMockProviderFromURL } from "./mockProvider";
+import {
+  DEFAULT_PROMPT_SETTINGS,
+  type PromptSettings,
+} from "./promptTemplates";
+
+export type Message = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+// Per-role model settings, so the agent and observer can use different
+// models against the same endpoint
+export interface ModelConfig {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface CompletionRequest extends ModelConfig {
+  messages: Message[];
+  // Ask for a JSON object response where the endpoint supports it
+  json: boolean;
+}
+
+export interface CompletionResponse {
+  content: string | null;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+}
+
+export interface ProviderConfig {
+  baseURL: string;
+  apiKey: string;
+  // Some local servers reject `response_format`, the prompts ask for JSON
+  // either way
+  jsonMode: boolean;
+}
+
+export const PROVIDER_PRESETS: Record<string, ProviderConfig> = {
+  OpenAI: {
+    baseURL: "https://api.openai.com/v1",
+    apiKey: "",
+    jsonMode: true,
+  },
+  Ollama: {
+    baseURL: "http://localhost:11434/v1",
+    apiKey: "",
+    jsonMode: true,
+  },
+  "llama.cpp": {
+    baseURL: "http://localhost:8080/v1",
+    apiKey: "",
+    jsonMode: true,
+  },
+  // Offline scripted responses, see mockProvider.ts for URL options
+  "Mock (offline)": {
+    baseURL: "mock://",
+    apiKey: "",
+    jsonMode: true,
+  },
+};
+
+export const DEFAULT_AGENT_MODEL: ModelConfig = {
+  model: "gpt-4o-2024-11-20",
+  temperature: 0.2,
+  maxTokens: 500,
+};
+
+export const DEFAULT_OBSERVER_MODEL: ModelConfig = {
+  model: "gpt-4o-2024-11-20",
+  temperature: 0.3,
+  maxTokens: 500,
+};
+
+// Adapter for any endpoint speaking the OpenAI chat completions API
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  private openai: OpenAI;
+  private jsonMode: boolean;
+
+  constructor(config: ProviderConfig) {
+    this.name = config.baseURL;
+    this.jsonMode = config.jsonMode;
+    this.openai = new OpenAI({
+      baseURL: config.baseURL,
+      // Local servers usually don't check the key, but the client needs one
+      apiKey: config.apiKey || "not-needed",
+      dangerouslyAllowBrowser: true,
+    });
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const response = await this.openai.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.json && this.jsonMode
+        ? { response_format: { type: "json_object" as const } }
+        : {}),
+    });
+
+    return {
+      content: response.choices[0]?.message?.content ?? null,
+      usage: response.usage && {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens,
+      },
+    };
+  }
+}
+
+export interface LLMSettings {
+  provider: ProviderConfig;
+  agent: ModelConfig;
+  observer: ModelConfig;
+  // Estimated USD the agent and observer may spend per connection, the agent
+  // stops once it is used up. Null for no limit.
+  budget: number | null;
+  // Strategy profile and prompt templates of the agent
+  prompt: PromptSettings;
+}
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  provider: PROVIDER_PRESETS.OpenAI,
+  agent: DEFAULT_AGENT_MODEL,
+  observer: DEFAULT_OBSERVER_MODEL,
+  budget: null,
+  prompt: DEFAULT_PROMPT_SETTINGS,
+};
+
+export function createProvider(config: ProviderConfig): LLMProvider {
+  if (config.baseURL.startsWith("mock:")) {
+    return createMockProviderFromURL(config.baseURL);
+  }
+  return new OpenAICompatibleProvider(config);
+}
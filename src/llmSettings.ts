@@ -0,0 +1,82 @@
+import { isRecord } from "./json";
+import { DEFAULT_LLM_SETTINGS, type LLMSettings } from "./llm";
+import {
+  DEFAULT_PROMPT_SETTINGS,
+  STRATEGY_PROFILES,
+  type TemplateName,
+} from "./promptTemplates";
+
+const SETTINGS_KEY = "curmars:llm-settings";
+
+// Fields of `saved` with the same type as the default, the default for the
+// rest
+function restoreFields<T extends object>(defaults: T, saved: unknown): T {
+  if (!isRecord(saved)) return defaults;
+  return Object.fromEntries(
+    Object.entries(defaults).map(([key, value]) => [
+      key,
+      typeof saved[key] === typeof value ? saved[key] : value,
+    ])
+  ) as T;
+}
+
+// Settings are remembered between sessions, except for the API key
+export function loadLLMSettings(): LLMSettings {
+  try {
+    const saved: unknown = JSON.parse(
+      localStorage.getItem(SETTINGS_KEY) || "null"
+    );
+    if (!isRecord(saved)) return DEFAULT_LLM_SETTINGS;
+    const prompt = isRecord(saved.prompt) ? saved.prompt : {};
+    const { profile } = prompt;
+    const templates = restoreFields(
+      DEFAULT_PROMPT_SETTINGS.templates,
+      prompt.templates
+    );
+    return {
+      provider: restoreFields(DEFAULT_LLM_SETTINGS.provider, saved.provider),
+      agent: restoreFields(DEFAULT_LLM_SETTINGS.agent, saved.agent),
+      observer: restoreFields(DEFAULT_LLM_SETTINGS.observer, saved.observer),
+      budget:
+        typeof saved.budget === "number" && saved.budget > 0
+          ? saved.budget
+          : null,
+      prompt: {
+        profile:
+          typeof profile === "string" &&
+          Object.keys(STRATEGY_PROFILES).includes(profile)
+            ? profile
+            : DEFAULT_PROMPT_SETTINGS.profile,
+        templates,
+      },
+    };
+  } catch {
+    return DEFAULT_LLM_SETTINGS;
+  }
+}
+
+export function saveLLMSettings(settings: LLMSettings) {
+  try {
+    localStorage.setItem(
+      SETTINGS_KEY,
+      JSON.stringify({
+        ...settings,
+        provider: { ...settings.provider, apiKey: "" },
+        // Unedited templates aren't stored, so they follow changes to the
+        // defaults
+        prompt: {
+          ...settings.prompt,
+          templates: Object.fromEntries(
+            Object.entries(settings.prompt.templates).filter(
+              ([name, template]) =>
+                template !==
+                DEFAULT_PROMPT_SETTINGS.templates[name as TemplateName]
+            )
+          ),
+        },
+      })
+    );
+  } catch (error) {
+    console.error("Failed to save LLM settings:", error);
+  }
+}
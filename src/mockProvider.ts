@@ -0,0 +1,207 @@
+import type { CompletionRequest, CompletionResponse, LLMProvider } from "./llm";
+import { estimateTokens } from "./usage";
+
+// Ways the mock can misbehave, one per fallback path in the agent/observer
+export type MockFault = "malformed" | "wrongCount" | "empty" | "error";
+
+export const MOCK_FAULTS: MockFault[] = [
+  "malformed",
+  "wrongCount",
+  "empty",
+  "error",
+];
+
+export type MockStep = { content: string | null } | { fault: MockFault };
+
+export type MockResponder = (request: CompletionRequest) => string | null;
+
+export interface MockProviderOptions {
+  // Builds responses once the script is used up
+  responder?: MockResponder;
+  // Chance of replacing a generated response with one of `faults`
+  faultRate?: number;
+  faults?: MockFault[];
+  latency?: number;
+  random?: () => number;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+const readNumber = (text: string, label: string) => {
+  const match = text.match(new RegExp(`${label}:\\s*(-?[\\d.]+)`));
+  return match ? Number(match[1]) : null;
+};
+
+const isAgentRequest = (request: CompletionRequest) =>
+  request.messages[0]?.content.includes('"actions"') ?? false;
+
+const isConsoleRequest = (request: CompletionRequest) =>
+  request.messages[0]?.content.includes('"addGoals"') ?? false;
+
+// Answers agent, observer and console prompts with simple rules read off the
+// latest state message. The console takes questions (ending in "?") as
+// questions, "start" and "stop" as agent commands and anything else as a
+// goal.
+export const ruleBasedResponder: MockResponder = (request) => {
+  const state = request.messages[request.messages.length - 1]?.content ?? "";
+  const oxygen = readNumber(state, "Oxygen") ?? 50;
+  const water = readNumber(state, "Water") ?? 50;
+  const temperature = readNumber(state, "Temperature") ?? 0;
+  const energy = readNumber(state, "Energy") ?? 100;
+
+  if (isConsoleRequest(request)) {
+    const text = state.match(/^PLAYER: (.*)$/m)?.[1]?.trim() ?? "";
+    const command = /^(start|stop)\b/i.exec(text)?.[1].toLowerCase() ?? null;
+    if (command) {
+      return JSON.stringify({ reply: `Agent ${command}ed`, agent: command });
+    }
+    if (text.endsWith("?")) {
+      return JSON.stringify({
+        reply: `Oxygen is at ${oxygen}%, water ${water}%, temperature ${temperature}°C and energy ${energy}%.`,
+      });
+    }
+    return JSON.stringify({ reply: "Goal added", addGoals: [text] });
+  }
+
+  if (isAgentRequest(request)) {
+    const actions: string[] = [];
+    let simulatedEnergy = energy;
+    for (let i = 0; i < 10; i++) {
+      if (simulatedEnergy < 60) {
+        actions.push("generate:energy");
+        simulatedEnergy += 8;
+        continue;
+      }
+      const target =
+        oxygen < 100 && oxygen <= water
+          ? "oxygen"
+          : water < 100
+          ? "water"
+          : temperature < 15
+          ? "temperature"
+          : "energy";
+      // Guarded in case an event drains energy before the step runs
+      actions.push(
+        target === "energy"
+          ? "generate:energy"
+          : `generate:${target} if energy > 15`
+      );
+      simulatedEnergy -= target === "energy" ? -8 : 10;
+    }
+    const lowest = Math.min(oxygen, water);
+    return JSON.stringify({
+      rationale:
+        energy < 60
+          ? "Recharge energy first, then raise the lowest of oxygen and water"
+          : "Raise the lowest of oxygen and water while energy lasts",
+      risk:
+        lowest <= 10
+          ? "high: oxygen or water is about to go critical"
+          : lowest <= 30
+          ? "medium: oxygen or water is low"
+          : "low: life support is stable",
+      actions,
+    });
+  }
+
+  const strengths: string[] = [];
+  const concerns: string[] = [];
+  const suggestions: string[] = [];
+  if (energy >= 50) strengths.push("Energy reserves are healthy");
+  else concerns.push("Energy is running low");
+  if (Math.min(oxygen, water) > 20) strengths.push("Life support is stable");
+  else concerns.push("Oxygen or water is close to the critical level");
+  if (temperature < 15) suggestions.push("Invest in heating the planet");
+  suggestions.push(
+    oxygen <= water ? "Prioritize oxygen generation" : "Prioritize water"
+  );
+  return JSON.stringify({ analysis: { strengths, concerns, suggestions } });
+};
+
+// Offline LLMProvider for tests and demos. Scripted steps are returned in
+// order, after which responses come from the responder with optional random
+// fault injection. Every request is kept in `requests` for inspection.
+export class MockProvider implements LLMProvider {
+  readonly name = "mock";
+  readonly requests: CompletionRequest[] = [];
+  private script: MockStep[] = [];
+  private options: Required<MockProviderOptions>;
+
+  constructor(options: MockProviderOptions = {}) {
+    this.options = {
+      responder: ruleBasedResponder,
+      faultRate: 0,
+      faults: MOCK_FAULTS,
+      latency: 0,
+      random: Math.random,
+      ...options,
+    };
+  }
+
+  enqueue(...steps: MockStep[]): this {
+    this.script.push(...steps);
+    return this;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    this.requests.push(request);
+    if (this.options.latency > 0) {
+      await sleep(this.options.latency);
+    }
+
+    const step = this.script.shift() ?? this.generateStep(request);
+    const content =
+      "fault" in step ? this.faultContent(step.fault, request) : step.content;
+
+    return {
+      content,
+      usage: {
+        promptTokens: estimateTokens(
+          request.messages.map((m) => m.content).join("\n")
+        ),
+        completionTokens: estimateTokens(content ?? ""),
+      },
+    };
+  }
+
+  private generateStep(request: CompletionRequest): MockStep {
+    const { faultRate, faults, random, responder } = this.options;
+    if (faults.length > 0 && random() < faultRate) {
+      return { fault: faults[Math.floor(random() * faults.length)] };
+    }
+    return { content: responder(request) };
+  }
+
+  private faultContent(
+    fault: MockFault,
+    request: CompletionRequest
+  ): string | null {
+    switch (fault) {
+      case "malformed":
+        return '{"actions": ["generate:energy", ';
+      case "wrongCount":
+        return isAgentRequest(request)
+          ? JSON.stringify({ actions: [] })
+          : JSON.stringify({ strengths: ["Missing the analysis wrapper"] });
+      case "empty":
+        return null;
+      case "error":
+        throw new Error("Mock provider error");
+    }
+  }
+}
+
+// Builds a mock from a `mock://` URL, e.g.
+// mock://?faultRate=0.3&faults=malformed,empty&latency=500
+export function createMockProviderFromURL(url: string): MockProvider {
+  const params = new URLSearchParams(url.split("?")[1] ?? "");
+  const faults = params
+    .get("faults")
+    ?.split(",")
+    .filter((f): f is MockFault => MOCK_FAULTS.includes(f as MockFault));
+  return new MockProvider({
+    faultRate: Number(params.get("faultRate")) || 0,
+    latency: Number(params.get("latency")) || 0,
+    ...(faults && faults.length > 0 ? { faults } : {}),
+  });
+}
@@ -0,0 +1,235 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createInitialState, toGameState } from "./engine";
+import { MockProvider } from "./mockProvider";
+import { GameObserver } from "./observer";
+import type { GameState, Resource } from "./schema";
+
+const base = toGameState(createInitialState(1));
+
+interface Snapshot {
+  // Game time in seconds
+  at: number;
+  resources?: Partial<Resource>;
+  credits?: number;
+  upgradeLevels?: Record<string, number>;
+  criticalTimer?: number | null;
+}
+
+const snapshot = ({
+  resources = {},
+  credits = 0,
+  upgradeLevels = {},
+  criticalTimer = null,
+}: Snapshot): GameState => ({
+  ...base,
+  resources: {
+    oxygen: 50,
+    water: 50,
+    temperature: 0,
+    energy: 50,
+    ...resources,
+  },
+  credits,
+  upgrades: base.upgrades.map((u) => ({
+    ...u,
+    level: upgradeLevels[u.id] ?? 0,
+  })),
+  criticalTimer,
+});
+
+// Records a fixed history, one snapshot at each given time
+function observe(history: Snapshot[], observer = new GameObserver(null)) {
+  history.forEach((entry) => observer.record(snapshot(entry), entry.at * 1000));
+  return observer;
+}
+
+const analysisReply = (analysis: unknown) => ({
+  content: JSON.stringify({ analysis }),
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("trends", () => {
+  it("are blank with fewer than two snapshots", () => {
+    const { trends } = observe([{ at: 0 }]).getMetrics();
+
+    expect(Object.values(trends).every((t) => t === "")).toBe(true);
+  });
+
+  it("compare the latest snapshot with the oldest", () => {
+    const { trends } = observe([
+      { at: 0, resources: { oxygen: 10, energy: 80 }, credits: 50 },
+      { at: 10, resources: { oxygen: 5, energy: 20 }, credits: 0 },
+      { at: 20, resources: { oxygen: 30, water: 50.05, energy: 60 } },
+    ]).getMetrics();
+
+    expect(trends).toEqual({
+      oxygen: "↑",
+      water: "→",
+      temperature: "→",
+      energy: "↓",
+      credits: "↓",
+    });
+  });
+});
+
+describe("critical time", () => {
+  it("needs at least one snapshot", () => {
+    expect(new GameObserver(null).getMetrics().criticalTime).toBe(
+      "Not enough data"
+    );
+  });
+
+  it("is the share of snapshots with the countdown running", () => {
+    const { criticalTime } = observe([
+      { at: 0 },
+      { at: 1, criticalTimer: 30 },
+      { at: 2 },
+      { at: 3 },
+    ]).getMetrics();
+
+    expect(criticalTime).toBe("25% of time in critical state");
+  });
+});
+
+describe("upgrade pace", () => {
+  it("counts every level bought per minute", () => {
+    const { upgradePace } = observe([
+      { at: 0 },
+      { at: 60, upgradeLevels: { energy1: 1, processor: 2 } },
+    ]).getMetrics();
+
+    expect(upgradePace).toBe("3.0 upgrades/min");
+  });
+
+  it("needs snapshots at different times", () => {
+    const { upgradePace } = observe([{ at: 5 }, { at: 5 }]).getMetrics();
+
+    expect(upgradePace).toBe("Not enough data");
+  });
+});
+
+describe("resource stability", () => {
+  const steady = Array.from({ length: 10 }, (_, i) => ({ at: i }));
+
+  it("needs ten snapshots", () => {
+    expect(observe(steady.slice(1)).getMetrics().stability).toBe(
+      "Not enough data"
+    );
+  });
+
+  it("rates the average standard deviation of energy, oxygen and water", () => {
+    const swing = (amplitude: number) =>
+      steady.map(({ at }) => {
+        const value = 50 + (at % 2 === 0 ? amplitude : -amplitude);
+        return {
+          at,
+          resources: { oxygen: value, water: value, energy: value },
+        };
+      });
+
+    expect(observe(steady).getMetrics().stability).toBe("Very Stable");
+    expect(observe(swing(7)).getMetrics().stability).toBe("Stable");
+    expect(observe(swing(15)).getMetrics().stability).toBe("Fluctuating");
+    expect(observe(swing(40)).getMetrics().stability).toBe("Unstable");
+  });
+
+  it("ignores temperature", () => {
+    const history = steady.map(({ at }) => ({
+      at,
+      resources: { temperature: at % 2 === 0 ? -60 : 50 },
+    }));
+
+    expect(observe(history).getMetrics().stability).toBe("Very Stable");
+  });
+});
+
+describe("history", () => {
+  it("keeps the last five minutes", () => {
+    const { upgradePace } = observe([
+      { at: 0 },
+      { at: 240, upgradeLevels: { energy1: 1 } },
+      { at: 360, upgradeLevels: { energy1: 1 } },
+    ]).getMetrics();
+
+    // Only the last two snapshots remain, two minutes apart
+    expect(upgradePace).toBe("0.5 upgrades/min");
+  });
+
+  it("starts over when the game clock goes back", () => {
+    const { upgradePace } = observe([
+      { at: 0 },
+      { at: 60, upgradeLevels: { energy1: 1 } },
+      { at: 30 },
+    ]).getMetrics();
+
+    expect(upgradePace).toBe("Not enough data");
+  });
+});
+
+describe("getAnalysis", () => {
+  it("returns the placeholder without a provider", async () => {
+    const analysis = await new GameObserver(null).getAnalysis(base, 0);
+
+    expect(analysis.isDefault).toBe(true);
+  });
+
+  it("asks the provider at most every ANALYSIS_INTERVAL of game time", async () => {
+    const provider = new MockProvider().enqueue(
+      analysisReply({ strengths: ["a"], concerns: ["b"], suggestions: ["c"] })
+    );
+    const observer = new GameObserver(provider);
+
+    const first = await observer.getAnalysis(base, 0);
+    const cached = await observer.getAnalysis(
+      base,
+      observer.ANALYSIS_INTERVAL - 1
+    );
+
+    expect(first).toEqual({
+      strengths: ["a"],
+      concerns: ["b"],
+      suggestions: ["c"],
+      isDefault: false,
+    });
+    expect(cached).toBe(first);
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it("falls back to the placeholder on a response without analysis", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const provider = new MockProvider().enqueue({ fault: "wrongCount" });
+
+    const analysis = await new GameObserver(provider).getAnalysis(base, 0);
+
+    expect(analysis.isDefault).toBe(true);
+  });
+
+  it("keeps only the points that are strings", async () => {
+    const provider = new MockProvider().enqueue(
+      analysisReply({
+        strengths: "all good",
+        concerns: [{ text: "b" }, "c"],
+      })
+    );
+
+    const analysis = await new GameObserver(provider).getAnalysis(base, 0);
+
+    expect(analysis).toEqual({
+      strengths: [],
+      concerns: ["c"],
+      suggestions: [],
+      isDefault: false,
+    });
+  });
+
+  it("falls back to the placeholder when the analysis isn't an object", async () => {
+    const provider = new MockProvider().enqueue(analysisReply(["a", "b"]));
+
+    const analysis = await new GameObserver(provider).getAnalysis(base, 0);
+
+    expect(analysis.isDefault).toBe(true);
+  });
+});
@@ -1,45 +1,55 @@
-import OpenAI from "openai";
-
-interface GameState {
-  resources: {
-    oxygen: number;
-    water: number;
-    temperature: number;
-    energy: number;
-  };
+import {
+  DEFAULT_OBSERVER_MODEL,
+  type LLMProvider,
+  type Message,
+  type ModelConfig,
+} from "./llm";
+import {
+  describeDifficulty,
+  describeRules,
+  formatBuildings,
+  formatEvents,
+  formatUpgradeTree,
+} from "./prompts";
+import { isRecord } from "./json";
+import type { GameState, Resource, Scenario } from "./schema";
+
+type GameHistory = {
+  // Game time, so pauses don't count
+  time: number;
+  resources: Resource;
   credits: number;
-  upgrades: Array<{
-    id: string;
-    name: string;
-    cost: number;
-    resourceType: string;
-    multiplier: number;
-    purchased: boolean;
-  }>;
-  gameWon: boolean;
-  gameLost: boolean;
+  // Upgrade levels bought so far, counting each level of repeatable ones
+  upgradesBought: number;
   criticalTimer: number | null;
-}
+};
 
-type Message = {
-  role: "system" | "user" | "assistant";
-  content: string;
+export type Analysis = {
+  strengths: string[];
+  concerns: string[];
+  suggestions: string[];
+  // True for the canned getDefaultAnalysis placeholder, false for a real
+  // LLM analysis
+  isDefault: boolean;
 };
 
-type GameHistory = {
-  timestamp: number;
-  resources: {
-    oxygen: number;
-    water: number;
-    temperature: number;
-    energy: number;
-  };
-  credits: number;
-  purchasedUpgrades: string[];
-  criticalTimer: number | null;
+// Computed locally from the game history, no LLM needed
+export type ObserverMetrics = {
+  trends: { [key: string]: string };
+  criticalTime: string;
+  upgradePace: string;
+  stability: string;
 };
 
-const SYSTEM_PROMPT = `You are an expert observer analyzing a Mars terraforming game. Your role is to provide insightful feedback about the current game state, trends, and strategy.
+const systemPrompt = (
+  scenario: Scenario
+) => `You are an expert observer analyzing a terraforming game (scenario: ${
+  scenario.name
+}). Your role is to provide insightful feedback about the current game state, trends, and strategy.
+
+The rules of the game:
+
+${describeRules(scenario)}
 
 Analyze:
 1. Resource Management
@@ -70,50 +80,101 @@ You must respond with a JSON object in this exact format:
 
 Keep each point brief and specific. Focus on trends and patterns that could impact success. Remember to always format your response as a valid JSON object.`;
 
+// Share of snapshots taken with the critical countdown running, null
+// without any. Also used by the benchmark, which snapshots every tick.
+export function criticalShare(
+  history: { criticalTimer: number | null }[]
+): number | null {
+  if (history.length === 0) return null;
+  return (
+    history.filter((h) => h.criticalTimer !== null).length / history.length
+  );
+}
+
+// Requests sent with their replies, including the current one
+export const HISTORY_TURNS = 3;
+
 export class GameObserver {
-  private openai: OpenAI;
+  // Without a provider only the local metrics are available
+  private provider: LLMProvider | null;
+  private model: ModelConfig;
   private messageHistory: Message[] = [];
+  private scenarioId: string | null = null;
   private gameHistory: GameHistory[] = [];
-  private lastAnalysisTime: number = 0;
-  private readonly ANALYSIS_INTERVAL = 10000; // 10 seconds
+  // Game time of the last request
+  private lastAnalysisTime: number = -Infinity;
+  private lastAnalysis: Analysis | null = null;
+  readonly ANALYSIS_INTERVAL = 10000; // 10 seconds
+
+  constructor(
+    provider: LLMProvider | null,
+    model: ModelConfig = DEFAULT_OBSERVER_MODEL
+  ) {
+    this.provider = provider;
+    this.model = model;
+  }
 
-  constructor(apiKey: string) {
-    this.openai = new OpenAI({
-      apiKey: apiKey,
-      dangerouslyAllowBrowser: true,
-    });
-    this.messageHistory = [{ role: "system", content: SYSTEM_PROMPT }];
+  get hasProvider(): boolean {
+    return this.provider !== null;
   }
 
-  async getAnalysis(gameState: GameState): Promise<{
-    strengths: string[];
-    concerns: string[];
-    suggestions: string[];
-  }> {
-    const currentTime = Date.now();
+  // Adds a snapshot taken at game time `time` to the history used for trends
+  // and metrics
+  record(gameState: GameState, time: number) {
+    // A new game or a load turns the clock back, the old history doesn't
+    // belong to it
+    const latest = this.gameHistory[this.gameHistory.length - 1];
+    if (latest && time < latest.time) {
+      this.gameHistory = [];
+      this.lastAnalysisTime = -Infinity;
+    }
 
     // Add state to history
     this.gameHistory.push({
-      timestamp: currentTime,
+      time,
       resources: { ...gameState.resources },
       credits: gameState.credits,
-      purchasedUpgrades: gameState.upgrades
-        .filter((u) => u.purchased)
-        .map((u) => u.id),
+      upgradesBought: gameState.upgrades.reduce((n, u) => n + u.level, 0),
       criticalTimer: gameState.criticalTimer,
     });
 
     // Keep last 5 minutes of history
-    const fiveMinutesAgo = currentTime - 5 * 60 * 1000;
-    this.gameHistory = this.gameHistory.filter(
-      (h) => h.timestamp > fiveMinutesAgo
-    );
+    const fiveMinutesAgo = time - 5 * 60 * 1000;
+    this.gameHistory = this.gameHistory.filter((h) => h.time > fiveMinutesAgo);
+  }
 
-    // Only analyze if enough time has passed
-    if (currentTime - this.lastAnalysisTime < this.ANALYSIS_INTERVAL) {
+  getMetrics(): ObserverMetrics {
+    return {
+      trends: this.calculateTrends(),
+      criticalTime: this.countCriticalEvents(),
+      upgradePace: this.analyzeUpgradePace(),
+      stability: this.analyzeResourceStability(),
+    };
+  }
+
+  // Analysis of the game at game time `time`, using the history recorded so
+  // far
+  async getAnalysis(gameState: GameState, time: number): Promise<Analysis> {
+    // Only analyze if enough game time has passed
+    if (
+      time >= this.lastAnalysisTime &&
+      time - this.lastAnalysisTime < this.ANALYSIS_INTERVAL
+    ) {
+      return this.lastAnalysis ?? this.getDefaultAnalysis();
+    }
+    this.lastAnalysisTime = time;
+
+    if (!this.provider) {
       return this.getDefaultAnalysis();
     }
-    this.lastAnalysisTime = currentTime;
+
+    // The system prompt describes the scenario's rules
+    if (gameState.scenario.id !== this.scenarioId) {
+      this.scenarioId = gameState.scenario.id;
+      this.messageHistory = [
+        { role: "system", content: systemPrompt(gameState.scenario) },
+      ];
+    }
 
     try {
       const stateMessage = this.formatGameStateWithHistory(gameState);
@@ -121,23 +182,23 @@ export class GameObserver {
       // Add new state message
       this.messageHistory.push({ role: "user", content: stateMessage });
 
-      // Keep only last 100 messages
-      if (this.messageHistory.length > 100) {
+      // Each state message carries its own trends, so older turns are
+      // dropped rather than summarized
+      const kept = HISTORY_TURNS * 2 - 1;
+      if (this.messageHistory.length > kept + 1) {
         this.messageHistory = [
           this.messageHistory[0], // Keep system prompt
-          ...this.messageHistory.slice(-99), // Keep last 99 messages
+          ...this.messageHistory.slice(-kept),
         ];
       }
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o-2024-11-20",
-        messages: this.messageHistory,
-        temperature: 0.3,
-        max_tokens: 500,
-        response_format: { type: "json_object" },
+      const response = await this.provider.complete({
+        ...this.model,
+        messages: [...this.messageHistory],
+        json: true,
       });
 
-      const analysisText = response.choices[0]?.message?.content;
+      const analysisText = response.content;
       if (!analysisText) {
         return this.getDefaultAnalysis();
       }
@@ -148,31 +209,40 @@ export class GameObserver {
         content: analysisText,
       });
 
+      let parsed: unknown;
       try {
-        const parsedResponse = JSON.parse(analysisText);
-        if (parsedResponse.analysis) {
-          return {
-            strengths: parsedResponse.analysis.strengths || [],
-            concerns: parsedResponse.analysis.concerns || [],
-            suggestions: parsedResponse.analysis.suggestions || [],
-          };
-        }
+        parsed = JSON.parse(analysisText);
       } catch (e) {
         console.error("Failed to parse analysis:", e);
+        return this.getDefaultAnalysis();
       }
 
-      return this.getDefaultAnalysis();
+      const analysis = isRecord(parsed) ? parsed.analysis : undefined;
+      if (!isRecord(analysis)) {
+        return this.getDefaultAnalysis();
+      }
+      // The panel renders each point, so anything but a list of strings is
+      // dropped
+      const points = (key: string) => {
+        const list = analysis[key];
+        return Array.isArray(list)
+          ? list.filter((point): point is string => typeof point === "string")
+          : [];
+      };
+      this.lastAnalysis = {
+        strengths: points("strengths"),
+        concerns: points("concerns"),
+        suggestions: points("suggestions"),
+        isDefault: false,
+      };
+      return this.lastAnalysis;
     } catch (error) {
-      console.error("OpenAI API error:", error);
+      console.error(`LLM error (${this.provider.name}):`, error);
       return this.getDefaultAnalysis();
     }
   }
 
   private formatGameStateWithHistory(state: GameState): string {
-    const purchasedUpgrades = state.upgrades
-      .filter((u) => u.purchased)
-      .map((u) => `${u.id} (${u.multiplier}x ${u.resourceType})`);
-
     // Calculate trends
     const trends = this.calculateTrends();
 
@@ -184,6 +254,7 @@ RESOURCES:
 - Temperature: ${state.resources.temperature.toFixed(1)}°C ${trends.temperature}
 - Energy: ${state.resources.energy.toFixed(1)}% ${trends.energy}
 
+Difficulty: ${describeDifficulty(state.difficulty)}
 Credits: ${state.credits} ${trends.credits}
 Critical Timer: ${
       state.criticalTimer !== null
@@ -196,17 +267,11 @@ RESOURCE TRENDS (Last 5 minutes):
 - Upgrade Pace: ${this.analyzeUpgradePace()}
 - Resource Stability: ${this.analyzeResourceStability()}
 
-AVAILABLE UPGRADES:
-${state.upgrades
-  .filter((u) => !u.purchased)
-  .map(
-    (u) =>
-      `- ${u.id}: ${u.name} (Cost: ${u.cost}, ${u.multiplier}x ${u.resourceType})`
-  )
-  .join("\n")}
+${formatUpgradeTree(state.upgrades)}
+
+${formatBuildings(state.buildings, state.upgrades)}
 
-PURCHASED UPGRADES:
-${purchasedUpgrades.length > 0 ? purchasedUpgrades.join("\n") : "None"}
+${formatEvents(state)}
 
 Analyze the game state and trends to provide strategic insights.`;
   }
@@ -242,24 +307,22 @@ Analyze the game state and trends to provide strategic insights.`;
   }
 
   private countCriticalEvents(): string {
-    const criticalCount = this.gameHistory.filter(
-      (h) => h.criticalTimer !== null
-    ).length;
-    const total = this.gameHistory.length;
-    const percentage = ((criticalCount / total) * 100).toFixed(0);
-    return `${percentage}% of time in critical state`;
+    const share = criticalShare(this.gameHistory);
+    if (share === null) return "Not enough data";
+    return `${(share * 100).toFixed(0)}% of time in critical state`;
   }
 
   private analyzeUpgradePace(): string {
     if (this.gameHistory.length < 2) return "Not enough data";
 
     const upgrades =
-      this.gameHistory[this.gameHistory.length - 1].purchasedUpgrades;
+      this.gameHistory[this.gameHistory.length - 1].upgradesBought;
     const timeSpan =
-      (this.gameHistory[this.gameHistory.length - 1].timestamp -
-        this.gameHistory[0].timestamp) /
+      (this.gameHistory[this.gameHistory.length - 1].time -
+        this.gameHistory[0].time) /
       1000;
-    const upgradesPerMinute = ((upgrades.length / timeSpan) * 60).toFixed(1);
+    if (timeSpan <= 0) return "Not enough data";
+    const upgradesPerMinute = ((upgrades / timeSpan) * 60).toFixed(1);
 
     return `${upgradesPerMinute} upgrades/min`;
   }
@@ -290,7 +353,7 @@ Analyze the game state and trends to provide strategic insights.`;
     );
   }
 
-  private getDefaultAnalysis() {
+  private getDefaultAnalysis(): Analysis {
     return {
       strengths: ["Maintaining basic resource generation"],
       concerns: ["Resource levels need attention"],
@@ -298,6 +361,7 @@ Analyze the game state and trends to provide strategic insights.`;
         "Focus on energy efficiency",
         "Consider strategic upgrades",
       ],
+      isDefault: true,
     };
   }
 }
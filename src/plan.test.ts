@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { createInitialState, toGameState } from "./engine";
+import {
+  formatPlanStep,
+  parsePlanStep,
+  toPlanStep,
+  unmetCondition,
+  type PlanStep,
+} from "./plan";
+
+const gameState = toGameState(createInitialState(1));
+
+const parse = (value: unknown) => {
+  const result = parsePlanStep(value, gameState);
+  if (!result.ok) throw new Error(result.reason);
+  return result.step;
+};
+
+describe("parsePlanStep", () => {
+  it("parses a step without conditions", () => {
+    expect(parse("generate:oxygen")).toEqual(
+      toPlanStep({ type: "generate", resource: "oxygen" })
+    );
+  });
+
+  it("parses conditions joined by and", () => {
+    expect(parse("purchase:oxygen1 IF credits >= 80 and oxygen<50.5")).toEqual({
+      action: { type: "purchase", upgradeId: "oxygen1" },
+      conditions: [
+        { subject: "credits", operator: ">=", value: 80 },
+        { subject: "oxygen", operator: "<", value: 50.5 },
+      ],
+    });
+  });
+
+  it.each([
+    ["generate:air if energy > 20", 'Unknown resource "air"'],
+    ["generate:oxygen if air > 20", 'Unknown condition subject "air"'],
+    ["generate:oxygen if energy is low", "is not in the form"],
+    ["generate:oxygen if energy > 20 if water < 5", 'more than one "if"'],
+  ])("rejects %j", (value, reason) => {
+    const result = parsePlanStep(value, gameState);
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.reason).toContain(reason);
+  });
+
+  it("round-trips through formatPlanStep", () => {
+    const text = "generate:water if energy > 20 and credits <= 100";
+
+    expect(formatPlanStep(parse(text))).toBe(text);
+  });
+});
+
+describe("unmetCondition", () => {
+  const step: PlanStep = parse(
+    "generate:oxygen if energy > 20 and credits < 50"
+  );
+
+  it("is null when every condition holds", () => {
+    expect(
+      unmetCondition(step, {
+        resources: { ...gameState.resources, energy: 21 },
+        credits: 49,
+      })
+    ).toBeNull();
+  });
+
+  it("returns the first condition that doesn't hold", () => {
+    expect(
+      unmetCondition(step, {
+        resources: { ...gameState.resources, energy: 20 },
+        credits: 50,
+      })
+    ).toEqual(step.conditions[0]);
+  });
+});
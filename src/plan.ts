@@ -0,0 +1,136 @@
+import {
+  RESOURCE_TYPES,
+  formatGameAction,
+  isResourceType,
+  parseGameAction,
+  type ActionOutcome,
+  type GameAction,
+  type GameState,
+  type ResourceType,
+} from "./schema";
+
+// Agent plans: a list of actions run one at a time, each with optional
+// preconditions checked when its turn comes, e.g.
+// "generate:oxygen if energy > 20" or
+// "purchase:oxygen1 if credits >= 80 and oxygen < 50"
+
+export const MAX_PLAN_LENGTH = 20;
+
+export type ConditionSubject = ResourceType | "credits";
+export type ConditionOperator = ">" | ">=" | "<" | "<=";
+
+export interface PlanCondition {
+  subject: ConditionSubject;
+  operator: ConditionOperator;
+  value: number;
+}
+
+export interface PlanStep {
+  action: GameAction;
+  // All must hold, otherwise the step is skipped
+  conditions: PlanCondition[];
+}
+
+// What the agent hears about its previous plan with the next request
+export interface PlanFeedback {
+  results: ActionOutcome[];
+  // Why the plan was cut short, null if it ran out or this is the first
+  interrupt: string | null;
+}
+
+export type PlanStepParseResult =
+  | { ok: true; step: PlanStep }
+  | { ok: false; reason: string };
+
+const CONDITION_PATTERN = /^([a-z]+)\s*(>=|<=|>|<)\s*(-?\d+(?:\.\d+)?)$/;
+
+export const toPlanStep = (action: GameAction): PlanStep => ({
+  action,
+  conditions: [],
+});
+
+function parseCondition(text: string): PlanCondition | string {
+  const match = text.trim().toLowerCase().match(CONDITION_PATTERN);
+  if (!match) {
+    return `Condition "${text}" is not in the form "energy > 20"`;
+  }
+  const [, subject, operator, value] = match;
+  if (subject !== "credits" && !isResourceType(subject)) {
+    return `Unknown condition subject "${subject}", expected one of ${[
+      ...RESOURCE_TYPES,
+      "credits",
+    ].join(", ")}`;
+  }
+  return {
+    subject,
+    operator: operator as ConditionOperator,
+    value: Number(value),
+  };
+}
+
+// Parses "generate:oxygen" or "generate:oxygen if energy > 20 and water < 50"
+export function parsePlanStep(
+  value: unknown,
+  catalog: Pick<GameState, "upgrades" | "buildings" | "scenario">
+): PlanStepParseResult {
+  if (typeof value !== "string") {
+    return {
+      ok: false,
+      reason: `Action ${JSON.stringify(value)} is not a string`,
+    };
+  }
+  const [actionText, conditionText, ...rest] = value.split(/\s+if\s+/i);
+  if (rest.length > 0) {
+    return { ok: false, reason: `"${value}" has more than one "if"` };
+  }
+
+  const action = parseGameAction(actionText, catalog);
+  if (!action.ok) return action;
+  if (conditionText === undefined) {
+    return { ok: true, step: toPlanStep(action.action) };
+  }
+
+  const conditions: PlanCondition[] = [];
+  for (const text of conditionText.split(/\s+and\s+/i)) {
+    const condition = parseCondition(text);
+    if (typeof condition === "string") {
+      return { ok: false, reason: `${condition} in "${value}"` };
+    }
+    conditions.push(condition);
+  }
+  return { ok: true, step: { action: action.action, conditions } };
+}
+
+export const formatCondition = ({ subject, operator, value }: PlanCondition) =>
+  `${subject} ${operator} ${value}`;
+
+export const formatPlanStep = ({ action, conditions }: PlanStep) =>
+  conditions.length > 0
+    ? `${formatGameAction(action)} if ${conditions
+        .map(formatCondition)
+        .join(" and ")}`
+    : formatGameAction(action);
+
+// The first condition that doesn't hold in `state`, null if all do
+export function unmetCondition(
+  step: PlanStep,
+  state: Pick<GameState, "resources" | "credits">
+): PlanCondition | null {
+  const current = (subject: ConditionSubject) =>
+    subject === "credits" ? state.credits : state.resources[subject];
+  return (
+    step.conditions.find(({ subject, operator, value }) => {
+      const amount = current(subject);
+      switch (operator) {
+        case ">":
+          return !(amount > value);
+        case ">=":
+          return !(amount >= value);
+        case "<":
+          return !(amount < value);
+        case "<=":
+          return !(amount <= value);
+      }
+    }) ?? null
+  );
+}
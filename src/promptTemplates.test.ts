@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { createInitialState, toGameState } from "./engine";
+import {
+  DEFAULT_TEMPLATES,
+  STRATEGY_PROFILES,
+  TemplateError,
+  getProfile,
+  renderTemplate,
+  stateVariables,
+  systemVariables,
+  validateTemplate,
+  validateTemplates,
+} from "./promptTemplates";
+
+const gameState = toGameState(createInitialState(1));
+
+describe("renderTemplate", () => {
+  it("fills in variables, with or without spaces in the braces", () => {
+    expect(renderTemplate("{{a}} and {{ b }}", { a: "1", b: "2" })).toBe(
+      "1 and 2"
+    );
+  });
+
+  it("leaves out lines holding only an empty variable", () => {
+    expect(
+      renderTemplate("Head\n\n{{feedback}}\n\nTail", { feedback: "" })
+    ).toBe("Head\n\nTail");
+    expect(
+      renderTemplate("Head\n\n{{feedback}}\n\nTail", { feedback: "Note" })
+    ).toBe("Head\n\nNote\n\nTail");
+  });
+
+  it("throws on unknown variables", () => {
+    expect(() => renderTemplate("{{nope}}", {})).toThrow(TemplateError);
+  });
+});
+
+describe("validateTemplate", () => {
+  it("accepts the default templates", () => {
+    expect(validateTemplates(DEFAULT_TEMPLATES)).toEqual([]);
+  });
+
+  it("lists unknown variables once and empty templates", () => {
+    expect(validateTemplate("system", "{{energy}} {{energy}}")).toEqual([
+      "Unknown variable {{energy}} in the system template",
+    ]);
+    expect(validateTemplate("state", "  ")).toEqual([
+      "The state template is empty",
+    ]);
+  });
+});
+
+describe("default templates", () => {
+  it("describe the rules and the profile's strategy", () => {
+    const profile = getProfile("temperatureRush");
+    const prompt = renderTemplate(
+      DEFAULT_TEMPLATES.system,
+      systemVariables(gameState.scenario, profile)
+    );
+
+    expect(prompt).toContain("STRATEGY TIPS (Temperature rush):");
+    expect(prompt).toContain(`- ${profile.tips[0]}`);
+    expect(prompt).toContain("WIN CONDITIONS:");
+    expect(prompt).toContain("- generate:temperature");
+    expect(prompt).not.toMatch(/\{\{/);
+  });
+
+  it("describe the live state", () => {
+    const state = {
+      ...gameState,
+      credits: 42,
+      criticalTimer: 7,
+      resources: { ...gameState.resources, energy: 12.345 },
+    };
+
+    const prompt = renderTemplate(
+      DEFAULT_TEMPLATES.state,
+      stateVariables(state, null)
+    );
+
+    expect(prompt).toContain("- Energy: 12.3%");
+    expect(prompt).toContain("Credits: 42");
+    expect(prompt).toContain("Critical Timer: 7s remaining!");
+    expect(prompt).not.toContain("\n\n\n");
+    expect(
+      renderTemplate(
+        DEFAULT_TEMPLATES.state,
+        stateVariables(state, "LAST PLAN: 1 applied")
+      )
+    ).toContain("\n\nLAST PLAN: 1 applied\n\nAnalyze");
+  });
+});
+
+describe("getProfile", () => {
+  it("knows every profile by id", () => {
+    for (const id of Object.keys(STRATEGY_PROFILES)) {
+      expect(getProfile(id).tips.length).toBeGreaterThan(0);
+    }
+    expect(() => getProfile("toString")).toThrow(TemplateError);
+  });
+});
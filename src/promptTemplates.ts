@@ -0,0 +1,309 @@
+import { MAX_PLAN_LENGTH } from "./plan";
+import {
+  describeDifficulty,
+  describeRules,
+  formatBuildings,
+  formatEvents,
+  formatUpgradeTree,
+} from "./prompts";
+import {
+  RESOURCE_TYPES,
+  type GameState,
+  type ResourceType,
+  type Scenario,
+} from "./schema";
+
+// Editable agent prompts. Templates are plain text with {{variable}}
+// placeholders filled from the scenario and the live game state, and a
+// strategy profile supplies the play style, so prompts can be tuned without
+// touching the code.
+
+export interface PromptTemplates {
+  // Sent once per game, describes the rules and the reply format
+  system: string;
+  // Sent with every request
+  state: string;
+}
+
+export type TemplateName = keyof PromptTemplates;
+
+export interface StrategyProfile {
+  name: string;
+  description: string;
+  tips: string[];
+}
+
+export interface PromptSettings {
+  // Id in STRATEGY_PROFILES
+  profile: string;
+  templates: PromptTemplates;
+}
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+export const STRATEGY_PROFILES: Record<string, StrategyProfile> = {
+  balanced: {
+    name: "Balanced",
+    description: "Grow energy first, then everything evenly",
+    tips: [
+      "Keep energy above 20% for safety",
+      "Prioritize energy upgrades early",
+      "Buy upgrades when safe",
+      "Build when energy production can cover the upkeep",
+      "Balance resource generation",
+    ],
+  },
+  cautious: {
+    name: "Cautious",
+    description: "Never risk the critical countdown",
+    tips: [
+      "Keep energy above 40% and every resource well above the critical threshold",
+      "Only buy upgrades with energy above 50% and no critical countdown",
+      "Only build when energy production covers the upkeep with room to spare",
+      "Prefer short plans with conditions so you are asked again before things go wrong",
+      "When an event asks for a choice, take the one that hits weakest",
+    ],
+  },
+  economy: {
+    name: "Aggressive economy",
+    description: "Spend every credit on production as early as possible",
+    tips: [
+      "Spend credits as soon as you can afford an upgrade or building",
+      "Prefer upgrades and buildings that raise production over generating by hand",
+      "Keep energy just above 20%, enough to keep acting",
+      "Save credits for a choice only when an event would otherwise cost a building",
+    ],
+  },
+  temperatureRush: {
+    name: "Temperature rush",
+    description: "Push temperature first, it is the slowest win condition",
+    tips: [
+      "Temperature usually takes longest to reach its target, work on it first",
+      "Buy temperature upgrades and buildings before anything else",
+      "Keep oxygen and water just clear of the critical threshold until temperature is close",
+      "Keep energy above 20% for safety",
+    ],
+  },
+};
+
+export const DEFAULT_PROFILE = "balanced";
+
+export const DEFAULT_TEMPLATES: PromptTemplates = {
+  system: `You are an AI agent playing a terraforming game (scenario: {{scenario}}). Your goal is to terraform the planet by managing resources efficiently.
+
+{{rules}}
+
+STRATEGY TIPS ({{profile}}):
+{{strategy}}
+- Read LAST PLAN and don't repeat actions that were rejected or had no effect
+
+Respond with a JSON object containing a short "rationale" for the plan, a "risk" assessment and an "actions" array with a plan of 1 to {{maxPlanLength}} actions:
+{
+  "rationale": "One or two sentences on why these actions",
+  "risk": "low, medium or high, and the biggest threat right now",
+  "actions": [
+    "generate:energy",
+    "generate:oxygen if energy > 20",
+    "purchase:{{exampleUpgrade}} if credits >= 50 and oxygen > 30",
+    ...
+  ]
+}
+
+The actions run one every half second. An action may end with "if" and
+conditions joined by "and", each comparing {{resources}} or credits with >, >=, < or <= to a number. The action is skipped when
+they don't hold at its turn. Short plans get you asked again sooner. You may
+be asked early, with the rest of your plan dropped, when the critical
+countdown starts or a bad event hits.
+
+Available actions:
+{{actions}}`,
+  state: `Current Game State:
+
+RESOURCES:
+- Oxygen: {{oxygen}}%
+- Water: {{water}}%
+- Temperature: {{temperature}}°C
+- Energy: {{energy}}%
+
+Difficulty: {{difficulty}}
+Credits: {{credits}}
+Critical Timer: {{criticalTimer}}
+
+{{upgrades}}
+
+{{buildings}}
+
+{{events}}
+
+{{goals}}
+
+{{feedback}}
+
+Analyze the situation and provide a plan of up to {{maxPlanLength}} actions.
+Prioritize preventing critical failure and maintaining energy levels.`,
+};
+
+export const DEFAULT_PROMPT_SETTINGS: PromptSettings = {
+  profile: DEFAULT_PROFILE,
+  templates: DEFAULT_TEMPLATES,
+};
+
+// Variables each template may use, with what they hold
+export const TEMPLATE_VARIABLES: Record<
+  TemplateName,
+  Record<string, string>
+> = {
+  system: {
+    scenario: "Scenario name",
+    rules: "Win and failure conditions and resource mechanics",
+    profile: "Strategy profile name",
+    strategy: "The profile's tips, one per line",
+    maxPlanLength: "Most actions in a plan",
+    resources: "Resource names, comma separated",
+    exampleUpgrade: "Id of the first upgrade",
+    actions: "Available actions, one per line",
+  },
+  state: {
+    oxygen: "Oxygen level",
+    water: "Water level",
+    temperature: "Temperature",
+    energy: "Energy level",
+    credits: "Credits",
+    difficulty: "Difficulty and what it changes",
+    criticalTimer: 'Seconds left on the critical countdown, or "safe"',
+    criticalThreshold: "Level at or below which a resource is critical",
+    winThresholds: "Levels needed to win",
+    upgrades: "Upgrade tree with levels, costs and what is locked",
+    buildings: "Buildings with counts, costs and upkeep",
+    events: "Active events and a choice waiting, if any",
+    goals: "The player's standing goals, empty without any",
+    feedback: "How the last plan went, empty on the first request",
+    maxPlanLength: "Most actions in a plan",
+  },
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+const capitalize = (text: string) => text[0].toUpperCase() + text.slice(1);
+
+// Problems with a template, empty if it can be used
+export function validateTemplate(name: TemplateName, template: string) {
+  const errors: string[] = [];
+  if (template.trim() === "") errors.push(`The ${name} template is empty`);
+  for (const [, variable] of template.matchAll(PLACEHOLDER)) {
+    if (!Object.keys(TEMPLATE_VARIABLES[name]).includes(variable)) {
+      errors.push(`Unknown variable {{${variable}}} in the ${name} template`);
+    }
+  }
+  return [...new Set(errors)];
+}
+
+export function validateTemplates(templates: PromptTemplates): string[] {
+  return (Object.keys(TEMPLATE_VARIABLES) as TemplateName[]).flatMap((name) =>
+    validateTemplate(name, templates[name])
+  );
+}
+
+export function getProfile(id: string): StrategyProfile {
+  if (!Object.keys(STRATEGY_PROFILES).includes(id)) {
+    throw new TemplateError(
+      `Unknown strategy profile "${id}", expected one of ${Object.keys(
+        STRATEGY_PROFILES
+      ).join(", ")}`
+    );
+  }
+  return STRATEGY_PROFILES[id];
+}
+
+// Fills in the placeholders. A line holding only a variable that comes out
+// empty is left out along with the blank line after it, so optional sections
+// don't leave gaps.
+export function renderTemplate(
+  template: string,
+  variables: Record<string, string>
+): string {
+  const lines: string[] = [];
+  let dropped = false;
+  for (const line of template.split("\n")) {
+    const only = /^\s*\{\{\s*(\w+)\s*\}\}\s*$/.exec(line);
+    if (only && variables[only[1]] === "") {
+      dropped = true;
+      continue;
+    }
+    if (dropped && line.trim() === "") continue;
+    dropped = false;
+    lines.push(
+      line.replace(PLACEHOLDER, (_, variable: string) => {
+        if (!Object.keys(variables).includes(variable)) {
+          throw new TemplateError(`Unknown variable {{${variable}}}`);
+        }
+        return variables[variable];
+      })
+    );
+  }
+  return lines.join("\n");
+}
+
+export const formatGoals = (goals: readonly string[]) =>
+  goals.length > 0
+    ? `PLAYER GOALS (follow these unless it would lose the game):
+${goals.map((goal) => `- ${goal}`).join("\n")}`
+    : "";
+
+export function systemVariables(
+  scenario: Scenario,
+  profile: StrategyProfile
+): Record<string, string> {
+  return {
+    scenario: scenario.name,
+    rules: describeRules(scenario),
+    profile: profile.name,
+    strategy: profile.tips.map((tip) => `- ${tip}`).join("\n"),
+    maxPlanLength: String(MAX_PLAN_LENGTH),
+    resources: RESOURCE_TYPES.join(", "),
+    exampleUpgrade: scenario.upgrades[0]?.id ?? "upgradeId",
+    actions: [
+      ...RESOURCE_TYPES.map((type) => `- generate:${type}`),
+      "- purchase:[upgradeId]",
+      "- build:[buildingId]",
+      "- choose:[choiceId] (only while an event is waiting for a choice)",
+    ].join("\n"),
+  };
+}
+
+export function stateVariables(
+  state: GameState,
+  // Formatted feedback on the previous plan, null on the first request
+  feedback: string | null,
+  goals: readonly string[] = []
+): Record<string, string> {
+  return {
+    ...(Object.fromEntries(
+      RESOURCE_TYPES.map((type) => [type, state.resources[type].toFixed(1)])
+    ) as Record<ResourceType, string>),
+    credits: String(state.credits),
+    difficulty: describeDifficulty(state.difficulty),
+    criticalTimer:
+      state.criticalTimer !== null
+        ? `${state.criticalTimer}s remaining!`
+        : "safe",
+    criticalThreshold: `${state.scenario.criticalThreshold}%`,
+    winThresholds: Object.entries(state.scenario.winThresholds)
+      .map(
+        ([type, amount]) =>
+          `${capitalize(type)} ${amount}${type === "temperature" ? "°C" : "%"}`
+      )
+      .join(", "),
+    upgrades: formatUpgradeTree(state.upgrades),
+    buildings: formatBuildings(state.buildings, state.upgrades),
+    events: formatEvents(state).trim(),
+    goals: formatGoals(goals),
+    feedback: feedback ?? "",
+    maxPlanLength: String(MAX_PLAN_LENGTH),
+  };
+}
@@ -0,0 +1,296 @@
+import { difficultyLabel } from "./difficulty";
+import {
+  EVENT_DECISION_TIME,
+  OFFLINE_PROGRESS_CAP,
+  getBuildingCost,
+  getEvent,
+  getUpgradeCost,
+  getUpgradeStatus,
+  isBuildingUnlocked,
+} from "./engine";
+import type { PlanFeedback } from "./plan";
+import {
+  RESOURCE_TYPES,
+  formatGameAction,
+  type ActionResult,
+  type Building,
+  type BuildingDefinition,
+  type Difficulty,
+  type GameState,
+  type ResourceType,
+  type Scenario,
+  type Upgrade,
+  type UpgradeDefinition,
+} from "./schema";
+
+// Prompt text shared by the agent and the observer, generated from the
+// scenario so it always matches the rules the engine runs
+
+const RESOURCE_UNITS: Record<ResourceType, string> = {
+  oxygen: "%",
+  water: "%",
+  temperature: "°C",
+  energy: "%",
+};
+
+const capitalize = (text: string) => text[0].toUpperCase() + text.slice(1);
+
+const formatAmount = (type: ResourceType, amount: number) =>
+  `${amount}${RESOURCE_UNITS[type]}`;
+
+// Rules section shared by the agent and observer system prompts
+export function describeRules(scenario: Scenario): string {
+  const critical = scenario.criticalResources.join(", ");
+  const ignored = RESOURCE_TYPES.filter(
+    (type) => !scenario.criticalResources.includes(type)
+  );
+
+  return `WIN CONDITIONS:
+${Object.entries(scenario.winThresholds)
+  .map(
+    ([type, amount]) =>
+      `- ${capitalize(type)}: ${formatAmount(type as ResourceType, amount)}${
+        type === "temperature" ? " or higher" : ""
+      }`
+  )
+  .join("\n")}
+
+CRITICAL FAILURE CONDITIONS:
+- Any resource (${critical}) at or below ${scenario.criticalThreshold}% for ${
+    scenario.criticalCountdown
+  } seconds${
+    ignored.length > 0
+      ? `\n- ${ignored
+          .map(capitalize)
+          .join(", ")} doesn't affect critical failure`
+      : ""
+  }
+
+RESOURCE MECHANICS:
+1. Energy:
+   - Required for all actions except energy generation
+   - Each action costs ${scenario.actionEnergyCost} energy
+   - Naturally drains over time
+   - Generate energy without energy cost
+
+2. Resources Generation:
+   - Base gains per action:
+${RESOURCE_TYPES.map(
+  (type) =>
+    `     * ${capitalize(type)}: ${formatAmount(type, scenario.baseGain[type])}`
+).join("\n")}
+   - All gains affected by energy efficiency (current energy / 100)
+   - Resources drain over time
+   - Each action earns ${scenario.actionCredits} credits
+
+3. Upgrades:
+   - Permanently multiply resource generation
+   - Cost credits
+   - Can't be refunded
+   - Stack multiplicatively
+   - Form a tech tree: an upgrade can only be bought once every upgrade it requires has been purchased
+   - Some can be bought several times; each level costs more and applies its effects again
+   - Some have side effects such as extra drain or a lower energy cost per action
+
+4. Buildings:
+   - Cost credits, each one more than the last, up to a maximum count
+   - Produce resources or credits on every drain tick without any action
+   - Pay their upkeep first; a building type stands idle on a tick when its upkeep can't be paid
+   - Some need an upgrade before they can be built
+   - Keep producing while the game is closed, for up to ${
+     OFFLINE_PROGRESS_CAP / 60_000
+   } minutes
+
+5. Events:
+   - Fire at random; which ones depends on the game phase (early, mid, late)
+   - Some last a while and hit again on every drain tick until they end
+   - Some offer choices: pay credits to soften or block them, or they hit at full strength after ${
+     EVENT_DECISION_TIME / 1000
+   } seconds
+   - Some can be followed by another event
+   - Some upgrades weaken specific events`;
+}
+
+// One-line summary of what a level of the upgrade does, e.g.
+// "1.3x temperature, 1.2x water drain"
+export function describeUpgrade(upgrade: UpgradeDefinition): string {
+  const { effects } = upgrade;
+  const parts =
+    upgrade.multiplier !== 1
+      ? [`${upgrade.multiplier}x ${upgrade.resourceType}`]
+      : [];
+  Object.entries(effects.drain ?? {}).forEach(([type, multiplier]) => {
+    parts.push(`${multiplier}x ${type} drain`);
+  });
+  Object.entries(effects.events ?? {}).forEach(([eventId, multiplier]) => {
+    parts.push(`${multiplier}x ${eventId.replace(/_/g, " ")}`);
+  });
+  if (effects.actionEnergyCost) {
+    parts.push(
+      `${effects.actionEnergyCost > 0 ? "+" : ""}${
+        effects.actionEnergyCost
+      } energy per action`
+    );
+  }
+  return parts.join(", ");
+}
+
+// e.g. "+1.5 energy, +3 credits, upkeep 1 energy"
+export function describeBuilding(building: BuildingDefinition): string {
+  const parts = Object.entries(building.production).map(
+    ([type, amount]) => `+${amount} ${type}`
+  );
+  if (building.credits > 0) {
+    parts.push(`+${building.credits} credits`);
+  }
+  const upkeep = Object.entries(building.upkeep).map(
+    ([type, amount]) => `${amount} ${type}`
+  );
+  if (upkeep.length > 0) {
+    parts.push(`upkeep ${upkeep.join(", ")}`);
+  }
+  return parts.join(", ");
+}
+
+const levelText = (upgrade: Upgrade) =>
+  upgrade.maxLevel > 1 ? `, level ${upgrade.level}/${upgrade.maxLevel}` : "";
+
+// Current tech tree: what can be bought now, what is still locked behind
+// prerequisites, and what has been bought
+export function formatUpgradeTree(upgrades: Upgrade[]): string {
+  const byStatus = (status: string) =>
+    upgrades.filter((u) => getUpgradeStatus(upgrades, u) === status);
+  const describe = (u: Upgrade) => {
+    const requires =
+      u.requires.length > 0 ? `, requires ${u.requires.join(" + ")}` : "";
+    return `- ${u.id}: ${u.name} (Cost: ${getUpgradeCost(u)}, ${describeUpgrade(
+      u
+    )}, tier ${u.tier}${requires}${levelText(u)})`;
+  };
+  const list = (items: string[]) =>
+    items.length > 0 ? items.join("\n") : "None";
+
+  return `AVAILABLE UPGRADES:
+${list(byStatus("available").map(describe))}
+
+LOCKED UPGRADES (buy every required upgrade first):
+${list(byStatus("locked").map(describe))}
+
+PURCHASED UPGRADES:
+${list(
+  upgrades
+    .filter((u) => u.level > 0)
+    .map((u) => `- ${u.id} (${describeUpgrade(u)}${levelText(u)})`)
+)}`;
+}
+
+// Buildings with their per-tick output, what they cost next and what still
+// keeps them locked
+export function formatBuildings(
+  buildings: Building[],
+  upgrades: Upgrade[]
+): string {
+  if (buildings.length === 0) return "BUILDINGS:\nNone";
+  return `BUILDINGS (output per building per drain tick):
+${buildings
+  .map((b) => {
+    const status = !isBuildingUnlocked(upgrades, b)
+      ? `locked, requires ${b.requires.join(" + ")}`
+      : b.count >= b.maxCount
+      ? "maximum built"
+      : `Cost: ${getBuildingCost(b)}`;
+    return `- ${b.id}: ${b.name} (${describeBuilding(b)}; built ${b.count}/${
+      b.maxCount
+    }; ${status})`;
+  })
+  .join("\n")}`;
+}
+
+// Running events and the choice waiting for an answer, if any
+export function formatEvents(
+  state: Pick<GameState, "scenario" | "activeEvents" | "pendingChoice">
+): string {
+  const titleOf = (id: string) => getEvent(state.scenario, id)?.title ?? id;
+  const active =
+    state.activeEvents.length > 0
+      ? state.activeEvents
+          .map(
+            (e) =>
+              `- ${titleOf(e.id)}: ${e.remaining}s left, ${Math.round(
+                e.scale * 100
+              )}% strength`
+          )
+          .join("\n")
+      : "None";
+
+  const pending = state.pendingChoice;
+  const event = pending && getEvent(state.scenario, pending.eventId);
+  const choice = event
+    ? `
+
+EVENT WAITING FOR A CHOICE: ${event.title} (${event.description})
+Hits at full strength in ${pending.remaining}s unless you choose:
+${event.choices
+  .map(
+    (c) =>
+      `- choose:${c.id}: ${c.label} (Cost: ${c.cost}, ${Math.round(
+        c.scale * 100
+      )}% strength)`
+  )
+  .join("\n")}`
+    : "";
+
+  return `ACTIVE EVENTS:
+${active}${choice}`;
+}
+
+// e.g. "Hard (1.25x drain, critical at or below 10% for 20s, 70% event chance)"
+export function describeDifficulty({ preset, settings }: Difficulty): string {
+  return `${difficultyLabel(preset)} (${
+    settings.drainMultiplier
+  }x drain, critical at or below ${settings.criticalThreshold}% for ${
+    settings.criticalCountdown
+  }s, ${Math.round(settings.eventChance * 100)}% event chance)`;
+}
+
+// How the agent's previous plan went: counts per result, why it was cut
+// short, every action that failed (repeats counted once) and what was wrong
+// with the response itself
+export function formatPlanFeedback(
+  { results, interrupt }: PlanFeedback,
+  responseErrors: string[]
+): string {
+  const count = (status: ActionResult["status"]) =>
+    results.filter((o) => o.result.status === status).length;
+
+  // Skipped steps did what their conditions asked, so only the counts matter
+  const failures = new Map<string, number>();
+  results.forEach(({ action, result }) => {
+    if (result.status === "applied" || result.status === "skipped") return;
+    const line = `${
+      result.status === "rejected" ? "Rejected" : "No effect"
+    } ${formatGameAction(action)}: ${result.reason}`;
+    failures.set(line, (failures.get(line) ?? 0) + 1);
+  });
+
+  const lines = [
+    ...[...failures].map(
+      ([line, times]) => `- ${line}${times > 1 ? ` (${times} times)` : ""}`
+    ),
+    ...responseErrors.map((error) => `- Response: ${error}`),
+  ];
+  return `LAST PLAN: ${count("applied")} applied, ${count(
+    "noop"
+  )} had no effect, ${count("skipped")} skipped, ${count("rejected")} rejected${
+    interrupt
+      ? `
+INTERRUPTED: ${interrupt}. Plan for the new situation.`
+      : ""
+  }${
+    lines.length > 0
+      ? `
+Avoid repeating these:
+${lines.join("\n")}`
+      : ""
+  }`;
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { createInitialState } from "./engine";
+import { createReplay, parseReplay, ReplayError } from "./replay";
+
+const game = createInitialState(1);
+const end = { ...game, time: 100 };
+const replay = createReplay(
+  game,
+  [
+    [0, "g", "oxygen"],
+    [100, "d"],
+  ],
+  end
+);
+
+describe("parseReplay", () => {
+  it("reads back an exported replay", () => {
+    expect(parseReplay(JSON.stringify(replay))).toEqual(replay);
+  });
+
+  it("rejects replays with a missing or invalid field", () => {
+    const edited = (fields: object) => JSON.stringify({ ...replay, ...fields });
+
+    expect(() => parseReplay(edited({ duration: undefined }))).toThrow(
+      "Replay has no duration"
+    );
+    expect(() => parseReplay(edited({ seed: "1" }))).toThrow(
+      "Replay has no seed"
+    );
+    expect(() => parseReplay(edited({ recordedAt: null }))).toThrow(
+      "Replay has no recording date"
+    );
+    expect(() => parseReplay(edited({ start: { version: 1 } }))).toThrow(
+      ReplayError
+    );
+    expect(() => parseReplay("[]")).toThrow("Unsupported replay version");
+  });
+});
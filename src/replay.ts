@@ -0,0 +1,272 @@
+import {
+  stepWithLog,
+  type EngineAction,
+  type EngineLogEntry,
+  type EngineState,
+} from "./engine";
+import {
+  createSaveFile,
+  restoreSaveFile,
+  SaveError,
+  type SaveFile,
+} from "./save";
+import { isFiniteNumber, isRecord } from "./json";
+import { isResourceType, type ResourceType } from "./schema";
+
+export const REPLAY_VERSION = 1;
+export const FRAME_INTERVAL = 250;
+
+// Compact log entries: [game time, kind, payload?]
+//   g: generate, p: purchase, b: build, c: event choice, x: events toggled
+//   (inputs, replayed)
+//   d: drain tick, e: event fired, w: won, l: lost (outcomes, verified)
+export type ReplayEntry =
+  | [number, "g", ResourceType]
+  | [number, "p", string]
+  | [number, "b", string]
+  | [number, "c", string]
+  | [number, "x", 0 | 1]
+  | [number, "d"]
+  | [number, "e", string]
+  | [number, "w"]
+  | [number, "l"];
+
+export interface Replay {
+  version: number;
+  seed: number;
+  recordedAt: number;
+  duration: number;
+  // Game state when recording started, in save file format
+  start: SaveFile;
+  entries: ReplayEntry[];
+}
+
+export interface ReplayFrame {
+  time: number;
+  state: EngineState;
+}
+
+export interface ReplayPlayback {
+  frames: ReplayFrame[];
+  log: EngineLogEntry[];
+  duration: number;
+  // Game time of the first outcome that differs from the recording
+  divergedAt: number | null;
+}
+
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReplayError";
+  }
+}
+
+export function toReplayEntries(log: EngineLogEntry[]): ReplayEntry[] {
+  return log.map((entry): ReplayEntry => {
+    switch (entry.type) {
+      case "action":
+        return actionEntry(entry.time, entry.action);
+      case "drain":
+        return [entry.time, "d"];
+      case "event":
+        return [entry.time, "e", entry.eventId];
+      case "gameWon":
+        return [entry.time, "w"];
+      case "gameLost":
+        return [entry.time, "l"];
+    }
+  });
+}
+
+function actionEntry(time: number, action: EngineAction): ReplayEntry {
+  switch (action.type) {
+    case "generate":
+      return [time, "g", action.resource];
+    case "purchase":
+      return [time, "p", action.upgradeId];
+    case "build":
+      return [time, "b", action.buildingId];
+    case "choose":
+      return [time, "c", action.choiceId];
+    case "setEventsEnabled":
+      return [time, "x", action.enabled ? 1 : 0];
+  }
+}
+
+function entryAction(entry: ReplayEntry): EngineAction | null {
+  switch (entry[1]) {
+    case "g":
+      return { type: "generate", resource: entry[2] };
+    case "p":
+      return { type: "purchase", upgradeId: entry[2] };
+    case "b":
+      return { type: "build", buildingId: entry[2] };
+    case "c":
+      return { type: "choose", choiceId: entry[2] };
+    case "x":
+      return { type: "setEventsEnabled", enabled: entry[2] === 1 };
+    default:
+      return null;
+  }
+}
+
+export function createReplay(
+  start: EngineState,
+  entries: ReplayEntry[],
+  end: EngineState
+): Replay {
+  return {
+    version: REPLAY_VERSION,
+    seed: start.seed,
+    recordedAt: Date.now(),
+    duration: end.time,
+    start: createSaveFile(start, Date.now()),
+    entries,
+  };
+}
+
+export function parseReplay(json: string): Replay {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new ReplayError("Replay is not valid JSON");
+  }
+  if (!isRecord(raw) || raw.version !== REPLAY_VERSION) {
+    const version = isRecord(raw) ? raw.version : undefined;
+    throw new ReplayError(`Unsupported replay version ${version}`);
+  }
+  const { seed, recordedAt, duration, entries } = raw;
+  if (!isFiniteNumber(seed)) {
+    throw new ReplayError("Replay has no seed");
+  }
+  if (!isFiniteNumber(recordedAt)) {
+    throw new ReplayError("Replay has no recording date");
+  }
+  if (!isFiniteNumber(duration) || duration < 0) {
+    throw new ReplayError("Replay has no duration");
+  }
+  if (!Array.isArray(entries)) {
+    throw new ReplayError("Replay has no entries");
+  }
+  entries.forEach((entry: unknown, i: number) => {
+    if (!isReplayEntry(entry)) {
+      throw new ReplayError(`Replay entry ${i} is invalid`);
+    }
+  });
+  // Restored and saved again, so older save versions come out migrated
+  let start: SaveFile;
+  try {
+    const { state, savedAt } = restoreSaveFile(raw.start);
+    start = createSaveFile(state, savedAt);
+  } catch (error) {
+    if (!(error instanceof SaveError)) throw error;
+    throw new ReplayError(`Replay start state is invalid: ${error.message}`);
+  }
+  return {
+    version: REPLAY_VERSION,
+    seed,
+    recordedAt,
+    duration,
+    start,
+    entries,
+  };
+}
+
+function isReplayEntry(entry: unknown): entry is ReplayEntry {
+  if (!Array.isArray(entry) || typeof entry[0] !== "number") return false;
+  switch (entry[1]) {
+    case "g":
+      return isResourceType(entry[2]);
+    case "p":
+    case "b":
+    case "c":
+    case "e":
+      return typeof entry[2] === "string";
+    case "x":
+      return entry[2] === 0 || entry[2] === 1;
+    case "d":
+    case "w":
+    case "l":
+      return entry.length === 2;
+    default:
+      return false;
+  }
+}
+
+// Re-simulates a replay from its start state, applying the recorded inputs
+// at their recorded times. Frames are taken every `frameInterval` ms and
+// after each input so the viewer can seek without re-simulating.
+export function playReplay(
+  replay: Replay,
+  frameInterval: number = FRAME_INTERVAL
+): ReplayPlayback {
+  let state = restoreSaveFile(replay.start).state;
+  const frames: ReplayFrame[] = [{ time: state.time, state }];
+  const log: EngineLogEntry[] = [];
+
+  const advanceTo = (time: number) => {
+    while (state.time < time) {
+      const result = stepWithLog(
+        state,
+        null,
+        Math.min(frameInterval, time - state.time)
+      );
+      // Time stops before the first action and after game over
+      if (result.state.time === state.time) break;
+      state = result.state;
+      log.push(...result.log);
+      frames.push({ time: state.time, state });
+    }
+  };
+
+  replay.entries.forEach((entry) => {
+    const action = entryAction(entry);
+    if (!action) return;
+    advanceTo(entry[0]);
+    const result = stepWithLog(state, action, 0);
+    state = result.state;
+    log.push(...result.log);
+    frames.push({ time: state.time, state });
+  });
+  advanceTo(replay.duration);
+
+  return {
+    frames,
+    log,
+    duration: Math.max(replay.duration, state.time),
+    divergedAt: findDivergence(replay.entries, toReplayEntries(log)),
+  };
+}
+
+function findDivergence(
+  recorded: ReplayEntry[],
+  simulated: ReplayEntry[]
+): number | null {
+  const outcomes = (entries: ReplayEntry[]) =>
+    entries.filter((entry) => !entryAction(entry));
+  const expected = outcomes(recorded);
+  const actual = outcomes(simulated);
+
+  for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+    if (JSON.stringify(expected[i]) !== JSON.stringify(actual[i])) {
+      return (expected[i] ?? actual[i])[0];
+    }
+  }
+  return null;
+}
+
+// Latest frame at or before `time`
+export function frameAt(frames: ReplayFrame[], time: number): ReplayFrame {
+  let low = 0;
+  let high = frames.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (frames[mid].time <= time) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return frames[low];
+}
@@ -0,0 +1,14 @@
+// Small seedable PRNG (mulberry32). The generator state is a plain number so
+// it can live inside serializable game state.
+export function nextRandom(rngState: number): [number, number] {
+  const nextState = (rngState + 0x6d2b79f5) | 0;
+  let t = nextState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  const value = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  return [value, nextState];
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) | 0;
+}
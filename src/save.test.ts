@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { createInitialState, type EngineState } from "./engine";
+import {
+  createSaveFile,
+  deserializeGame,
+  loadGame,
+  resumeGame,
+  saveGame,
+  SaveError,
+} from "./save";
+
+// A started game with one of the first building, so offline progress has
+// something to produce
+const startedGame = (): EngineState => {
+  const game = createInitialState(1);
+  return {
+    ...game,
+    gameStarted: true,
+    time: 60_000,
+    buildings: game.buildings.map((b, i) => ({ ...b, count: i === 0 ? 1 : 0 })),
+  };
+};
+
+const memoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => void items.delete(key),
+    setItem: (key, value) => void items.set(key, value),
+  };
+};
+
+describe("saves", () => {
+  it("load slots exactly as they were saved", () => {
+    const storage = memoryStorage();
+    const game = startedGame();
+    saveGame("slot1", game, storage);
+
+    const loaded = loadGame("slot1", storage);
+
+    expect(loaded?.progress).toBeNull();
+    expect(loaded?.state.resources).toEqual(game.resources);
+    expect(loaded?.state.credits).toBe(game.credits);
+  });
+
+  it("catch up on production when the game is reopened", () => {
+    const storage = memoryStorage();
+    const game = startedGame();
+    saveGame("autosave", game, storage);
+
+    const resumed = resumeGame("autosave", storage, Date.now() + 600_000);
+
+    expect(resumed?.progress?.ticks).toBeGreaterThan(0);
+  });
+
+  it("reject state fields that don't match the engine's", () => {
+    const file = createSaveFile(startedGame(), 0);
+    const edited = (state: object) =>
+      JSON.stringify({ ...file, state: { ...file.state, ...state } });
+
+    expect(() =>
+      deserializeGame(
+        edited({ resources: { ...file.state.resources, water: "50" } })
+      )
+    ).toThrow("Save has an invalid state.resources.water, expected a number");
+    expect(() =>
+      deserializeGame(
+        edited({ timers: { drain: 0, event: null, countdown: 0 } })
+      )
+    ).toThrow(SaveError);
+    expect(() =>
+      deserializeGame(
+        edited({ activeEvents: [{ id: "dust", endsAt: "soon" }] })
+      )
+    ).toThrow("state.activeEvents[0].endsAt");
+  });
+
+  it("keep only the engine's fields", () => {
+    const file = createSaveFile(startedGame(), 0);
+    const json = JSON.stringify({
+      ...file,
+      state: { ...file.state, cheat: true },
+    });
+
+    expect(deserializeGame(json).state).not.toHaveProperty("cheat");
+  });
+
+  it("migrate version 1 saves", () => {
+    const game = startedGame();
+    // Fields added by later versions
+    const state: Record<string, unknown> = { ...createSaveFile(game, 0).state };
+    [
+      "scenarioId",
+      "upgradeLevels",
+      "buildingCounts",
+      "activeEvents",
+      "pendingChoice",
+      "scheduledEvents",
+      "difficulty",
+    ].forEach((key) => delete state[key]);
+    const json = JSON.stringify({
+      version: 1,
+      savedAt: 0,
+      state: { ...state, purchasedUpgrades: [game.upgrades[0].id] },
+    });
+
+    const restored = deserializeGame(json).state;
+
+    expect(restored.scenario.id).toBe("mars");
+    expect(restored.upgrades[0].level).toBe(1);
+    expect(restored.buildings.every((b) => b.count === 0)).toBe(true);
+    expect(restored.resources).toEqual(game.resources);
+  });
+});
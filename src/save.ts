@@ -0,0 +1,415 @@
+import {
+  applyOfflineProgress,
+  createInitialState,
+  type EngineState,
+  type OfflineProgress,
+} from "./engine";
+import { DIFFICULTY_PRESETS, sanitizeSettings } from "./difficulty";
+import { isFiniteNumber, isRecord, type JsonRecord } from "./json";
+import { getScenario } from "./scenario";
+import { RESOURCE_TYPES, type Difficulty } from "./schema";
+
+export const SAVE_VERSION = 6;
+export const SLOT_COUNT = 3;
+export const AUTOSAVE_INTERVAL = 5000;
+
+const KEY_PREFIX = "curmars:save:";
+export const AUTOSAVE_SLOT = "autosave";
+
+export type SaveSlot = typeof AUTOSAVE_SLOT | `slot${number}`;
+
+// On-disk format. Upgrades and buildings are stored as levels and counts by
+// id rather than full objects, and the scenario by id plus the difficulty
+// settings applied to it, so catalog changes don't invalidate saves.
+export interface SaveFile {
+  version: number;
+  savedAt: number;
+  state: SavedState;
+}
+
+export type SavedState = Omit<
+  EngineState,
+  "upgrades" | "buildings" | "scenario"
+> & {
+  scenarioId: string;
+  // Only upgrades bought and buildings built at least once
+  upgradeLevels: Record<string, number>;
+  buildingCounts: Record<string, number>;
+};
+
+export interface LoadedGame {
+  state: EngineState;
+  // Null when nothing was produced while away
+  progress: OfflineProgress | null;
+}
+
+export interface SaveSummary {
+  slot: SaveSlot;
+  savedAt: number;
+  time: number;
+  gameWon: boolean;
+  gameLost: boolean;
+}
+
+export class SaveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SaveError";
+  }
+}
+
+// The state of a raw save, empty if it has none. restoreState reports the
+// missing fields.
+const stateOf = (save: JsonRecord): JsonRecord =>
+  isRecord(save.state) ? save.state : {};
+
+// MIGRATIONS[n] upgrades a raw version-n save to version n + 1
+const MIGRATIONS: Record<number, (save: JsonRecord) => JsonRecord> = {
+  // Scenario packs, everything before them was the Mars scenario
+  1: (save) => ({ ...save, state: { ...stateOf(save), scenarioId: "mars" } }),
+  // Tech tree levels replaced the purchased flag
+  2: (save) => {
+    const { purchasedUpgrades, ...state } = stateOf(save);
+    const purchased = Array.isArray(purchasedUpgrades) ? purchasedUpgrades : [];
+    return {
+      ...save,
+      state: {
+        ...state,
+        upgradeLevels: Object.fromEntries(
+          purchased
+            .filter((id): id is string => typeof id === "string")
+            .map((id) => [id, 1])
+        ),
+      },
+    };
+  },
+  // Buildings
+  3: (save) => ({ ...save, state: { ...stateOf(save), buildingCounts: {} } }),
+  // Events with durations, choices and follow-ups
+  4: (save) => ({
+    ...save,
+    state: {
+      ...stateOf(save),
+      activeEvents: [],
+      pendingChoice: null,
+      scheduledEvents: [],
+    },
+  }),
+  // Difficulty presets, older games were all played on the scenario as is
+  5: (save) => ({ ...save, state: { ...stateOf(save), difficulty: null } }),
+};
+
+export const slotKey = (slot: SaveSlot) => `${KEY_PREFIX}${slot}`;
+
+export const saveSlots = (): SaveSlot[] =>
+  Array.from({ length: SLOT_COUNT }, (_, i) => `slot${i + 1}` as SaveSlot);
+
+export function createSaveFile(state: EngineState, savedAt: number): SaveFile {
+  const { upgrades, buildings, scenario, ...rest } = state;
+  return {
+    version: SAVE_VERSION,
+    savedAt,
+    state: {
+      ...rest,
+      scenarioId: scenario.id,
+      upgradeLevels: Object.fromEntries(
+        upgrades.filter((u) => u.level > 0).map((u) => [u.id, u.level])
+      ),
+      buildingCounts: Object.fromEntries(
+        buildings.filter((b) => b.count > 0).map((b) => [b.id, b.count])
+      ),
+    },
+  };
+}
+
+export function serializeGame(state: EngineState, savedAt: number): string {
+  return JSON.stringify(createSaveFile(state, savedAt));
+}
+
+export function deserializeGame(json: string): {
+  savedAt: number;
+  state: EngineState;
+} {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new SaveError("Save is not valid JSON");
+  }
+  return restoreSaveFile(raw);
+}
+
+// Migrates and validates a parsed save file
+export function restoreSaveFile(raw: unknown): {
+  savedAt: number;
+  state: EngineState;
+} {
+  if (!isRecord(raw) || typeof raw.version !== "number") {
+    throw new SaveError("Save has no version");
+  }
+  let { version } = raw;
+  if (version > SAVE_VERSION) {
+    throw new SaveError(
+      `Save version ${version} is newer than supported ${SAVE_VERSION}`
+    );
+  }
+
+  let save = raw;
+  while (version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new SaveError(`No migration from save version ${version}`);
+    }
+    version++;
+    save = { ...migrate(save), version };
+  }
+
+  return {
+    savedAt: Number(save.savedAt) || 0,
+    state: restoreState(save.state),
+  };
+}
+
+// Field checks for restoreState. Each names the field's path in the save, so
+// a corrupted or hand-edited save says what is wrong with it.
+function check<T>(
+  raw: JsonRecord,
+  key: string,
+  path: string,
+  valid: (value: unknown) => value is T,
+  expected: string
+): T {
+  const value = raw[key];
+  if (!valid(value)) {
+    throw new SaveError(`Save has an invalid ${path}.${key}, ${expected}`);
+  }
+  return value;
+}
+
+const number = (raw: JsonRecord, key: string, path: string) =>
+  check(raw, key, path, isFiniteNumber, "expected a number");
+
+const boolean = (raw: JsonRecord, key: string, path: string) =>
+  check(
+    raw,
+    key,
+    path,
+    (value): value is boolean => typeof value === "boolean",
+    "expected true or false"
+  );
+
+const string = (raw: JsonRecord, key: string, path: string) =>
+  check(
+    raw,
+    key,
+    path,
+    (value): value is string => typeof value === "string",
+    "expected a string"
+  );
+
+const record = (raw: JsonRecord, key: string, path: string) =>
+  check(raw, key, path, isRecord, "expected an object");
+
+function nullable<T>(
+  raw: JsonRecord,
+  key: string,
+  path: string,
+  parse: (item: JsonRecord, path: string) => T
+): T | null {
+  return raw[key] === null
+    ? null
+    : parse(record(raw, key, path), `${path}.${key}`);
+}
+
+function array<T>(
+  raw: JsonRecord,
+  key: string,
+  path: string,
+  parse: (item: JsonRecord, path: string) => T
+): T[] {
+  const items = check(raw, key, path, Array.isArray, "expected an array");
+  return items.map((item: unknown, i: number) => {
+    if (!isRecord(item)) {
+      throw new SaveError(
+        `Save has an invalid ${path}.${key}[${i}], expected an object`
+      );
+    }
+    return parse(item, `${path}.${key}[${i}]`);
+  });
+}
+
+function restoreState(saved: unknown): EngineState {
+  if (!isRecord(saved)) {
+    throw new SaveError("Save has no game state");
+  }
+  const path = "state";
+  const seed = number(saved, "seed", path);
+  if (!Number.isInteger(seed)) {
+    throw new SaveError("Save has an invalid state.seed, expected an integer");
+  }
+  const savedResources = record(saved, "resources", path);
+  const [oxygen, water, temperature, energy] = RESOURCE_TYPES.map((type) =>
+    number(savedResources, type, `${path}.resources`)
+  );
+  const savedCooldowns = record(saved, "eventCooldowns", path);
+  const savedTimers = record(saved, "timers", path);
+
+  // Everything but the scenario, upgrades and buildings, which are rebuilt
+  // from the scenario below
+  const fields = {
+    resources: { oxygen, water, temperature, energy },
+    credits: number(saved, "credits", path),
+    gameStarted: boolean(saved, "gameStarted", path),
+    gameWon: boolean(saved, "gameWon", path),
+    gameLost: boolean(saved, "gameLost", path),
+    eventsEnabled: boolean(saved, "eventsEnabled", path),
+    critical: boolean(saved, "critical", path),
+    countdownSeconds: number(saved, "countdownSeconds", path),
+    eventCooldowns: Object.fromEntries(
+      Object.keys(savedCooldowns).map((id) => [
+        id,
+        number(savedCooldowns, id, `${path}.eventCooldowns`),
+      ])
+    ),
+    currentEvent: nullable(saved, "currentEvent", path, (item, itemPath) => ({
+      id: string(item, "id", itemPath),
+      expiresAt: number(item, "expiresAt", itemPath),
+    })),
+    activeEvents: array(saved, "activeEvents", path, (item, itemPath) => ({
+      id: string(item, "id", itemPath),
+      endsAt: number(item, "endsAt", itemPath),
+      scale: number(item, "scale", itemPath),
+    })),
+    pendingChoice: nullable(saved, "pendingChoice", path, (item, itemPath) => ({
+      eventId: string(item, "eventId", itemPath),
+      expiresAt: number(item, "expiresAt", itemPath),
+    })),
+    scheduledEvents: array(
+      saved,
+      "scheduledEvents",
+      path,
+      (item, itemPath) => ({
+        eventId: string(item, "eventId", itemPath),
+        at: number(item, "at", itemPath),
+      })
+    ),
+    time: number(saved, "time", path),
+    timers: {
+      drain: number(savedTimers, "drain", `${path}.timers`),
+      event: number(savedTimers, "event", `${path}.timers`),
+      countdown: number(savedTimers, "countdown", `${path}.timers`),
+    },
+    rngState: number(saved, "rngState", path),
+  };
+
+  const scenarioId = string(saved, "scenarioId", path);
+  const scenario = getScenario(scenarioId);
+  if (!scenario) {
+    throw new SaveError(`Save uses unknown scenario "${scenarioId}"`);
+  }
+  // Settings are kept as saved rather than taken from the preset, so the
+  // game plays the same even if a preset is retuned
+  const difficulty = isRecord(saved.difficulty) ? saved.difficulty : {};
+  const restoredDifficulty: Difficulty = {
+    preset:
+      DIFFICULTY_PRESETS.find((preset) => preset === difficulty.preset) ??
+      "normal",
+    settings: sanitizeSettings(difficulty.settings, scenario),
+  };
+
+  // Ids the scenario no longer has are dropped, and levels and counts are
+  // capped in case it lowered an upgrade's maxLevel or a building's maxCount
+  const levels = isRecord(saved.upgradeLevels) ? saved.upgradeLevels : {};
+  const counts = isRecord(saved.buildingCounts) ? saved.buildingCounts : {};
+  const amount = (raw: JsonRecord, id: string, max: number) => {
+    const value = raw[id];
+    return isFiniteNumber(value)
+      ? Math.min(max, Math.max(0, Math.floor(value)))
+      : 0;
+  };
+  const initial = createInitialState(seed, scenario, restoredDifficulty);
+  return {
+    ...initial,
+    ...fields,
+    upgrades: initial.upgrades.map((u) => ({
+      ...u,
+      level: amount(levels, u.id, u.maxLevel),
+    })),
+    buildings: initial.buildings.map((b) => ({
+      ...b,
+      count: amount(counts, b.id, b.maxCount),
+    })),
+  };
+}
+
+export function saveGame(
+  slot: SaveSlot,
+  state: EngineState,
+  storage: Storage = localStorage
+): boolean {
+  try {
+    storage.setItem(slotKey(slot), serializeGame(state, Date.now()));
+    return true;
+  } catch (error) {
+    console.error(`Failed to write save "${slot}":`, error);
+    return false;
+  }
+}
+
+function readSave(
+  slot: SaveSlot,
+  storage: Storage
+): { savedAt: number; state: EngineState } | null {
+  const json = storage.getItem(slotKey(slot));
+  if (!json) return null;
+  try {
+    return deserializeGame(json);
+  } catch (error) {
+    console.error(`Failed to load save "${slot}":`, error);
+    return null;
+  }
+}
+
+// Loads a save exactly as it was written, e.g. a slot picked mid-game
+export function loadGame(
+  slot: SaveSlot,
+  storage: Storage = localStorage
+): LoadedGame | null {
+  const saved = readSave(slot, storage);
+  return saved && { state: saved.state, progress: null };
+}
+
+// Loads a save when the game is reopened and catches up on what its buildings
+// produced since it was written
+export function resumeGame(
+  slot: SaveSlot,
+  storage: Storage = localStorage,
+  now: number = Date.now()
+): LoadedGame | null {
+  const saved = readSave(slot, storage);
+  return saved && applyOfflineProgress(saved.state, now - saved.savedAt);
+}
+
+export function deleteSave(slot: SaveSlot, storage: Storage = localStorage) {
+  storage.removeItem(slotKey(slot));
+}
+
+export function getSaveSummary(
+  slot: SaveSlot,
+  storage: Storage = localStorage
+): SaveSummary | null {
+  const json = storage.getItem(slotKey(slot));
+  if (!json) return null;
+  try {
+    const { savedAt, state } = deserializeGame(json);
+    return {
+      slot,
+      savedAt,
+      time: state.time,
+      gameWon: state.gameWon,
+      gameLost: state.gameLost,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,439 @@
+import { isRecord, type JsonRecord } from "./json";
+import marsScenario from "./scenarios/mars.json";
+import {
+  GAME_PHASES,
+  RESOURCE_TYPES,
+  isResourceType,
+  type BuildingDefinition,
+  type EventChoice,
+  type EventDefinition,
+  type EventFollowUp,
+  type GamePhase,
+  type Resource,
+  type ResourceType,
+  type Scenario,
+  type UpgradeDefinition,
+  type UpgradeEffects,
+} from "./schema";
+
+// Scenario packs hold every balance number and all upgrades and events, so
+// new scenarios are a JSON file in src/scenarios plus an entry in SCENARIOS.
+// The engine and the agent/observer prompts both read from them.
+
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScenarioError";
+  }
+}
+
+// Seconds before an event can fire again, unless it sets its own
+const DEFAULT_EVENT_COOLDOWN = 15;
+const DEFAULT_EVENT_CHANCE = 0.5;
+
+type Raw = JsonRecord;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+function number(raw: Raw, key: string, path: string, min = -Infinity) {
+  const value = raw[key];
+  if (typeof value !== "number" || !Number.isFinite(value) || value < min) {
+    throw new ScenarioError(
+      `${path}.${key} must be a number${min > -Infinity ? ` >= ${min}` : ""}`
+    );
+  }
+  return value;
+}
+
+function probability(raw: Raw, key: string, path: string) {
+  const value = number(raw, key, path, 0);
+  if (value > 1) {
+    throw new ScenarioError(`${path}.${key} must be at most 1`);
+  }
+  return value;
+}
+
+function string(raw: Raw, key: string, path: string) {
+  const value = raw[key];
+  if (typeof value !== "string" || value === "") {
+    throw new ScenarioError(`${path}.${key} must be a non-empty string`);
+  }
+  return value;
+}
+
+function object(raw: Raw, key: string, path: string): Raw {
+  if (!isRecord(raw[key])) {
+    throw new ScenarioError(`${path}.${key} must be an object`);
+  }
+  return raw[key];
+}
+
+function resourceType(raw: Raw, key: string, path: string): ResourceType {
+  if (!isResourceType(raw[key])) {
+    throw new ScenarioError(
+      `${path}.${key} must be one of ${RESOURCE_TYPES.join(", ")}`
+    );
+  }
+  return raw[key];
+}
+
+function resources(raw: Raw, key: string, min = -Infinity): Resource {
+  const values = object(raw, key, "scenario");
+  const [oxygen, water, temperature, energy] = RESOURCE_TYPES.map((type) =>
+    number(values, type, key, min)
+  );
+  return { oxygen, water, temperature, energy };
+}
+
+// Only known resources, each optional
+function partialResources(raw: Raw, path: string): Partial<Resource> {
+  const result: Partial<Resource> = {};
+  Object.keys(raw).forEach((key) => {
+    if (!isResourceType(key)) {
+      throw new ScenarioError(`${path} has unknown resource "${key}"`);
+    }
+    result[key] = number(raw, key, path);
+  });
+  return result;
+}
+
+function list<T>(
+  raw: Raw,
+  key: string,
+  parse: (item: Raw, path: string) => T & { id: string }
+): T[] {
+  if (!Array.isArray(raw[key])) {
+    throw new ScenarioError(`scenario.${key} must be an array`);
+  }
+  const ids = new Set<string>();
+  return raw[key].map((item: unknown, i: number) => {
+    const path = `${key}[${i}]`;
+    if (!isRecord(item)) {
+      throw new ScenarioError(`${path} must be an object`);
+    }
+    const parsed = parse(item, path);
+    if (ids.has(parsed.id)) {
+      throw new ScenarioError(`${path} reuses id "${parsed.id}"`);
+    }
+    ids.add(parsed.id);
+    return parsed;
+  });
+}
+
+// Tree fields are optional in the file, a plain upgrade is a tier 1 node
+// bought once
+function parseUpgrade(raw: Raw, path: string): UpgradeDefinition {
+  const optional = (key: string, fallback: number, min: number) =>
+    raw[key] === undefined ? fallback : number(raw, key, path, min);
+
+  const requires = raw.requires ?? [];
+  if (!isStringList(requires)) {
+    throw new ScenarioError(`${path}.requires must be a list of upgrade ids`);
+  }
+
+  const effectsRaw = raw.effects ?? {};
+  if (!isRecord(effectsRaw)) {
+    throw new ScenarioError(`${path}.effects must be an object`);
+  }
+  const effects: UpgradeEffects = {};
+  if (effectsRaw.drain !== undefined) {
+    effects.drain = partialResources(
+      object(effectsRaw, "drain", `${path}.effects`),
+      `${path}.effects.drain`
+    );
+  }
+  if (effectsRaw.actionEnergyCost !== undefined) {
+    effects.actionEnergyCost = number(
+      effectsRaw,
+      "actionEnergyCost",
+      `${path}.effects`
+    );
+  }
+  if (effectsRaw.events !== undefined) {
+    const events = object(effectsRaw, "events", `${path}.effects`);
+    effects.events = Object.fromEntries(
+      Object.keys(events).map((id) => [
+        id,
+        number(events, id, `${path}.effects.events`, 0),
+      ])
+    );
+  }
+
+  const tier = optional("tier", 1, 1);
+  const maxLevel = optional("maxLevel", 1, 1);
+  if (!Number.isInteger(tier) || !Number.isInteger(maxLevel)) {
+    throw new ScenarioError(`${path}.tier and maxLevel must be integers`);
+  }
+
+  return {
+    id: string(raw, "id", path),
+    name: string(raw, "name", path),
+    tier,
+    requires,
+    cost: number(raw, "cost", path, 0),
+    costGrowth: optional("costGrowth", 1, 1),
+    maxLevel,
+    resourceType: resourceType(raw, "resourceType", path),
+    multiplier: number(raw, "multiplier", path, 0),
+    effects,
+  };
+}
+
+function parseBuilding(raw: Raw, path: string): BuildingDefinition {
+  const requires = raw.requires ?? [];
+  if (!isStringList(requires)) {
+    throw new ScenarioError(`${path}.requires must be a list of upgrade ids`);
+  }
+  const maxCount = raw.maxCount ?? 1;
+  if (
+    typeof maxCount !== "number" ||
+    !Number.isInteger(maxCount) ||
+    maxCount < 1
+  ) {
+    throw new ScenarioError(`${path}.maxCount must be a positive integer`);
+  }
+  const optionalResources = (key: string) =>
+    raw[key] === undefined
+      ? {}
+      : partialResources(object(raw, key, path), `${path}.${key}`);
+
+  return {
+    id: string(raw, "id", path),
+    name: string(raw, "name", path),
+    requires,
+    cost: number(raw, "cost", path, 0),
+    costGrowth:
+      raw.costGrowth === undefined ? 1 : number(raw, "costGrowth", path, 1),
+    maxCount,
+    production: optionalResources("production"),
+    credits: raw.credits === undefined ? 0 : number(raw, "credits", path, 0),
+    upkeep: optionalResources("upkeep"),
+  };
+}
+
+// Prerequisites must exist and sit in a lower tier, which also rules out
+// cycles
+function checkTree(upgrades: UpgradeDefinition[]) {
+  upgrades.forEach((upgrade) => {
+    upgrade.requires.forEach((id) => {
+      const required = upgrades.find((u) => u.id === id);
+      if (!required) {
+        throw new ScenarioError(
+          `Upgrade "${upgrade.id}" requires unknown upgrade "${id}"`
+        );
+      }
+      if (required.tier >= upgrade.tier) {
+        throw new ScenarioError(
+          `Upgrade "${upgrade.id}" (tier ${upgrade.tier}) requires "${id}" from tier ${required.tier}, prerequisites must be in a lower tier`
+        );
+      }
+    });
+  });
+}
+
+function parseChoice(raw: Raw, path: string): EventChoice {
+  return {
+    id: string(raw, "id", path),
+    label: string(raw, "label", path),
+    cost: number(raw, "cost", path, 0),
+    scale: number(raw, "scale", path, 0),
+  };
+}
+
+function parseFollowUp(raw: Raw, path: string): EventFollowUp {
+  return {
+    eventId: string(raw, "eventId", path),
+    chance: probability(raw, "chance", path),
+    delay: number(raw, "delay", path, 1),
+  };
+}
+
+// Everything but the one-off effect is optional: a plain event is instant,
+// has no choices or follow-ups and is equally likely in every phase
+function parseEvent(raw: Raw, path: string): EventDefinition {
+  if (raw.severity !== "positive" && raw.severity !== "negative") {
+    throw new ScenarioError(`${path}.severity must be positive or negative`);
+  }
+  const optionalList = <T>(
+    key: string,
+    parse: (item: Raw, path: string) => T
+  ): T[] => {
+    if (raw[key] === undefined) return [];
+    if (!Array.isArray(raw[key])) {
+      throw new ScenarioError(`${path}.${key} must be an array`);
+    }
+    return raw[key].map((item: unknown, i: number) => {
+      if (!isRecord(item)) {
+        throw new ScenarioError(`${path}.${key}[${i}] must be an object`);
+      }
+      return parse(item, `${path}.${key}[${i}]`);
+    });
+  };
+
+  const choices = optionalList("choices", parseChoice);
+  const duplicate = choices.find(
+    (choice, i) => choices.findIndex((c) => c.id === choice.id) !== i
+  );
+  if (duplicate) {
+    throw new ScenarioError(`${path} reuses choice id "${duplicate.id}"`);
+  }
+
+  const weightsRaw =
+    raw.weights === undefined ? {} : object(raw, "weights", path);
+  Object.keys(weightsRaw).forEach((key) => {
+    if (!GAME_PHASES.includes(key as GamePhase)) {
+      throw new ScenarioError(`${path}.weights has unknown phase "${key}"`);
+    }
+  });
+  const weights = Object.fromEntries(
+    GAME_PHASES.map((phase) => [
+      phase,
+      weightsRaw[phase] === undefined
+        ? 1
+        : number(weightsRaw, phase, `${path}.weights`, 0),
+    ])
+  ) as Record<GamePhase, number>;
+
+  return {
+    id: string(raw, "id", path),
+    title: string(raw, "title", path),
+    description: string(raw, "description", path),
+    severity: raw.severity,
+    effect: partialResources(object(raw, "effect", path), `${path}.effect`),
+    duration: raw.duration === undefined ? 0 : number(raw, "duration", path, 0),
+    ongoing:
+      raw.ongoing === undefined
+        ? {}
+        : partialResources(object(raw, "ongoing", path), `${path}.ongoing`),
+    choices,
+    followUps: optionalList("followUps", parseFollowUp),
+    weights,
+    cooldown:
+      raw.cooldown === undefined
+        ? DEFAULT_EVENT_COOLDOWN
+        : number(raw, "cooldown", path, 0),
+  };
+}
+
+// Follow-ups and upgrade mitigations must name events that exist
+function checkEventLinks(
+  events: EventDefinition[],
+  upgrades: UpgradeDefinition[]
+) {
+  const known = (id: string) => events.some((e) => e.id === id);
+  events.forEach((event) => {
+    event.followUps.forEach(({ eventId }) => {
+      if (!known(eventId)) {
+        throw new ScenarioError(
+          `Event "${event.id}" is followed by unknown event "${eventId}"`
+        );
+      }
+    });
+  });
+  upgrades.forEach((upgrade) => {
+    Object.keys(upgrade.effects.events ?? {}).forEach((id) => {
+      if (!known(id)) {
+        throw new ScenarioError(
+          `Upgrade "${upgrade.id}" mitigates unknown event "${id}"`
+        );
+      }
+    });
+  });
+}
+
+// Validates a parsed scenario file, throwing a ScenarioError that names the
+// offending field
+export function parseScenario(input: unknown): Scenario {
+  if (!isRecord(input)) {
+    throw new ScenarioError("Scenario must be a JSON object");
+  }
+  const raw = input;
+
+  const limitsRaw = object(raw, "limits", "scenario");
+  const limits = Object.fromEntries(
+    RESOURCE_TYPES.map((type) => {
+      const limit = object(limitsRaw, type, "limits");
+      const min = number(limit, "min", `limits.${type}`);
+      const max = number(limit, "max", `limits.${type}`);
+      if (min >= max) {
+        throw new ScenarioError(`limits.${type}.min must be below max`);
+      }
+      return [type, { min, max }];
+    })
+  ) as Scenario["limits"];
+
+  if (!Array.isArray(raw.criticalResources)) {
+    throw new ScenarioError("scenario.criticalResources must be an array");
+  }
+  const criticalResources = raw.criticalResources.map(
+    (type: unknown, i: number) => {
+      if (!isResourceType(type)) {
+        throw new ScenarioError(
+          `criticalResources.${i} must be one of ${RESOURCE_TYPES.join(", ")}`
+        );
+      }
+      return type;
+    }
+  );
+
+  const winThresholds = partialResources(
+    object(raw, "winThresholds", "scenario"),
+    "winThresholds"
+  );
+  if (Object.keys(winThresholds).length === 0) {
+    throw new ScenarioError("winThresholds must list at least one resource");
+  }
+
+  const upgrades = list(raw, "upgrades", parseUpgrade);
+  checkTree(upgrades);
+
+  const buildings = list(raw, "buildings", parseBuilding);
+  buildings.forEach((building) => {
+    const missing = building.requires.find(
+      (id) => !upgrades.some((u) => u.id === id)
+    );
+    if (missing) {
+      throw new ScenarioError(
+        `Building "${building.id}" requires unknown upgrade "${missing}"`
+      );
+    }
+  });
+
+  const events = list(raw, "events", parseEvent);
+  checkEventLinks(events, upgrades);
+
+  return {
+    id: string(raw, "id", "scenario"),
+    name: string(raw, "name", "scenario"),
+    description: typeof raw.description === "string" ? raw.description : "",
+    initialResources: resources(raw, "initialResources"),
+    initialCredits: number(raw, "initialCredits", "scenario", 0),
+    limits,
+    baseGain: resources(raw, "baseGain", 0),
+    baseDrain: resources(raw, "baseDrain", 0),
+    actionEnergyCost: number(raw, "actionEnergyCost", "scenario", 0),
+    actionCredits: number(raw, "actionCredits", "scenario", 0),
+    criticalThreshold: number(raw, "criticalThreshold", "scenario"),
+    criticalResources,
+    criticalCountdown: number(raw, "criticalCountdown", "scenario", 1),
+    eventChance:
+      raw.eventChance === undefined
+        ? DEFAULT_EVENT_CHANCE
+        : probability(raw, "eventChance", "scenario"),
+    winThresholds,
+    upgrades,
+    buildings,
+    events,
+  };
+}
+
+export const DEFAULT_SCENARIO = parseScenario(marsScenario);
+
+export const SCENARIOS: Record<string, Scenario> = {
+  [DEFAULT_SCENARIO.id]: DEFAULT_SCENARIO,
+};
+
+export function getScenario(id: string): Scenario | undefined {
+  return SCENARIOS[id];
+}
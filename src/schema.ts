@@ -0,0 +1,282 @@
+// Game state and action types shared by the engine, the agents, the observer
+// and the UI, plus runtime validation for actions coming from outside (LLM
+// responses, replays).
+
+export interface Resource {
+  oxygen: number;
+  water: number;
+  temperature: number;
+  energy: number;
+}
+
+export type ResourceType = keyof Resource;
+
+export const RESOURCE_TYPES: ResourceType[] = [
+  "oxygen",
+  "water",
+  "temperature",
+  "energy",
+];
+
+// Side effects of an upgrade, applied once per level
+export interface UpgradeEffects {
+  // Multiplies the drain of each listed resource
+  drain?: Partial<Resource>;
+  // Added to the energy cost of every action
+  actionEnergyCost?: number;
+  // Event id -> multiplier on that event's effects, e.g. 0.5 halves it
+  events?: Record<string, number>;
+}
+
+// A node in the tech tree. Repeatable upgrades have a `maxLevel` above 1 and
+// cost `costGrowth` times more for each level already bought.
+export interface Upgrade {
+  id: string;
+  name: string;
+  tier: number;
+  // Upgrades that must be bought first
+  requires: string[];
+  cost: number;
+  costGrowth: number;
+  maxLevel: number;
+  resourceType: ResourceType;
+  multiplier: number;
+  effects: UpgradeEffects;
+  // Times bought, 0 when not purchased yet
+  level: number;
+}
+
+export type UpgradeDefinition = Omit<Upgrade, "level">;
+
+export type UpgradeStatus = "locked" | "available" | "purchased";
+
+// Stage of the game by average progress towards the win thresholds, used to
+// weight which events can fire
+export type GamePhase = "early" | "mid" | "late";
+
+export const GAME_PHASES: GamePhase[] = ["early", "mid", "late"];
+
+// Paying `cost` credits scales the event's effects by `scale`
+export interface EventChoice {
+  id: string;
+  label: string;
+  cost: number;
+  scale: number;
+}
+
+// Event that may fire `chance` of the time, `delay` seconds after this one
+// resolves
+export interface EventFollowUp {
+  eventId: string;
+  chance: number;
+  delay: number;
+}
+
+// Random event. `effect` is added to the resources once and `ongoing` on
+// every drain tick for `duration` seconds, both clamped to limits. Events with
+// choices wait for the player to pick one before they hit.
+export interface EventDefinition {
+  id: string;
+  title: string;
+  description: string;
+  severity: "positive" | "negative";
+  effect: Partial<Resource>;
+  duration: number;
+  ongoing: Partial<Resource>;
+  choices: EventChoice[];
+  followUps: EventFollowUp[];
+  // Relative chance of being picked in each phase, 0 to never fire then
+  weights: Record<GamePhase, number>;
+  // Seconds before it can fire again at random
+  cooldown: number;
+}
+
+// Passive production. Every drain tick each building pays its upkeep and, if
+// it could, adds its production and credits. Each extra copy costs
+// `costGrowth` times more.
+export interface Building {
+  id: string;
+  name: string;
+  // Upgrades that must be bought before it can be built
+  requires: string[];
+  cost: number;
+  costGrowth: number;
+  maxCount: number;
+  production: Partial<Resource>;
+  credits: number;
+  upkeep: Partial<Resource>;
+  // Copies built so far
+  count: number;
+}
+
+export type BuildingDefinition = Omit<Building, "count">;
+
+// Balance and content for one way of playing, see scenario.ts
+export interface Scenario {
+  id: string;
+  name: string;
+  description: string;
+  initialResources: Resource;
+  initialCredits: number;
+  limits: Record<ResourceType, { min: number; max: number }>;
+  // Gain per generate action and loss per drain tick, both before energy
+  // efficiency and upgrade multipliers
+  baseGain: Resource;
+  baseDrain: Resource;
+  actionEnergyCost: number;
+  actionCredits: number;
+  // Any of `criticalResources` at or below the threshold starts the countdown
+  criticalThreshold: number;
+  criticalResources: ResourceType[];
+  criticalCountdown: number;
+  // Chance of an event on each event roll
+  eventChance: number;
+  // Minimum of each listed resource needed to win
+  winThresholds: Partial<Resource>;
+  upgrades: UpgradeDefinition[];
+  buildings: BuildingDefinition[];
+  events: EventDefinition[];
+}
+
+export type DifficultyPreset = "easy" | "normal" | "hard" | "custom";
+
+// What a new game changes in its scenario, see difficulty.ts
+export interface DifficultySettings {
+  initialResources: Resource;
+  initialCredits: number;
+  // Multiplies every resource's drain
+  drainMultiplier: number;
+  criticalThreshold: number;
+  criticalCountdown: number;
+  eventChance: number;
+  winThresholds: Partial<Resource>;
+}
+
+export interface Difficulty {
+  preset: DifficultyPreset;
+  settings: DifficultySettings;
+}
+
+// What agents and the observer see of the game
+export interface GameState {
+  // Already adjusted for the difficulty
+  scenario: Scenario;
+  difficulty: Difficulty;
+  resources: Resource;
+  credits: number;
+  upgrades: Upgrade[];
+  buildings: Building[];
+  gameWon: boolean;
+  gameLost: boolean;
+  // Seconds left on the critical countdown, null when safe
+  criticalTimer: number | null;
+  // Events still running, with seconds left and how hard they hit
+  activeEvents: { id: string; remaining: number; scale: number }[];
+  // Event waiting for a choice, it hits at full strength when time runs out
+  pendingChoice: { eventId: string; remaining: number } | null;
+}
+
+export type GameAction =
+  | { type: "generate"; resource: ResourceType }
+  | { type: "purchase"; upgradeId: string }
+  | { type: "build"; buildingId: string }
+  | { type: "choose"; choiceId: string };
+
+// What running an action did. No-ops were allowed but changed nothing, like
+// generating a resource that is already at its maximum. Skipped plan steps
+// never ran because their preconditions didn't hold.
+export type ActionResult =
+  | { status: "applied" }
+  | { status: "rejected"; reason: string }
+  | { status: "noop"; reason: string }
+  | { status: "skipped"; reason: string };
+
+export interface ActionOutcome {
+  action: GameAction;
+  result: ActionResult;
+}
+
+export type ActionParseResult =
+  | { ok: true; action: GameAction }
+  | { ok: false; reason: string };
+
+export function isResourceType(value: unknown): value is ResourceType {
+  return RESOURCE_TYPES.includes(value as ResourceType);
+}
+
+// Parses the "generate:oxygen" / "purchase:oxygen1" / "build:solar_farm" /
+// "choose:shield" form used in prompts. Unknown resources, upgrade, building
+// and choice ids are rejected rather than guessed.
+export function parseGameAction(
+  value: unknown,
+  catalog: Pick<GameState, "upgrades" | "buildings" | "scenario">
+): ActionParseResult {
+  if (typeof value !== "string") {
+    return {
+      ok: false,
+      reason: `Action ${JSON.stringify(value)} is not a string`,
+    };
+  }
+
+  const [type, target, ...rest] = value.trim().split(":");
+  if (rest.length > 0 || target === undefined) {
+    return {
+      ok: false,
+      reason: `"${value}" is not in the form type:target`,
+    };
+  }
+
+  if (type === "generate") {
+    return isResourceType(target)
+      ? { ok: true, action: { type, resource: target } }
+      : {
+          ok: false,
+          reason: `Unknown resource "${target}" in "${value}", expected one of ${RESOURCE_TYPES.join(
+            ", "
+          )}`,
+        };
+  }
+
+  if (type === "purchase") {
+    return catalog.upgrades.some((u) => u.id === target)
+      ? { ok: true, action: { type, upgradeId: target } }
+      : { ok: false, reason: `Unknown upgrade "${target}" in "${value}"` };
+  }
+
+  if (type === "build") {
+    return catalog.buildings.some((b) => b.id === target)
+      ? { ok: true, action: { type, buildingId: target } }
+      : { ok: false, reason: `Unknown building "${target}" in "${value}"` };
+  }
+
+  if (type === "choose") {
+    return catalog.scenario.events.some((e) =>
+      e.choices.some((c) => c.id === target)
+    )
+      ? { ok: true, action: { type, choiceId: target } }
+      : { ok: false, reason: `Unknown choice "${target}" in "${value}"` };
+  }
+
+  return {
+    ok: false,
+    reason: `Unknown action type "${type}" in "${value}", expected generate, purchase, build or choose`,
+  };
+}
+
+export function formatGameAction(action: GameAction): string {
+  return `${action.type}:${actionTarget(action)}`;
+}
+
+// Target of an action, as used to highlight buttons and cards
+export function actionTarget(action: GameAction): string {
+  switch (action.type) {
+    case "generate":
+      return action.resource;
+    case "purchase":
+      return action.upgradeId;
+    case "build":
+      return action.buildingId;
+    case "choose":
+      return action.choiceId;
+  }
+}
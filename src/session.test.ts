@@ -0,0 +1,281 @@
+import { describe, expect, it } from "vitest";
+import { DRAIN_INTERVAL, createInitialState, type EngineState } from "./engine";
+import { parsePlanStep } from "./plan";
+import { DEFAULT_SCENARIO } from "./scenario";
+import {
+  AGENT_ACTION_INTERVAL,
+  DEFAULT_COPILOT,
+  DEFAULT_PLANNING,
+  TICK_INTERVAL,
+  agentFeedback,
+  agentRequestDue,
+  createSession,
+  sessionReducer,
+  type CopilotSettings,
+  type PlanningSettings,
+  type Session,
+} from "./session";
+import { timelinePoints } from "./timeline";
+
+// A safe started game with events off, so only what a test sets up happens
+const startedGame = (changes: Partial<EngineState> = {}): EngineState => ({
+  ...createInitialState(1),
+  gameStarted: true,
+  eventsEnabled: false,
+  resources: { oxygen: 50, water: 50, temperature: 0, energy: 100 },
+  ...changes,
+});
+
+// A session whose agent has just answered with `steps`
+function withPlan(
+  game: EngineState,
+  steps: string[],
+  planning: PlanningSettings = DEFAULT_PLANNING,
+  copilot: CopilotSettings = DEFAULT_COPILOT
+): Session {
+  const plan = steps.map((text) => {
+    const result = parsePlanStep(text, game);
+    if (!result.ok) throw new Error(result.reason);
+    return result.step;
+  });
+  return [
+    { type: "agentStart" } as const,
+    { type: "agentRequest", requestId: 1 } as const,
+    { type: "agentPlan", requestId: 1, plan } as const,
+  ].reduce(sessionReducer, createSession(game, planning, copilot));
+}
+
+const tick = (session: Session, count = 1) =>
+  sessionReducer(session, { type: "tick", count });
+
+describe("plans", () => {
+  it("skip steps whose conditions don't hold and run the next one", () => {
+    const game = startedGame();
+    const session = withPlan(
+      { ...game, resources: { ...game.resources, energy: 30 } },
+      ["generate:oxygen if energy > 50", "generate:water", "generate:energy"]
+    );
+
+    const next = tick(session);
+
+    expect(next.agent.plan).toHaveLength(1);
+    expect(agentFeedback(next).results).toEqual([
+      {
+        action: { type: "generate", resource: "oxygen" },
+        result: {
+          status: "skipped",
+          reason: "energy > 50 did not hold (energy was 30.0)",
+        },
+      },
+      {
+        action: { type: "generate", resource: "water" },
+        result: { status: "applied" },
+      },
+    ]);
+  });
+
+  it("wait out the planning interval once they run out", () => {
+    const session = withPlan(startedGame(), ["generate:energy"], {
+      ...DEFAULT_PLANNING,
+      interval: 2000,
+    });
+
+    const ran = tick(session, 2000 / TICK_INTERVAL - 1);
+    expect(ran.agent.plan).toHaveLength(0);
+    expect(agentRequestDue(ran)).toBe(false);
+
+    expect(agentRequestDue(tick(ran))).toBe(true);
+  });
+});
+
+describe("interrupts", () => {
+  // Oxygen is low and the next tick drains, so the countdown starts
+  const nearlyCritical = () => {
+    const game = startedGame();
+    return {
+      ...game,
+      resources: { ...game.resources, oxygen: 1 },
+      timers: { ...game.timers, drain: DRAIN_INTERVAL - TICK_INTERVAL },
+    };
+  };
+  const plan = Array(3).fill("generate:temperature");
+
+  it("drop the plan when the critical countdown starts", () => {
+    const next = tick(withPlan(nearlyCritical(), plan));
+
+    expect(next.game.critical).toBe(true);
+    expect(next.agent.plan).toHaveLength(0);
+    expect(agentRequestDue(next)).toBe(true);
+    expect(agentFeedback(next).interrupt).toBe(
+      "The critical countdown started, 2 steps dropped"
+    );
+  });
+
+  it("drop the plan when a negative event hits", () => {
+    const event = DEFAULT_SCENARIO.events.find(
+      (e) => e.severity === "negative"
+    )!;
+    const game = startedGame();
+
+    const next = tick(
+      withPlan(
+        {
+          ...game,
+          scheduledEvents: [{ eventId: event.id, at: game.time + 50 }],
+        },
+        plan
+      )
+    );
+
+    expect(next.agent.plan).toHaveLength(0);
+    expect(agentFeedback(next).interrupt).toBe(
+      `${event.title} hit, 2 steps dropped`
+    );
+  });
+
+  it("can be turned off", () => {
+    const next = tick(
+      withPlan(nearlyCritical(), plan, {
+        ...DEFAULT_PLANNING,
+        replanOnCritical: false,
+      })
+    );
+
+    expect(next.game.critical).toBe(true);
+    expect(next.agent.plan).toHaveLength(2);
+    expect(agentFeedback(next).interrupt).toBeNull();
+  });
+});
+
+describe("co-pilot", () => {
+  const approval = { ...DEFAULT_COPILOT, approval: true };
+  const steps = ["generate:oxygen", "generate:water", "generate:energy"];
+
+  it("holds proposals until the player approves them", () => {
+    const session = withPlan(startedGame(), steps, DEFAULT_PLANNING, approval);
+
+    const held = tick(session, 10);
+    expect(held.game.time).toBe(session.game.time);
+    expect(agentRequestDue(held)).toBe(false);
+
+    const approved = [
+      { type: "proposalMove", from: 2, to: 0 } as const,
+      { type: "proposalStrike", index: 1 } as const,
+      { type: "proposalApprove" } as const,
+    ].reduce(sessionReducer, held);
+    expect(approved.agent.proposal).toBeNull();
+    expect(approved.agent.plan.map((step) => step.action)).toEqual([
+      { type: "generate", resource: "energy" },
+      { type: "generate", resource: "water" },
+    ]);
+    expect(agentFeedback(approved).results).toEqual([
+      {
+        action: { type: "generate", resource: "oxygen" },
+        result: { status: "rejected", reason: "Struck out by the player" },
+      },
+    ]);
+    expect(tick(approved).game.time).toBe(session.game.time + TICK_INTERVAL);
+  });
+
+  it("leaves resources the agent doesn't manage to the player", () => {
+    const choice = DEFAULT_SCENARIO.events.find((e) => e.choices.length)!
+      .choices[0];
+    const session = withPlan(
+      startedGame(),
+      [...steps, `choose:${choice.id}`],
+      DEFAULT_PLANNING,
+      { ...DEFAULT_COPILOT, resources: ["energy"] }
+    );
+
+    expect(session.agent.plan.map((step) => step.action)).toEqual([
+      { type: "generate", resource: "energy" },
+    ]);
+    expect(agentFeedback(session).results.map(({ result }) => result)).toEqual([
+      { status: "rejected", reason: "oxygen is left to the player" },
+      { status: "rejected", reason: "water is left to the player" },
+      {
+        status: "rejected",
+        reason: "oxygen, water, temperature are left to the player",
+      },
+    ]);
+  });
+
+  it("drops steps on resources taken back mid-plan", () => {
+    const session = sessionReducer(withPlan(startedGame(), steps), {
+      type: "setCopilot",
+      copilot: { ...DEFAULT_COPILOT, resources: ["oxygen", "energy"] },
+    });
+
+    expect(session.agent.plan).toHaveLength(2);
+    expect(agentFeedback(session).results).toHaveLength(1);
+  });
+
+  it("queues the player's clicks into the next action slots", () => {
+    const session = tick(withPlan(startedGame(), steps));
+
+    const clicked = sessionReducer(session, {
+      type: "act",
+      action: { type: "generate", resource: "temperature" },
+      paused: false,
+    });
+    expect(clicked.game).toBe(session.game);
+    expect(clicked.agent.manual).toHaveLength(1);
+
+    const next = tick(clicked, AGENT_ACTION_INTERVAL / TICK_INTERVAL);
+    expect(next.agent.manual).toHaveLength(0);
+    expect(next.agent.plan).toHaveLength(2);
+    expect(next.game.resources.temperature).toBeGreaterThan(
+      session.game.resources.temperature
+    );
+    expect(agentFeedback(next).results).toHaveLength(1);
+  });
+
+  it("applies clicks right away while paused, after the queued ones", () => {
+    const session = sessionReducer(tick(withPlan(startedGame(), steps)), {
+      type: "act",
+      action: { type: "generate", resource: "temperature" },
+      paused: false,
+    });
+
+    const clicked = sessionReducer(session, {
+      type: "act",
+      action: { type: "generate", resource: "water" },
+      paused: true,
+    });
+
+    expect(clicked.agent.manual).toHaveLength(0);
+    expect(clicked.agent.plan).toEqual(session.agent.plan);
+    expect(clicked.game.time).toBe(session.game.time);
+    expect(clicked.game.resources.temperature).toBeGreaterThan(
+      session.game.resources.temperature
+    );
+    expect(clicked.game.resources.water).toBeGreaterThan(
+      session.game.resources.water
+    );
+  });
+});
+
+describe("timeline", () => {
+  it("samples every tick and marks plans and the player's purchases", () => {
+    const game = startedGame({ credits: 1000 });
+    const session = sessionReducer(tick(createSession(game), 3), {
+      type: "act",
+      action: { type: "purchase", upgradeId: game.upgrades[0].id },
+      paused: false,
+    });
+
+    expect(timelinePoints(session.timeline)).toHaveLength(4);
+    expect(session.timeline.markers).toEqual([
+      {
+        time: 3 * TICK_INTERVAL,
+        kind: "purchase",
+        label: `${game.upgrades[0].name} (player)`,
+      },
+    ]);
+
+    const planned = withPlan(game, ["generate:oxygen", "generate:water"]);
+    expect(planned.timeline.markers).toEqual([
+      { time: 0, kind: "plan", label: "2 steps" },
+    ]);
+  });
+});
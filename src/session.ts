@@ -0,0 +1,563 @@
+import {
+  getActionResult,
+  getEvent,
+  isGameOver,
+  stepWithLog,
+  type EngineAction,
+  type EngineLogEntry,
+  type EngineState,
+} from "./engine";
+import { toReplayEntries, type ReplayEntry } from "./replay";
+import {
+  addMarkers,
+  addSample,
+  createTimeline,
+  logMarkers,
+  type Timeline,
+} from "./timeline";
+import {
+  formatCondition,
+  unmetCondition,
+  type PlanFeedback,
+  type PlanStep,
+} from "./plan";
+import {
+  RESOURCE_TYPES,
+  actionTarget,
+  type ActionOutcome,
+  type GameAction,
+  type ResourceType,
+} from "./schema";
+
+// The browser game's clock. Real time is turned into fixed game ticks, and
+// every tick runs the agent's next plan step (if one is due) and then the
+// engine for one TICK_INTERVAL, so all systems advance in one order at any
+// speed.
+
+export const TICK_INTERVAL = 100;
+export const CLOCK_SPEEDS = [1, 2, 4];
+// Ticks run at most per real-time update, so a backgrounded tab doesn't come
+// back to a long burst of catch-up
+export const MAX_TICKS_PER_UPDATE = 50;
+
+// In game time
+export const AGENT_ACTION_INTERVAL = 500;
+
+// When the agent is asked for a new plan. It always runs its plan to the
+// end unless an interrupt fires, then waits out the rest of the interval.
+export interface PlanningSettings {
+  // Minimum game time between plans while nothing goes wrong
+  interval: number;
+  // Drop the plan and ask again when the critical countdown starts
+  replanOnCritical: boolean;
+  // ... or when a negative event hits
+  replanOnNegativeEvent: boolean;
+}
+
+export const PLANNING_INTERVALS = [2000, 5000, 10000, 20000, 30000];
+
+export const DEFAULT_PLANNING: PlanningSettings = {
+  interval: 5000,
+  replanOnCritical: true,
+  replanOnNegativeEvent: true,
+};
+
+// How much of the game the agent plays by itself
+export interface CopilotSettings {
+  // Plans wait as a proposal for the player to approve, reorder or strike
+  // out steps before they run
+  approval: boolean;
+  // Resources the agent looks after. Steps on the others (generating them,
+  // their upgrades and buildings producing them) are left to the player, and
+  // so are event choices unless the agent has all of them.
+  resources: ResourceType[];
+}
+
+export const DEFAULT_COPILOT: CopilotSettings = {
+  approval: false,
+  resources: RESOURCE_TYPES,
+};
+
+export interface ProposedStep {
+  step: PlanStep;
+  struck: boolean;
+}
+
+export interface AgentQueue {
+  playing: boolean;
+  // Steps of the current plan not run yet
+  plan: PlanStep[];
+  // Plan waiting for the player's approval, the clock holds meanwhile
+  proposal: ProposedStep[] | null;
+  // Player actions clicked while a plan runs, they take the next action
+  // slots instead of racing the agent's steps
+  manual: GameAction[];
+  nextActionAt: number;
+  nextRequestAt: number;
+  // Id of the request in flight, the clock holds until it answers
+  waitingFor: number | null;
+  // Request ids keep counting across stops and loads
+  lastRequest: number;
+  // Target of the last action run, for highlighting
+  lastTarget: string | null;
+  // What each step run since the last request did, reported back to the
+  // agent with its next request
+  results: ActionOutcome[];
+  // Why the last plan was cut short
+  interrupt: string | null;
+}
+
+export interface Session {
+  game: EngineState;
+  // Replay of everything since the game started or was loaded
+  recording: { start: EngineState; entries: ReplayEntry[] };
+  // Sampled every tick over the same span, for charts
+  timeline: Timeline;
+  agent: AgentQueue;
+  planning: PlanningSettings;
+  copilot: CopilotSettings;
+}
+
+export type SessionAction =
+  | { type: "load"; state: EngineState }
+  // Player input. Clicks during a plan wait for the next action slot, except
+  // while paused, when the clock that frees slots is stopped.
+  | { type: "act"; action: EngineAction; paused: boolean }
+  | { type: "tick"; count: number }
+  | { type: "agentStart" }
+  | { type: "agentRequest"; requestId: number }
+  | { type: "agentPlan"; requestId: number; plan: PlanStep[] }
+  | { type: "agentStop" }
+  | { type: "setPlanning"; planning: PlanningSettings }
+  | { type: "setCopilot"; copilot: CopilotSettings }
+  | { type: "proposalMove"; from: number; to: number }
+  // Strikes a step out, or puts it back
+  | { type: "proposalStrike"; index: number }
+  | { type: "proposalApprove" };
+
+const idleAgent = (time: number): AgentQueue => ({
+  playing: false,
+  plan: [],
+  proposal: null,
+  manual: [],
+  nextActionAt: time,
+  nextRequestAt: time,
+  waitingFor: null,
+  lastRequest: 0,
+  lastTarget: null,
+  results: [],
+  interrupt: null,
+});
+
+export const createSession = (
+  game: EngineState,
+  planning: PlanningSettings = DEFAULT_PLANNING,
+  copilot: CopilotSettings = DEFAULT_COPILOT
+): Session => ({
+  game,
+  recording: { start: game, entries: [] },
+  timeline: createTimeline(game),
+  agent: idleAgent(game.time),
+  planning,
+  copilot,
+});
+
+// Whether the agent should be asked for its next plan now
+export const agentRequestDue = ({ game, agent }: Session) =>
+  agent.playing &&
+  game.gameStarted &&
+  !isGameOver(game) &&
+  agent.waitingFor === null &&
+  agent.proposal === null &&
+  agent.plan.length === 0 &&
+  game.time >= agent.nextRequestAt;
+
+// What to tell the agent about its previous plan
+export const agentFeedback = ({ agent }: Session): PlanFeedback => ({
+  results: agent.results,
+  interrupt: agent.interrupt,
+});
+
+// Splits real time into whole ticks at the given speed, carrying the rest
+export function accumulateTicks(
+  accumulator: number,
+  realDt: number,
+  speed: number
+): { ticks: number; accumulator: number } {
+  const total = accumulator + realDt * speed;
+  const ticks = Math.floor(total / TICK_INTERVAL);
+  if (ticks > MAX_TICKS_PER_UPDATE) {
+    return { ticks: MAX_TICKS_PER_UPDATE, accumulator: 0 };
+  }
+  return { ticks, accumulator: total - ticks * TICK_INTERVAL };
+}
+
+function record(
+  session: Session,
+  game: EngineState,
+  log: EngineLogEntry[],
+  by: "player" | "agent" = "player"
+): Session {
+  if (log.length === 0) {
+    return { ...session, game };
+  }
+  return {
+    ...session,
+    game,
+    recording: {
+      ...session.recording,
+      entries: [...session.recording.entries, ...toReplayEntries(log)],
+    },
+    timeline: addMarkers(session.timeline, logMarkers(game, log, by)),
+  };
+}
+
+// Resources an action works towards, see CopilotSettings
+function actionResources(
+  action: GameAction,
+  game: EngineState
+): ResourceType[] {
+  switch (action.type) {
+    case "generate":
+      return [action.resource];
+    case "purchase": {
+      const upgrade = game.upgrades.find((u) => u.id === action.upgradeId);
+      return upgrade ? [upgrade.resourceType] : [];
+    }
+    case "build": {
+      const building = game.buildings.find((b) => b.id === action.buildingId);
+      return RESOURCE_TYPES.filter(
+        (type) => (building?.production[type] ?? 0) > 0
+      );
+    }
+    case "choose":
+      return RESOURCE_TYPES;
+  }
+}
+
+// Splits steps into those the agent may run and rejections for the ones left
+// to the player
+function delegate(
+  steps: PlanStep[],
+  { game, copilot }: Session
+): { steps: PlanStep[]; rejected: ActionOutcome[] } {
+  const rejected: ActionOutcome[] = [];
+  const allowed = steps.filter((step) => {
+    const left = actionResources(step.action, game).filter(
+      (type) => !copilot.resources.includes(type)
+    );
+    if (left.length === 0) return true;
+    rejected.push({
+      action: step.action,
+      result: {
+        status: "rejected",
+        reason: `${left.join(", ")} ${
+          left.length === 1 ? "is" : "are"
+        } left to the player`,
+      },
+    });
+    return false;
+  });
+  return { steps: allowed, rejected };
+}
+
+// Runs the next player action or plan step if one is due. Steps whose
+// conditions don't hold are skipped without using up a turn.
+function runPlan(session: Session): Session {
+  const { agent, game } = session;
+  if (
+    (agent.plan.length === 0 && agent.manual.length === 0) ||
+    game.time < agent.nextActionAt
+  ) {
+    return session;
+  }
+
+  if (agent.manual.length > 0) {
+    const [action, ...manual] = agent.manual;
+    const { state, log } = stepWithLog(game, action, 0);
+    return {
+      ...record(session, state, log),
+      agent: {
+        ...agent,
+        manual,
+        nextActionAt: state.time + AGENT_ACTION_INTERVAL,
+      },
+    };
+  }
+
+  const results = [...agent.results];
+  let plan = agent.plan;
+  while (plan.length > 0) {
+    const [step, ...rest] = plan;
+    plan = rest;
+    const unmet = unmetCondition(step, game);
+    if (unmet) {
+      const current =
+        unmet.subject === "credits"
+          ? game.credits
+          : game.resources[unmet.subject].toFixed(1);
+      results.push({
+        action: step.action,
+        result: {
+          status: "skipped",
+          reason: `${formatCondition(unmet)} did not hold (${
+            unmet.subject
+          } was ${current})`,
+        },
+      });
+      continue;
+    }
+
+    const { state, log } = stepWithLog(game, step.action, 0);
+    results.push({
+      action: step.action,
+      result: getActionResult(game, step.action, state),
+    });
+    return {
+      ...record(session, state, log, "agent"),
+      agent: {
+        ...agent,
+        plan,
+        results,
+        nextActionAt: state.time + AGENT_ACTION_INTERVAL,
+        lastTarget: actionTarget(step.action),
+      },
+    };
+  }
+  return { ...session, agent: { ...agent, plan, results } };
+}
+
+// Why the agent should replan after going from `prev` to `next`, if at all
+function interruptReason(
+  prev: EngineState,
+  next: EngineState,
+  log: EngineLogEntry[],
+  planning: PlanningSettings
+): string | null {
+  if (planning.replanOnCritical && next.critical && !prev.critical) {
+    return "The critical countdown started";
+  }
+  if (planning.replanOnNegativeEvent) {
+    for (const entry of log) {
+      if (entry.type !== "event") continue;
+      const event = getEvent(next.scenario, entry.eventId);
+      if (event?.severity === "negative") return `${event.title} hit`;
+    }
+  }
+  return null;
+}
+
+function tick(session: Session): Session {
+  const next = runPlan(session);
+  const { state, log } = stepWithLog(next.game, null, TICK_INTERVAL);
+  const recorded = record(next, state, log);
+  const ticked = { ...recorded, timeline: addSample(recorded.timeline, state) };
+
+  const { agent } = ticked;
+  const reason =
+    agent.playing &&
+    interruptReason(session.game, ticked.game, log, session.planning);
+  if (!reason || isGameOver(ticked.game)) return ticked;
+  const dropped = agent.plan.length;
+  return {
+    ...ticked,
+    agent: {
+      ...agent,
+      plan: [],
+      nextRequestAt: ticked.game.time,
+      interrupt:
+        dropped > 0
+          ? `${reason}, ${dropped} step${dropped === 1 ? "" : "s"} dropped`
+          : reason,
+    },
+  };
+}
+
+export function sessionReducer(
+  session: Session,
+  action: SessionAction
+): Session {
+  switch (action.type) {
+    case "load": {
+      const loaded = createSession(
+        action.state,
+        session.planning,
+        session.copilot
+      );
+      return {
+        ...loaded,
+        agent: { ...loaded.agent, lastRequest: session.agent.lastRequest },
+      };
+    }
+    case "act": {
+      const { agent } = session;
+      if (action.action.type === "setEventsEnabled") {
+        const { state, log } = stepWithLog(session.game, action.action, 0);
+        return record(session, state, log);
+      }
+      if (
+        !action.paused &&
+        ((agent.playing && agent.plan.length > 0) || agent.manual.length > 0)
+      ) {
+        return {
+          ...session,
+          agent: { ...agent, manual: [...agent.manual, action.action] },
+        };
+      }
+      // Clicks queued before the pause go first
+      let next: Session = { ...session, agent: { ...agent, manual: [] } };
+      for (const manual of [...agent.manual, action.action]) {
+        const { state, log } = stepWithLog(next.game, manual, 0);
+        next = record(next, state, log);
+      }
+      return next;
+    }
+    case "tick": {
+      let next = session;
+      for (let i = 0; i < action.count; i++) {
+        // The clock holds while the agent is thinking, due to be asked or
+        // waiting for its plan to be approved
+        if (
+          next.agent.waitingFor !== null ||
+          next.agent.proposal !== null ||
+          agentRequestDue(next) ||
+          isGameOver(next.game)
+        ) {
+          break;
+        }
+        next = tick(next);
+      }
+      return next;
+    }
+    case "agentStart":
+      return {
+        ...session,
+        agent: {
+          ...idleAgent(session.game.time),
+          playing: true,
+          lastRequest: session.agent.lastRequest,
+        },
+      };
+    case "agentRequest":
+      return {
+        ...session,
+        agent: {
+          ...session.agent,
+          waitingFor: action.requestId,
+          lastRequest: action.requestId,
+          results: [],
+          interrupt: null,
+        },
+      };
+    case "agentPlan": {
+      // Answers to requests from before a stop or load are dropped
+      if (session.agent.waitingFor !== action.requestId) return session;
+      const { steps, rejected } = delegate(action.plan, session);
+      const proposed = session.copilot.approval && steps.length > 0;
+      return {
+        ...session,
+        timeline: addMarkers(session.timeline, [
+          {
+            time: session.game.time,
+            kind: "plan",
+            label: `${steps.length} step${steps.length === 1 ? "" : "s"}${
+              proposed ? ", proposed" : ""
+            }`,
+          },
+        ]),
+        agent: {
+          ...session.agent,
+          plan: proposed ? [] : steps,
+          proposal: proposed
+            ? steps.map((step) => ({ step, struck: false }))
+            : null,
+          results: [...session.agent.results, ...rejected],
+          waitingFor: null,
+          nextActionAt: session.game.time,
+          nextRequestAt: session.game.time + session.planning.interval,
+        },
+      };
+    }
+    case "agentStop":
+      // Player actions still waiting for a slot are kept
+      return {
+        ...session,
+        agent: {
+          ...idleAgent(session.game.time),
+          manual: session.agent.manual,
+          lastRequest: session.agent.lastRequest,
+        },
+      };
+    case "setPlanning":
+      return { ...session, planning: action.planning };
+    case "setCopilot": {
+      // Steps on resources taken back from the agent are dropped, and
+      // turning approval off approves what is waiting
+      const next = { ...session, copilot: action.copilot };
+      const { agent } = session;
+      const plan = delegate(agent.plan, next);
+      const kept = delegate(agent.proposal?.map((p) => p.step) ?? [], next);
+      const proposal =
+        agent.proposal?.filter((p) => kept.steps.includes(p.step)) ?? [];
+      const updated: Session = {
+        ...next,
+        agent: {
+          ...agent,
+          plan: plan.steps,
+          proposal: proposal.length > 0 ? proposal : null,
+          results: [...agent.results, ...plan.rejected, ...kept.rejected],
+        },
+      };
+      return updated.agent.proposal && !action.copilot.approval
+        ? sessionReducer(updated, { type: "proposalApprove" })
+        : updated;
+    }
+    case "proposalMove": {
+      const proposal = [...(session.agent.proposal ?? [])];
+      const { from, to } = action;
+      if (!proposal[from] || to < 0 || to >= proposal.length) return session;
+      proposal.splice(to, 0, ...proposal.splice(from, 1));
+      return { ...session, agent: { ...session.agent, proposal } };
+    }
+    case "proposalStrike": {
+      const { proposal } = session.agent;
+      if (!proposal?.[action.index]) return session;
+      return {
+        ...session,
+        agent: {
+          ...session.agent,
+          proposal: proposal.map((p, i) =>
+            i === action.index ? { ...p, struck: !p.struck } : p
+          ),
+        },
+      };
+    }
+    case "proposalApprove": {
+      const { proposal } = session.agent;
+      if (!proposal) return session;
+      return {
+        ...session,
+        agent: {
+          ...session.agent,
+          plan: proposal.filter((p) => !p.struck).map((p) => p.step),
+          proposal: null,
+          results: [
+            ...session.agent.results,
+            ...proposal
+              .filter((p) => p.struck)
+              .map(
+                (p): ActionOutcome => ({
+                  action: p.step.action,
+                  result: {
+                    status: "rejected",
+                    reason: "Struck out by the player",
+                  },
+                })
+              ),
+          ],
+          nextActionAt: session.game.time,
+        },
+      };
+    }
+  }
+}
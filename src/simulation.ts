@@ -0,0 +1,289 @@
+import {
+  canPurchase,
+  createInitialState,
+  getUpgradeCost,
+  isGameOver,
+  step,
+  toGameState,
+  winProgress,
+  type EngineAction,
+  type EngineState,
+} from "./engine";
+import { getPresetSettings } from "./difficulty";
+import { nextRandom } from "./rng";
+import { DEFAULT_SCENARIO } from "./scenario";
+import {
+  RESOURCE_TYPES,
+  type DifficultyPreset,
+  type ResourceType,
+  type Scenario,
+} from "./schema";
+import { BOTS, chooseResponse, type RuleBasedAgent } from "./bots";
+
+// Picks the next action from the current state, or null to wait
+export type Strategy = (
+  state: EngineState,
+  random: () => number
+) => EngineAction | null;
+
+// A critical resource that was at or below the threshold
+export type LossCause = ResourceType;
+
+export interface SimulationOptions {
+  // Game time between strategy decisions, matches the agent's action loop
+  actionInterval: number;
+  // Games still running after this much game time count as timeouts
+  maxTime: number;
+  eventsEnabled: boolean;
+  scenario: Scenario;
+  difficulty: DifficultyPreset;
+}
+
+export interface GameResult {
+  seed: number;
+  outcome: "won" | "lost" | "timeout";
+  time: number;
+  actions: number;
+  // Resources at or below the critical threshold when the game was lost
+  lossCauses: LossCause[];
+  finalState: EngineState;
+}
+
+export interface SimulationReport {
+  strategy: string;
+  scenario: string;
+  difficulty: DifficultyPreset;
+  seed: number;
+  count: number;
+  wins: number;
+  losses: number;
+  timeouts: number;
+  winRate: number;
+  timeToWin: {
+    min: number;
+    p25: number;
+    median: number;
+    p75: number;
+    p90: number;
+    max: number;
+    mean: number;
+  } | null;
+  // Histogram of win times, keyed by the bucket start in seconds
+  winHistogram: Record<number, number>;
+  lossCauses: Partial<Record<LossCause, number>>;
+}
+
+export const DEFAULT_SIMULATION_OPTIONS: SimulationOptions = {
+  actionInterval: 500,
+  maxTime: 30 * 60 * 1000,
+  eventsEnabled: true,
+  scenario: DEFAULT_SCENARIO,
+  difficulty: "normal",
+};
+
+const HISTOGRAM_BUCKET = 60 * 1000;
+
+// Plays a bot's 10-action batches back to back, planning the next batch when
+// the previous one runs out
+const fromBot = (createBot: () => RuleBasedAgent) => (): Strategy => {
+  const bot = createBot();
+  let queue: EngineAction[] = [];
+  return (state) => {
+    if (queue.length === 0) {
+      queue = bot.plan(toGameState(state));
+    }
+    return queue.shift() ?? null;
+  };
+};
+
+const stateless = (strategy: Strategy) => () => strategy;
+
+// Strategy factories, called once per game so strategies can keep state
+export const STRATEGIES: Record<string, () => Strategy> = {
+  // Only generates energy, useful as a lower bound
+  idle: stateless(() => ({ type: "generate", resource: "energy" })),
+
+  random: stateless((state, random) => {
+    const affordable = state.upgrades.filter((u) => canPurchase(state, u.id));
+    if (affordable.length > 0 && random() < 0.2) {
+      const upgrade = affordable[Math.floor(random() * affordable.length)];
+      return { type: "purchase", upgradeId: upgrade.id };
+    }
+    return {
+      type: "generate",
+      resource: RESOURCE_TYPES[Math.floor(random() * RESOURCE_TYPES.length)],
+    };
+  }),
+
+  // Answers event choices, keeps energy up and oxygen/water out of the
+  // danger zone, buys the cheapest upgrade it can afford and otherwise works
+  // on whichever resource is furthest behind
+  balanced: stateless((state) => {
+    const response = chooseResponse(state);
+    if (response) return response;
+    const { resources } = state;
+    if (resources.energy < 70) {
+      return { type: "generate", resource: "energy" };
+    }
+    if (Math.min(resources.oxygen, resources.water) < 20) {
+      return {
+        type: "generate",
+        resource: resources.oxygen <= resources.water ? "oxygen" : "water",
+      };
+    }
+    const affordable = state.upgrades
+      .filter((u) => canPurchase(state, u.id))
+      .sort((a, b) => getUpgradeCost(a) - getUpgradeCost(b));
+    if (affordable.length > 0) {
+      return { type: "purchase", upgradeId: affordable[0].id };
+    }
+    const progress = (type: ResourceType) =>
+      winProgress(state.resources, state.scenario, type);
+    const targets = Object.keys(state.scenario.winThresholds) as ResourceType[];
+    const behind = targets.reduce((lowest, type) =>
+      progress(type) < progress(lowest) ? type : lowest
+    );
+    return { type: "generate", resource: behind };
+  }),
+
+  ...Object.fromEntries(
+    Object.entries(BOTS).map(([name, createBot]) => [name, fromBot(createBot)])
+  ),
+};
+
+export function runGame(
+  strategy: Strategy,
+  seed: number,
+  options: SimulationOptions = DEFAULT_SIMULATION_OPTIONS
+): GameResult {
+  let rngState = seed ^ 0x5bd1e995;
+  const random = () => {
+    const [value, next] = nextRandom(rngState);
+    rngState = next;
+    return value;
+  };
+
+  let state = step(
+    createInitialState(seed, options.scenario, {
+      preset: options.difficulty,
+      settings: getPresetSettings(options.difficulty, options.scenario),
+    }),
+    { type: "setEventsEnabled", enabled: options.eventsEnabled },
+    0
+  );
+  let actions = 0;
+
+  while (!isGameOver(state) && state.time < options.maxTime) {
+    const action = strategy(state, random);
+    if (action) actions++;
+    // The clock only starts on the first action, so waiting before then
+    // would loop forever
+    if (!action && !state.gameStarted) break;
+    state = step(state, action, options.actionInterval);
+  }
+
+  return {
+    seed,
+    outcome: state.gameWon ? "won" : state.gameLost ? "lost" : "timeout",
+    time: state.time,
+    actions,
+    lossCauses: state.gameLost ? getLossCauses(state) : [],
+    finalState: state,
+  };
+}
+
+export function getLossCauses(state: EngineState): LossCause[] {
+  const { criticalResources, criticalThreshold } = state.scenario;
+  return criticalResources.filter(
+    (type) => state.resources[type] <= criticalThreshold
+  );
+}
+
+export function simulate(
+  strategyName: string,
+  seed: number,
+  count: number,
+  options: SimulationOptions = DEFAULT_SIMULATION_OPTIONS
+): SimulationReport {
+  const createStrategy = STRATEGIES[strategyName];
+  if (!createStrategy) {
+    throw new Error(
+      `Unknown strategy "${strategyName}". Available: ${Object.keys(
+        STRATEGIES
+      ).join(", ")}`
+    );
+  }
+
+  const results: GameResult[] = [];
+  for (let i = 0; i < count; i++) {
+    results.push(runGame(createStrategy(), (seed + i) | 0, options));
+  }
+  return summarize(
+    strategyName,
+    options.scenario.id,
+    options.difficulty,
+    seed,
+    results
+  );
+}
+
+export function summarize(
+  strategy: string,
+  scenario: string,
+  difficulty: DifficultyPreset,
+  seed: number,
+  results: GameResult[]
+): SimulationReport {
+  const winTimes = results
+    .filter((r) => r.outcome === "won")
+    .map((r) => r.time)
+    .sort((a, b) => a - b);
+  const losses = results.filter((r) => r.outcome === "lost");
+
+  const lossCauses: Partial<Record<LossCause, number>> = {};
+  losses.forEach((r) =>
+    r.lossCauses.forEach((cause) => {
+      lossCauses[cause] = (lossCauses[cause] ?? 0) + 1;
+    })
+  );
+
+  const winHistogram: Record<number, number> = {};
+  winTimes.forEach((time) => {
+    const bucket =
+      (Math.floor(time / HISTOGRAM_BUCKET) * HISTOGRAM_BUCKET) / 1000;
+    winHistogram[bucket] = (winHistogram[bucket] || 0) + 1;
+  });
+
+  return {
+    strategy,
+    scenario,
+    difficulty,
+    seed,
+    count: results.length,
+    wins: winTimes.length,
+    losses: losses.length,
+    timeouts: results.length - winTimes.length - losses.length,
+    winRate: results.length > 0 ? winTimes.length / results.length : 0,
+    timeToWin:
+      winTimes.length > 0
+        ? {
+            min: winTimes[0],
+            p25: percentile(winTimes, 0.25),
+            median: percentile(winTimes, 0.5),
+            p75: percentile(winTimes, 0.75),
+            p90: percentile(winTimes, 0.9),
+            max: winTimes[winTimes.length - 1],
+            mean: winTimes.reduce((a, b) => a + b, 0) / winTimes.length,
+          }
+        : null,
+    winHistogram,
+    lossCauses,
+  };
+}
+
+// Nearest-rank percentile of an ascending list
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil(p * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank))];
+}
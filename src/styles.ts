@@ -0,0 +1,169 @@
+import styled from "@emotion/styled";
+import { motion } from "framer-motion";
+import type { UpgradeStatus } from "./schema";
+
+// Emotion forwards every prop to a wrapped component such as motion.div,
+// which would put `$`-prefixed styling props on the DOM element
+const styleProps = {
+  shouldForwardProp: (prop: string) => !prop.startsWith("$"),
+};
+
+export const Container = styled.div`
+  max-width: 1200px;
+  margin: 0 auto;
+  padding: 2rem;
+  text-align: center;
+  min-height: 100vh;
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+`;
+
+export const GameBoard = styled.div`
+  display: grid;
+  grid-template-columns: repeat(3, 1fr);
+  gap: 2rem;
+  margin: 2rem 0;
+  width: 100%;
+  max-width: 1000px;
+`;
+
+export const ResourceCard = styled(motion.div)`
+  background: #2a2a2a;
+  padding: 1.5rem;
+  border-radius: 10px;
+  color: white;
+  width: 100%;
+  height: 200px; // Fixed height to prevent layout shifts
+`;
+
+export const Button = styled(motion.button)`
+  background: #e53170;
+  color: white;
+  border: none;
+  padding: 0.8rem 1.5rem;
+  border-radius: 5px;
+  cursor: pointer;
+  font-size: 1rem;
+  margin: 0.5rem;
+  width: 150px; // Fixed width to maintain consistent size
+  height: 50px; // Fixed height to maintain consistent size
+
+  &:hover {
+    background: #ff4081;
+  }
+
+  &:disabled {
+    background: #666;
+    cursor: not-allowed;
+  }
+
+  &.agent-action {
+    background: #00ff00;
+    transform: scale(1.1);
+    box-shadow: 0 0 10px rgba(0, 255, 0, 0.5);
+  }
+`;
+
+export const EventArea = styled.div`
+  height: 120px; // Increased fixed height to prevent layout shifts
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  margin: 1rem 0;
+  width: 100%;
+  max-width: 1000px;
+`;
+
+export const EventCard = styled(motion.div, styleProps)<{
+  $severity: "positive" | "negative";
+}>`
+  background: ${(props) =>
+    props.$severity === "positive" ? "#2e7d32" : "#c62828"};
+  padding: 1rem;
+  border-radius: 10px;
+  color: white;
+  width: 100%;
+  max-width: 600px;
+  position: relative;
+`;
+
+export const UpgradeSection = styled.div`
+  display: grid;
+  grid-template-columns: repeat(auto-fit, minmax(250px, 1fr));
+  gap: 1rem;
+  margin: 2rem 0;
+  width: 100%;
+  max-width: 1000px;
+`;
+
+export const UpgradeCard = styled(motion.div, styleProps)<{
+  $status: UpgradeStatus;
+}>`
+  background: #3a3a3a;
+  padding: 1rem;
+  border-radius: 10px;
+  cursor: ${(props) =>
+    props.$status === "available" ? "pointer" : "not-allowed"};
+  width: 100%;
+  height: 190px; // Fixed height to prevent layout shifts
+  border: 2px
+    ${(props) =>
+      props.$status === "locked"
+        ? "dashed #666"
+        : props.$status === "purchased"
+        ? "solid #4caf50"
+        : "solid transparent"};
+  opacity: ${(props) => (props.$status === "available" ? 1 : 0.5)};
+
+  &:hover {
+    background: #4a4a4a;
+  }
+
+  &[disabled] {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+export const Stats = styled.div`
+  display: flex;
+  justify-content: space-around;
+  align-items: center;
+  flex-wrap: wrap;
+  gap: 1rem;
+  margin: 1rem 0;
+  padding: 1rem;
+  background: #2a2a2a;
+  border-radius: 10px;
+  width: 100%;
+  max-width: 1000px;
+  min-height: 80px; // Fixed height to prevent layout shifts
+`;
+
+export const SaveSection = styled.div`
+  display: grid;
+  grid-template-columns: repeat(auto-fit, minmax(320px, 1fr));
+  gap: 1rem;
+  margin: 2rem 0;
+  width: 100%;
+  max-width: 1000px;
+`;
+
+export const InfoCard = styled.div`
+  background: #2a2a2a;
+  padding: 1rem;
+  border-radius: 10px;
+  color: white;
+  width: 100%;
+`;
+
+export const ObserverSection = styled.div`
+  display: grid;
+  grid-template-columns: repeat(3, 1fr);
+  gap: 1rem;
+  margin: 1rem 0;
+  width: 100%;
+  max-width: 1000px;
+  text-align: left;
+`;
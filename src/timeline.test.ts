@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { createInitialState, type EngineState } from "./engine";
+import {
+  addMarkers,
+  addSample,
+  createTimeline,
+  criticalWindows,
+  downsample,
+  logMarkers,
+  timelinePoints,
+  timelineToCSV,
+  type TimelinePoint,
+} from "./timeline";
+
+const at = (time: number, changes: Partial<TimelinePoint> = {}) => ({
+  time,
+  oxygen: 50,
+  water: 50,
+  temperature: 0,
+  energy: 50,
+  credits: 0,
+  critical: false,
+  ...changes,
+});
+
+const gameAt = (time: number, changes: Partial<EngineState> = {}) => ({
+  ...createInitialState(1),
+  time,
+  ...changes,
+});
+
+describe("timeline", () => {
+  it("keeps every sample across chunks", () => {
+    let timeline = createTimeline(gameAt(0));
+    for (let i = 1; i <= 2500; i++) {
+      timeline = addSample(timeline, gameAt(i * 100));
+    }
+
+    expect(timeline.chunks.length).toBeGreaterThan(1);
+    const points = timelinePoints(timeline);
+    expect(points).toHaveLength(2501);
+    expect(points[2500].time).toBe(250_000);
+  });
+
+  it("finds critical windows, including one still running", () => {
+    const points = [
+      at(0),
+      at(100, { critical: true }),
+      at(200, { critical: true }),
+      at(300),
+      at(400, { critical: true }),
+    ];
+
+    expect(criticalWindows(points)).toEqual([
+      { start: 100, end: 300 },
+      { start: 400, end: 400 },
+    ]);
+  });
+
+  it("keeps spikes when downsampling", () => {
+    const points = Array.from({ length: 1000 }, (_, i) =>
+      at(i, { oxygen: i === 501 ? 99 : i === 702 ? 1 : 50 })
+    );
+
+    const drawn = downsample(points, "oxygen", 100);
+
+    expect(drawn.length).toBeLessThanOrEqual(100);
+    expect(drawn).toContainEqual([501, 99]);
+    expect(drawn).toContainEqual([702, 1]);
+  });
+
+  it("names events and purchases by who made them", () => {
+    const game = createInitialState(1);
+    const event = game.scenario.events[0];
+    const upgrade = game.upgrades[0];
+
+    const markers = logMarkers(
+      game,
+      [
+        { type: "drain", time: 100 },
+        { type: "event", time: 100, eventId: event.id },
+        {
+          type: "action",
+          time: 200,
+          action: { type: "purchase", upgradeId: upgrade.id },
+        },
+      ],
+      "agent"
+    );
+
+    expect(markers).toEqual([
+      { time: 100, kind: "event", label: event.title },
+      { time: 200, kind: "purchase", label: `${upgrade.name} (agent)` },
+    ]);
+  });
+
+  it("exports markers on the next sample", () => {
+    let timeline = createTimeline(gameAt(0));
+    timeline = addSample(timeline, gameAt(100, { critical: true }));
+    timeline = addSample(timeline, gameAt(200));
+    timeline = addMarkers(timeline, [
+      { time: 150, kind: "plan", label: '2 steps, "proposed"' },
+    ]);
+
+    const rows = timelineToCSV(timeline).split("\n");
+
+    expect(rows[0]).toBe(
+      "time,oxygen,water,temperature,energy,credits,critical,markers"
+    );
+    expect(rows).toHaveLength(4);
+    expect(rows[2]).toMatch(/^100,.*,1,""$/);
+    expect(rows[3]).toMatch(/,0,"plan: 2 steps, ""proposed"""$/);
+  });
+});
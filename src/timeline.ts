@@ -0,0 +1,178 @@
+import { getEvent, type EngineLogEntry, type EngineState } from "./engine";
+import { RESOURCE_TYPES, type Resource } from "./schema";
+
+// Full-session time series for charts and export: one sample per game tick,
+// plus markers for what happened in between. Samples are kept in chunks so
+// adding one doesn't copy the whole session.
+
+export interface TimelinePoint extends Resource {
+  time: number;
+  credits: number;
+  critical: boolean;
+}
+
+export type TimelineSeries = Exclude<keyof TimelinePoint, "time" | "critical">;
+
+export const TIMELINE_SERIES: TimelineSeries[] = [...RESOURCE_TYPES, "credits"];
+
+export type MarkerKind = "event" | "purchase" | "build" | "plan";
+
+export interface TimelineMarker {
+  time: number;
+  kind: MarkerKind;
+  label: string;
+}
+
+export interface Timeline {
+  chunks: TimelinePoint[][];
+  markers: TimelineMarker[];
+}
+
+const CHUNK_SIZE = 1000;
+
+export const sample = (game: EngineState): TimelinePoint => ({
+  time: game.time,
+  ...game.resources,
+  credits: game.credits,
+  critical: game.critical,
+});
+
+export const createTimeline = (game: EngineState): Timeline => ({
+  chunks: [[sample(game)]],
+  markers: [],
+});
+
+export function addSample(timeline: Timeline, game: EngineState): Timeline {
+  const { chunks } = timeline;
+  const last = chunks[chunks.length - 1];
+  return {
+    ...timeline,
+    chunks:
+      !last || last.length >= CHUNK_SIZE
+        ? [...chunks, [sample(game)]]
+        : [...chunks.slice(0, -1), [...last, sample(game)]],
+  };
+}
+
+export function addMarkers(
+  timeline: Timeline,
+  markers: TimelineMarker[]
+): Timeline {
+  if (markers.length === 0) return timeline;
+  return { ...timeline, markers: [...timeline.markers, ...markers] };
+}
+
+export const timelinePoints = (timeline: Timeline): TimelinePoint[] =>
+  timeline.chunks.flat();
+
+// Events fired and upgrades bought or buildings built during a step, named
+// as in the game. `by` says who acted.
+export function logMarkers(
+  game: EngineState,
+  log: EngineLogEntry[],
+  by: "player" | "agent"
+): TimelineMarker[] {
+  return log.flatMap((entry): TimelineMarker[] => {
+    if (entry.type === "event") {
+      const title = getEvent(game.scenario, entry.eventId)?.title;
+      return [
+        { time: entry.time, kind: "event", label: title ?? entry.eventId },
+      ];
+    }
+    if (entry.type !== "action") return [];
+    const { action } = entry;
+    if (action.type === "purchase") {
+      const name = game.upgrades.find((u) => u.id === action.upgradeId)?.name;
+      return [
+        {
+          time: entry.time,
+          kind: "purchase",
+          label: `${name ?? action.upgradeId} (${by})`,
+        },
+      ];
+    }
+    if (action.type === "build") {
+      const name = game.buildings.find((b) => b.id === action.buildingId)?.name;
+      return [
+        {
+          time: entry.time,
+          kind: "build",
+          label: `${name ?? action.buildingId} (${by})`,
+        },
+      ];
+    }
+    return [];
+  });
+}
+
+// Stretches of game time with the critical countdown running
+export function criticalWindows(
+  points: TimelinePoint[]
+): { start: number; end: number }[] {
+  const windows: { start: number; end: number }[] = [];
+  let start: number | null = null;
+  points.forEach((point, i) => {
+    if (point.critical && start === null) start = point.time;
+    if (start !== null && (!point.critical || i === points.length - 1)) {
+      windows.push({ start, end: point.time });
+      start = null;
+    }
+  });
+  return windows;
+}
+
+// At most `max` points of one series for drawing. Each bucket keeps its
+// lowest and highest value, so short spikes and dips still show.
+export function downsample(
+  points: TimelinePoint[],
+  series: TimelineSeries,
+  max: number
+): [number, number][] {
+  if (points.length <= max) return points.map((p) => [p.time, p[series]]);
+  const size = Math.ceil(points.length / (max / 2));
+  const result: [number, number][] = [];
+  for (let i = 0; i < points.length; i += size) {
+    const bucket = points.slice(i, i + size);
+    let low = bucket[0];
+    let high = bucket[0];
+    for (const point of bucket) {
+      if (point[series] < low[series]) low = point;
+      if (point[series] > high[series]) high = point;
+    }
+    const [a, b] = low.time <= high.time ? [low, high] : [high, low];
+    result.push([a.time, a[series]]);
+    if (b !== a) result.push([b.time, b[series]]);
+  }
+  return result;
+}
+
+// One row per sample. Markers go on the first sample at or after them.
+export function timelineToCSV(timeline: Timeline): string {
+  const header = ["time", ...TIMELINE_SERIES, "critical", "markers"];
+  const markers = [...timeline.markers].sort((a, b) => a.time - b.time);
+  const quote = (text: string) => `"${text.replace(/"/g, '""')}"`;
+  let next = 0;
+  return [
+    header.join(","),
+    ...timelinePoints(timeline).map((point) => {
+      const labels: string[] = [];
+      while (next < markers.length && markers[next].time <= point.time) {
+        labels.push(`${markers[next].kind}: ${markers[next].label}`);
+        next++;
+      }
+      return [
+        point.time,
+        ...TIMELINE_SERIES.map((series) => point[series]),
+        point.critical ? 1 : 0,
+        quote(labels.join("; ")),
+      ].join(",");
+    }),
+  ].join("\n");
+}
+
+export const timelineToJSON = (timeline: Timeline): string =>
+  JSON.stringify(
+    { points: timelinePoints(timeline), markers: timeline.markers },
+    null,
+    2
+  );
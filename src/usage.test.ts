@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import type { CompletionRequest, LLMProvider } from "./llm";
+import {
+  BudgetExceededError,
+  UsageMeter,
+  getCost,
+  getModelPrice,
+  type UsageRole,
+} from "./usage";
+
+const request = (model = "gpt-4o-mini"): CompletionRequest => ({
+  model,
+  temperature: 0,
+  maxTokens: 100,
+  messages: [{ role: "user", content: "x".repeat(400) }],
+  json: true,
+});
+
+const usage = (promptTokens: number, completionTokens: number) => ({
+  content: "{}",
+  usage: { promptTokens, completionTokens },
+});
+
+describe("getModelPrice", () => {
+  it("matches dated snapshots by the longest prefix", () => {
+    expect(getModelPrice("gpt-4o-2024-11-20")).toEqual(getModelPrice("gpt-4o"));
+    expect(getModelPrice("gpt-4o-mini-2024-07-18")?.prompt).toBe(0.15);
+  });
+
+  it("has no price for unknown models", () => {
+    expect(getModelPrice("llama3.1:8b")).toBeNull();
+    expect(getCost("llama3.1:8b", usage(100, 10).usage)).toBeNull();
+  });
+});
+
+describe("UsageMeter", () => {
+  it("adds up tokens and cost per role", () => {
+    const meter = new UsageMeter();
+    const calls: [UsageRole, number, number][] = [
+      ["agent", 1_000_000, 0],
+      ["agent", 0, 1_000_000],
+      ["observer", 2_000_000, 0],
+    ];
+    calls.forEach(([role, prompt, completion]) =>
+      meter.record(role, request(), usage(prompt, completion))
+    );
+
+    expect(meter.totals("agent")).toEqual({
+      calls: 2,
+      promptTokens: 1_000_000,
+      completionTokens: 1_000_000,
+      cost: 0.75,
+      unpriced: 0,
+    });
+    expect(meter.totals().calls).toBe(3);
+    expect(meter.totals().cost).toBeCloseTo(1.05);
+  });
+
+  it("estimates tokens the endpoint didn't report", () => {
+    const meter = new UsageMeter();
+
+    const record = meter.record("agent", request(), { content: "abcdefgh" });
+
+    expect(record).toMatchObject({
+      promptTokens: 100,
+      completionTokens: 2,
+      estimated: true,
+    });
+  });
+
+  it("counts calls to unpriced models apart", () => {
+    const meter = new UsageMeter();
+
+    meter.record("observer", request("local-model"), usage(500, 50));
+
+    expect(meter.totals()).toMatchObject({ cost: 0, unpriced: 1 });
+  });
+
+  it("refuses metered calls once the budget is used up", async () => {
+    const meter = new UsageMeter(0.1);
+    let calls = 0;
+    const provider: LLMProvider = {
+      name: "fake",
+      complete: async () => {
+        calls++;
+        return usage(1_000_000, 0);
+      },
+    };
+    const metered = meter.meter(provider, "agent");
+
+    await metered.complete(request());
+
+    expect(meter.overBudget).toBe(true);
+    await expect(metered.complete(request())).rejects.toThrow(
+      BudgetExceededError
+    );
+    expect(calls).toBe(1);
+
+    meter.budget = 1;
+    await expect(metered.complete(request())).resolves.toBeTruthy();
+  });
+});
@@ -0,0 +1,173 @@
+import type { CompletionRequest, CompletionResponse, LLMProvider } from "./llm";
+
+// Token and cost accounting for LLM calls. Providers are wrapped in a meter
+// that records every completion under the role that asked for it.
+
+// USD per million tokens
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+// Matched by the longest prefix, so dated snapshots like gpt-4o-2024-11-20
+// use their family's price. Other models, e.g. local ones, are not priced.
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o": { prompt: 2.5, completion: 10 },
+  "gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+  "gpt-4.1": { prompt: 2, completion: 8 },
+  "gpt-4.1-mini": { prompt: 0.4, completion: 1.6 },
+  "gpt-4.1-nano": { prompt: 0.1, completion: 0.4 },
+  "o4-mini": { prompt: 1.1, completion: 4.4 },
+  "gpt-3.5-turbo": { prompt: 0.5, completion: 1.5 },
+};
+
+export type UsageRole = "agent" | "observer" | "console";
+
+export const USAGE_ROLES: UsageRole[] = ["agent", "observer", "console"];
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface UsageRecord extends TokenUsage {
+  role: UsageRole;
+  model: string;
+  at: number;
+  // Counted from the text when the endpoint didn't report usage
+  estimated: boolean;
+  // USD, null for models without a known price
+  cost: number | null;
+}
+
+export interface UsageTotals extends TokenUsage {
+  calls: number;
+  cost: number;
+  // Calls left out of `cost` because their model has no known price
+  unpriced: number;
+}
+
+// Calls kept for the per-call list, totals count every call
+export const MAX_USAGE_RECORDS = 500;
+
+export class BudgetExceededError extends Error {
+  constructor(budget: number) {
+    super(`The LLM budget of $${budget.toFixed(2)} is used up`);
+    this.name = "BudgetExceededError";
+  }
+}
+
+// Rough token count, close enough for estimates and demo usage numbers
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export function getModelPrice(model: string): ModelPrice | null {
+  const family = Object.keys(MODEL_PRICES)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return family ? MODEL_PRICES[family] : null;
+}
+
+export function getCost(model: string, usage: TokenUsage): number | null {
+  const price = getModelPrice(model);
+  if (!price) return null;
+  return (
+    (usage.promptTokens * price.prompt +
+      usage.completionTokens * price.completion) /
+    1_000_000
+  );
+}
+
+export const emptyTotals = (): UsageTotals => ({
+  calls: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  cost: 0,
+  unpriced: 0,
+});
+
+export const addTotals = (a: UsageTotals, b: UsageTotals): UsageTotals => ({
+  calls: a.calls + b.calls,
+  promptTokens: a.promptTokens + b.promptTokens,
+  completionTokens: a.completionTokens + b.completionTokens,
+  cost: a.cost + b.cost,
+  unpriced: a.unpriced + b.unpriced,
+});
+
+export class UsageMeter {
+  // Estimated USD for the whole session, null for no limit
+  budget: number | null;
+  private log: UsageRecord[] = [];
+  private roleTotals: Record<UsageRole, UsageTotals> = {
+    agent: emptyTotals(),
+    observer: emptyTotals(),
+    console: emptyTotals(),
+  };
+
+  constructor(budget: number | null = null) {
+    this.budget = budget;
+  }
+
+  get records(): readonly UsageRecord[] {
+    return this.log;
+  }
+
+  // One role's totals, or all of them added up
+  totals(role?: UsageRole): UsageTotals {
+    if (role) return this.roleTotals[role];
+    return Object.values(this.roleTotals).reduce(addTotals, emptyTotals());
+  }
+
+  get overBudget(): boolean {
+    return this.budget !== null && this.totals().cost >= this.budget;
+  }
+
+  record(
+    role: UsageRole,
+    request: CompletionRequest,
+    response: CompletionResponse
+  ): UsageRecord {
+    const usage = response.usage ?? {
+      promptTokens: estimateTokens(
+        request.messages.map((m) => m.content).join("\n")
+      ),
+      completionTokens: estimateTokens(response.content ?? ""),
+    };
+    const entry: UsageRecord = {
+      role,
+      model: request.model,
+      at: Date.now(),
+      ...usage,
+      estimated: !response.usage,
+      cost: getCost(request.model, usage),
+    };
+
+    this.roleTotals = {
+      ...this.roleTotals,
+      [role]: addTotals(this.roleTotals[role], {
+        calls: 1,
+        promptTokens: entry.promptTokens,
+        completionTokens: entry.completionTokens,
+        cost: entry.cost ?? 0,
+        unpriced: entry.cost === null ? 1 : 0,
+      }),
+    };
+    this.log = [...this.log, entry].slice(-MAX_USAGE_RECORDS);
+    return entry;
+  }
+
+  // `provider` with every completion recorded under `role`. Calls fail with
+  // a BudgetExceededError once the budget is used up.
+  meter(provider: LLMProvider, role: UsageRole): LLMProvider {
+    return {
+      name: provider.name,
+      complete: async (request) => {
+        if (this.overBudget) {
+          throw new BudgetExceededError(this.budget!);
+        }
+        const response = await provider.complete(request);
+        this.record(role, request, response);
+        return response;
+      },
+    };
+  }
+}
@@ -1,8 +1,12 @@
-import { defineConfig } from "vite";
+import { defineConfig } from "vitest/config";
 import react from "@vitejs/plugin-react";
 
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
   base: "/curmars/",
+  test: {
+    // Component tests opt into jsdom with a @vitest-environment comment
+    environment: "node",
+  },
 });